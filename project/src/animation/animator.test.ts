@@ -24,6 +24,7 @@ function makeTransitMock(planets: Record<string, number[]> = { Sun: [45], Moon:
   const paperElementId = 'chart-astrology'
   const paper = {
     _paperElementId: paperElementId,
+    document,
     root: {
       namespaceURI: 'http://www.w3.org/2000/svg',
       id: paperElementId,
@@ -38,6 +39,9 @@ function makeTransitMock(planets: Record<string, number[]> = { Sun: [45], Moon:
     text: jest.fn(() => {
       return document.createElementNS('http://www.w3.org/2000/svg', 'text')
     }),
+    renderer: {
+      invalidate: jest.fn(),
+    },
   }
 
   return {
@@ -46,6 +50,7 @@ function makeTransitMock(planets: Record<string, number[]> = { Sun: [45], Moon:
       cusps: [...cusps],
     },
     paper,
+    id: 'transit',
     cx: 400,
     cy: 400,
     drawPoints: jest.fn(),
@@ -272,6 +277,22 @@ describe('Animator', () => {
       expect(updatePlanetsSpy).toHaveBeenCalled()
       expect(updateCuspsSpy).toHaveBeenCalled()
     })
+
+    test('should invalidate the renderer after the cusps are moved', () => {
+      const transit = makeTransitMock()
+      const animator = new Animator(transit as any, default_settings)
+
+      animator.data = {
+        planets: { Sun: [90] },
+        cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330],
+      }
+      animator.duration = 10000
+      animator.cuspsElement = document.getElementById('chart-astrology-transit-cusps')
+
+      animator.update(100)
+
+      expect(transit.paper.renderer.invalidate).toHaveBeenCalledTimes(1)
+    })
   })
 
   describe('updateCusps', () => {
@@ -65,7 +65,7 @@ class Animator {
     this.callback = callback
 
     this.rotation = 0
-    this.cuspsElement = document.getElementById(this.transit.paper._paperElementId + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_CUSPS)
+    this.cuspsElement = this.transit.paper.document.getElementById(this.transit.paper._paperElementId + '-' + this.transit.id + '-' + this.settings.ID_CUSPS)
 
     this.timer.start()
   }
@@ -89,6 +89,9 @@ class Animator {
 
     this.updatePlanets(expectedNumberOfLoops)
     this.updateCusps(expectedNumberOfLoops)
+
+    // the cusps are moved in place
+    this.transit.paper.renderer.invalidate()
   }
 
   /*
@@ -0,0 +1,113 @@
+import Chart from '../chart'
+import SkyClock from './skyclock'
+import Transit from '../transit'
+import { createFixtureProvider } from '../provider'
+import type { AstroData } from '../radix'
+
+// Mock Timer to run the animation frames by hand
+const mockTimers: Array<{ callback: (delta: number) => void }> = []
+jest.mock('./timer', () => {
+  return {
+    __esModule: true,
+    default: jest.fn().mockImplementation((callback: (delta: number) => void) => {
+      const timer = { start: jest.fn(), stop: jest.fn(), callback }
+      mockTimers.push(timer)
+      return timer
+    }),
+  }
+})
+
+const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+const natal: AstroData = { planets: { Sun: [10], Moon: [100] }, cusps }
+const fixtures: Record<string, AstroData> = {
+  '2000-01-01T00:00:00Z': { planets: { Sun: [280], Moon: [220] }, cusps },
+  '2000-01-01T01:00:00Z': { planets: { Sun: [281], Moon: [221] }, cusps },
+  '2000-01-01T02:00:00Z': { planets: { Sun: [282], Moon: [222] }, cusps }
+}
+
+describe('SkyClock', () => {
+  let chart: Chart
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+    chart = new Chart('chart', 800, 800, { SKY_CLOCK_INTERVAL: 10 })
+    chart.setEphemerisProvider(createFixtureProvider(fixtures))
+    jest.useFakeTimers()
+    jest.spyOn(Transit.prototype, 'animate').mockImplementation(function (this: Transit) { return this })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    jest.useRealTimers()
+  })
+
+  test('should draw the transit of the instant', () => {
+    const clock = chart.skyClock(natal, { date: new Date('2000-01-01T00:30:00Z') })
+    expect(clock.transit?.data.planets.Sun[0]).toBe(280)
+    expect(document.getElementById('chart-astrology-transit-planets-Sun')).not.toBeNull()
+  })
+
+  test('should animate the transit ring to the next instant', () => {
+    const clock = chart.skyClock(natal, { date: new Date('2000-01-01T00:00:00Z') })
+    clock.setTime(new Date('2000-01-01T01:00:00Z'))
+    expect(Transit.prototype.animate).toHaveBeenCalledWith(fixtures['2000-01-01T01:00:00Z'], chart.settings.SKY_CLOCK_ANIMATION_DURATION, false, expect.any(Function))
+
+    clock.setTime(new Date('2000-01-01T00:00:00Z'))
+    expect(Transit.prototype.animate).toHaveBeenLastCalledWith(fixtures['2000-01-01T00:00:00Z'], chart.settings.SKY_CLOCK_ANIMATION_DURATION, true, expect.any(Function))
+  })
+
+  test('should tick by the step in the live mode', () => {
+    const clock = chart.skyClock(natal, { date: new Date('2000-01-01T00:00:00Z'), step: 3600000 })
+    clock.start()
+    expect(clock.isRunning()).toBe(true)
+
+    jest.advanceTimersByTime(10000)
+    expect(clock.date.toISOString()).toBe('2000-01-01T01:00:00.000Z')
+    jest.advanceTimersByTime(10000)
+    expect(clock.date.toISOString()).toBe('2000-01-01T02:00:00.000Z')
+    expect(Transit.prototype.animate).toHaveBeenCalledTimes(2)
+
+    clock.stop()
+    expect(clock.isRunning()).toBe(false)
+    jest.advanceTimersByTime(10000)
+    expect(Transit.prototype.animate).toHaveBeenCalledTimes(2)
+  })
+
+  test('should follow the real time without the step', () => {
+    jest.setSystemTime(new Date('2000-01-01T01:30:00Z'))
+    const clock = chart.skyClock(natal).start()
+    expect(clock.transit?.data.planets.Sun[0]).toBe(281)
+
+    jest.advanceTimersByTime(10000)
+    expect(clock.date.toISOString()).toBe('2000-01-01T01:30:10.000Z')
+    clock.stop()
+  })
+
+  test('should draw the ring on start', () => {
+    const radix = chart.radix(natal)
+    const clock = new SkyClock(radix, createFixtureProvider(fixtures), chart.settings, { date: new Date('2000-01-01T02:00:00Z') })
+    expect(clock.transit).toBeNull()
+    clock.start()
+    expect(clock.transit?.data.planets.Sun[0]).toBe(282)
+    clock.stop()
+  })
+
+  test('should not turn the cusps on the tick', () => {
+    jest.mocked(Transit.prototype.animate).mockRestore()
+    const clock = chart.skyClock(natal, { date: new Date('2000-01-01T00:00:00Z'), step: 3600000 }).start()
+    jest.advanceTimersByTime(10000)
+
+    // the first frame of the animation
+    mockTimers[mockTimers.length - 1].callback(100)
+    const cusps = document.getElementById('chart-astrology-transit-cusps')!
+    expect(cusps.getAttribute('transform')).toBe('rotate(0 ' + clock.transit!.cx + ' ' + clock.transit!.cy + ')')
+    expect(clock.transit!.settings.ANIMATION_CUSPS_ROTATION_SPEED).toBe(0)
+    expect(chart.settings.ANIMATION_CUSPS_ROTATION_SPEED).toBe(2)
+    clock.stop()
+  })
+
+  test('should throw if provider is not a function', () => {
+    expect(() => chart.setEphemerisProvider(null as any)).toThrow('Param \'provider\' has to be a function.')
+    expect(() => new SkyClock(chart.radix(natal), 'sky' as any, chart.settings)).toThrow('Param \'provider\' has to be a function.')
+  })
+})
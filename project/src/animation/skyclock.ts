@@ -0,0 +1,128 @@
+import type Radix from '../radix'
+import type Transit from '../transit'
+import type { Settings } from '../settings'
+import type { EphemerisProvider } from '../provider'
+import type { GeoLocation } from '../ephemeris'
+import { getDecimalYear } from '../time'
+
+export interface SkyClockOptions {
+  // instant of the first transit, now by default
+  date?: Date
+  // place of the transit houses
+  location?: GeoLocation
+  // milliseconds of the sky time added on each tick, the clock follows the real time by default
+  step?: number
+}
+
+/**
+   * Sky clock.
+   *
+   * Transit ring bound to the time, the positions come from the ephemeris provider.
+   * In the live mode the clock ticks every settings.SKY_CLOCK_INTERVAL seconds
+   * and animates the ring to the new positions, the cusps turn by settings.SKY_CLOCK_CUSPS_ROTATION_SPEED.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {Radix} radix
+   * @param {EphemerisProvider} provider
+   * @param {Object} settings
+   * @param {Object | undefined} options, {date:new Date(), location:{latitude:50.08, longitude:14.42}, step:3600000}
+   */
+class SkyClock {
+  radix: Radix
+  provider: EphemerisProvider
+  settings: Settings
+  location: GeoLocation | undefined
+  step: number | undefined
+  date: Date
+  transit: Transit | null
+  intervalID: ReturnType<typeof setInterval> | undefined
+  context: this
+  constructor (radix: Radix, provider: EphemerisProvider, settings: Settings, options?: SkyClockOptions) {
+    if (typeof provider !== 'function') {
+      throw new Error('Param \'provider\' has to be a function.')
+    }
+
+    this.radix = radix
+    this.provider = provider
+    this.settings = settings
+    this.location = options?.location
+    this.step = options?.step
+    this.date = options?.date ?? new Date()
+    this.transit = null
+
+    this.context = this
+  }
+
+  /**
+   * Move the transit ring to the instant
+   *
+   * The ring is drawn on the first call and animated on the next ones.
+   *
+   * @param {Date} date
+   * @return {Transit} ring
+   */
+  setTime (date: Date): Transit {
+    const data = this.provider(date, this.location)
+    const isReverse = date.getTime() < this.date.getTime()
+    this.date = date
+
+    // ayanamsa of the instant, @see settings.AYANAMSA_YEAR
+    const year = getDecimalYear(date)
+    if (this.transit == null) {
+      // the cusps move only by the sky, not by extra turns of the animation
+      this.transit = this.radix.ring(data, { index: 0, settings: { ANIMATION_CUSPS_ROTATION_SPEED: this.settings.SKY_CLOCK_CUSPS_ROTATION_SPEED, AYANAMSA_YEAR: year } })
+      this.transit.aspects()
+    } else {
+      this.transit.settings = { ...this.transit.settings, AYANAMSA_YEAR: year }
+      this.transit.animate(data, this.settings.SKY_CLOCK_ANIMATION_DURATION, isReverse, () => {})
+    }
+
+    return this.transit
+  }
+
+  /**
+   * Start the live mode
+   *
+   * @return {SkyClock}
+   */
+  start (): SkyClock {
+    if (this.intervalID == null) {
+      if (this.transit == null) {
+        this.setTime(this.date)
+      }
+      this.intervalID = setInterval(() => { this.tick() }, this.settings.SKY_CLOCK_INTERVAL * 1000)
+      if (this.settings.DEBUG) console.log('[astrology.SkyClock] start')
+    }
+    return this.context
+  }
+
+  /**
+   * Stop the live mode
+   *
+   * @return {SkyClock}
+   */
+  stop (): SkyClock {
+    if (this.intervalID != null) {
+      clearInterval(this.intervalID)
+      this.intervalID = undefined
+      if (this.settings.DEBUG) console.log('[astrology.SkyClock] stop')
+    }
+    return this.context
+  }
+
+  isRunning (): boolean {
+    return this.intervalID != null
+  }
+
+  /*
+   * Next instant of the clock
+   * @private
+   */
+  tick (): void {
+    this.setTime(this.step != null ? new Date(this.date.getTime() + this.step) : new Date())
+  }
+}
+
+export default SkyClock
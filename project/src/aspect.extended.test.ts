@@ -1,4 +1,4 @@
-import AspectCalculator from './aspect'
+import AspectCalculator, { ASPECTS_CATALOGUE, LILLY_ORBS } from './aspect'
 import default_settings from './settings'
 
 const defaultAspects = {
@@ -366,3 +366,225 @@ describe('AspectCalculator - extended', () => {
     })
   })
 })
+
+describe('AspectCalculator.synastry', () => {
+  test('should return empty array for null points', () => {
+    const calc = new AspectCalculator({ Sun: [0] })
+    expect(calc.synastry(null as any)).toStrictEqual([])
+  })
+
+  test('should find aspects between the same named points', () => {
+    const calc = new AspectCalculator({ Sun: [0] })
+    const aspects = calc.synastry({ Sun: [2] })
+    expect(aspects).toHaveLength(1)
+    expect(aspects[0].aspect.name).toBe('conjunction')
+  })
+
+  test('should use default synastry orbs', () => {
+    const calc = new AspectCalculator({ Sun: [0] })
+    // 4.5° is inside radix conjunction orb, but outside the synastry one
+    expect(calc.radix({ Moon: [4.5] })).toHaveLength(1)
+    expect(calc.synastry({ Moon: [4.5] })).toHaveLength(0)
+  })
+})
+
+
+describe('aspect motion', () => {
+  const ASPECTS = {
+    conjunction: { degree: 0, orbit: 10, color: 'transparent' },
+    square: { degree: 90, orbit: 8, color: '#FF4500' },
+    trine: { degree: 120, orbit: 8, color: '#27AE60' },
+    opposition: { degree: 180, orbit: 10, color: '#27AE60' }
+  }
+
+  const radixAspect = (points: Record<string, number[]>) => new AspectCalculator(points, { ASPECTS }).radix(points)[0]
+
+  test('should give numeric orb', () => {
+    const aspect = radixAspect({ Sun: [10], Moon: [102.5] })
+    expect(aspect.orb).toBeCloseTo(2.5)
+  })
+
+  test('should be applying when the faster point closes the gap', () => {
+    // Moon is behind the square to Sun and moves faster
+    const aspect = radixAspect({ Sun: [10, 1], Moon: [97, 13] })
+    expect(aspect.applying).toBe(true)
+    expect(aspect.exactIn).toBeCloseTo(3 / 12)
+  })
+
+  test('should be separating after the exact aspect', () => {
+    const aspect = radixAspect({ Sun: [10, 1], Moon: [103, 13] })
+    expect(aspect.applying).toBe(false)
+    expect(aspect.exactIn).toBeCloseTo(-3 / 12)
+  })
+
+  test('should use speeds of both points', () => {
+    // Mercury retrograde towards Mars
+    const aspect = radixAspect({ Mercury: [15, -1], Mars: [10, 0.5] })
+    expect(aspect.applying).toBe(true)
+    expect(aspect.exactIn).toBeCloseTo(5 / 1.5)
+  })
+
+  test('should handle zero crossing', () => {
+    const aspect = radixAspect({ Sun: [358, 1], Moon: [2, 13] })
+    expect(aspect.aspect.name).toBe('conjunction')
+    expect(aspect.applying).toBe(false)
+    expect(new AspectCalculator({ Sun: [2, 1] }, { ASPECTS }).transit({ Moon: [358, 13] })[0].applying).toBe(true)
+  })
+
+  test('should be the same in both directions', () => {
+    const aspects = new AspectCalculator({ Sun: [10, 1], Moon: [97, 13] }, { ASPECTS }).radix({ Sun: [10, 1], Moon: [97, 13] })
+    expect(aspects.length).toBe(2)
+    expect(aspects[0].applying).toBe(aspects[1].applying)
+    expect(aspects[0].exactIn).toBeCloseTo(aspects[1].exactIn as number)
+  })
+
+  test('should give no exactIn without motion', () => {
+    const aspect = radixAspect({ Sun: [10], Moon: [97] })
+    expect(aspect.applying).toBe(false)
+    expect(aspect.exactIn).toBeNull()
+  })
+
+  test('should be separating when exact', () => {
+    const aspect = radixAspect({ Sun: [10, 1], Moon: [100, 13] })
+    expect(aspect.applying).toBe(false)
+    expect(aspect.exactIn).toBe(0)
+  })
+
+  test('should detect out of sign aspects', () => {
+    expect(radixAspect({ Sun: [29], Moon: [121] }).isOutOfSign).toBe(true)
+    expect(radixAspect({ Sun: [1], Moon: [93] }).isOutOfSign).toBe(false)
+    expect(radixAspect({ Sun: [359], Moon: [2] }).isOutOfSign).toBe(true)
+  })
+
+  test('should not compute motion of synastry aspects', () => {
+    const aspect = new AspectCalculator({ Sun: [10, 1] }).synastry({ Moon: [7, 13] })[0]
+    expect(aspect.orb).toBe(3)
+    expect(aspect.applying).toBe(false)
+    expect(aspect.exactIn).toBeNull()
+  })
+})
+
+describe('orb tables', () => {
+  const ASPECTS = {
+    conjunction: { degree: 0, orbit: 10, color: 'transparent' },
+    sextile: { degree: 60, orbit: 6, color: '#27AE60' },
+    square: { degree: 90, orbit: 8, color: '#FF4500' }
+  }
+
+  test('should use orbit of the aspect without orb table', () => {
+    const aspects = new AspectCalculator({ Sun: [0] }, { ASPECTS }).radix({ Pluto: [94] })
+    expect(aspects[0].orbRule).toBe('aspect')
+    expect(aspects[0].aspect.orbit).toBe(8)
+  })
+
+  test('should sum moieties of both bodies', () => {
+    const ORBS = { moieties: { Sun: 7.5, Moon: 6, Saturn: 4.5 } }
+    // Sun-Moon square allows 13.5 degrees
+    const sunMoon = new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Moon: [103] })
+    expect(sunMoon.length).toBe(1)
+    expect(sunMoon[0].orbRule).toBe('moiety')
+    expect(sunMoon[0].aspect.orbit).toBe(27)
+
+    // Moon-Saturn square allows 10.5 degrees
+    expect(new AspectCalculator({ Saturn: [0] }, { ASPECTS, ORBS }).radix({ Moon: [103] }).length).toBe(0)
+  })
+
+  test('should apply aspect factor to moieties', () => {
+    const ORBS = { moieties: LILLY_ORBS.moieties, aspects: { sextile: 0.5 } }
+    const aspects = new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Moon: [66] })
+    expect(aspects[0].aspect.orbit).toBe(13.5)
+    expect(new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Moon: [68] }).length).toBe(0)
+  })
+
+  test('should multiply aspect orbit by factors of bodies', () => {
+    const ORBS = { bodies: { Sun: 1.5, As: 0.5 } }
+    const sun = new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Mars: [95] })
+    expect(sun[0].orbRule).toBe('body')
+    expect(sun[0].aspect.orbit).toBe(12)
+
+    // tighter orb for angles
+    expect(new AspectCalculator({ As: [0] }, { ASPECTS, ORBS }).radix({ Mars: [93] }).length).toBe(0)
+    expect(new AspectCalculator({ Sun: [0], As: [0] }, { ASPECTS, ORBS }).radix({ Sun: [0], As: [3] })[0].aspect.orbit).toBe(7.5)
+  })
+
+  test('should prefer moieties to factors of bodies', () => {
+    const ORBS = { moieties: { Sun: 7.5, Moon: 6 }, bodies: { Sun: 2 } }
+    expect(new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Moon: [90] })[0].orbRule).toBe('moiety')
+    expect(new AspectCalculator({ Sun: [0] }, { ASPECTS, ORBS }).radix({ Mars: [90] })[0].orbRule).toBe('body')
+  })
+
+  test('should use separate tables for transit and synastry', () => {
+    const settings = { ASPECTS, ORBS: { bodies: { Sun: 2 } }, TRANSIT_ORBS: { bodies: { Sun: 0.5 } }, SYNASTRY_ORBS: { moieties: { Sun: 1, Moon: 1 } } }
+    expect(new AspectCalculator({ Sun: [0] }, { ...settings }).radix({ Moon: [95] })[0].aspect.orbit).toBe(16)
+    expect(new AspectCalculator({ Sun: [0] }, { ...settings }).transit({ Moon: [95] }).length).toBe(0)
+    expect(new AspectCalculator({ Sun: [0] }, { ...settings }).transit({ Moon: [91] })[0].orbRule).toBe('body')
+    expect(new AspectCalculator({ Sun: [0] }, { ...settings, SYNASTRY_ASPECTS: ASPECTS }).synastry({ Moon: [91] })[0].orbRule).toBe('moiety')
+    expect(new AspectCalculator({ Sun: [0] }, { ...settings, SYNASTRY_ASPECTS: ASPECTS }).synastry({ Moon: [93] }).length).toBe(0)
+  })
+})
+
+describe('minor aspects', () => {
+  test('should find minor aspects of the catalogue', () => {
+    const calculator = new AspectCalculator({ Sun: [0] }, { ASPECTS: ASPECTS_CATALOGUE })
+    const names = (position: number): string[] => calculator.radix({ Moon: [position] }).map(aspect => aspect.aspect.name)
+
+    expect(names(30.5)).toEqual(['semisextile'])
+    expect(names(151)).toEqual(['quincunx'])
+    expect(names(45)).toEqual(['semisquare'])
+    expect(names(136)).toEqual(['sesquiquadrate'])
+    expect(names(72)).toEqual(['quintile'])
+    expect(names(144)).toEqual(['biquintile'])
+    expect(names(51.5)).toEqual(['septile'])
+    expect(names(61)).toEqual(['sextile'])
+  })
+
+  test('should pass line style of the aspect to the result', () => {
+    const [aspect] = new AspectCalculator({ Sun: [0] }, { ASPECTS: ASPECTS_CATALOGUE }).radix({ Moon: [45] })
+    expect(aspect.aspect).toEqual({ name: 'semisquare', degree: 45, orbit: 3, color: '#FF4500', dash: '4,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' })
+  })
+
+  test('should not add undefined line style', () => {
+    const [aspect] = new AspectCalculator({ Sun: [0] }, { ASPECTS: defaultAspects }).transit({ Moon: [90] })
+    expect(Object.keys(aspect.aspect)).toEqual(['name', 'degree', 'orbit', 'color'])
+  })
+
+  test('should distinguish harmonics by dash pattern', () => {
+    const minor = Object.keys(ASPECTS_CATALOGUE).filter(name => ASPECTS_CATALOGUE[name].class === 'minor')
+    expect(minor.length).toBe(7)
+    expect(ASPECTS_CATALOGUE.quintile.dash).toBe(ASPECTS_CATALOGUE.biquintile.dash)
+    expect(ASPECTS_CATALOGUE.quintile.dash).not.toBe(ASPECTS_CATALOGUE.semisquare.dash)
+    expect(ASPECTS_CATALOGUE.septile.dash).not.toBe(ASPECTS_CATALOGUE.semisextile.dash)
+  })
+})
+
+describe('parallels', () => {
+  test('should find parallel and contra-parallel by declination', () => {
+    const points = { Sun: [90, 1, 0, 23], Moon: [200, 13, 0, 22.5], Mars: [10, 0.5, 0, -23.8] }
+    const aspects = new AspectCalculator(points).parallels(points)
+    const pairs = aspects.map(aspect => aspect.aspect.name + ':' + aspect.point.name + '-' + aspect.toPoint.name)
+
+    expect(pairs).toEqual(['parallel:Sun-Moon', 'parallel:Moon-Sun', 'contraparallel:Sun-Mars', 'contraparallel:Mars-Sun'])
+    expect(aspects[0].orb).toBeCloseTo(0.5, 10)
+    expect(aspects[0].point.declination).toBe(23)
+    expect(aspects[0].toPoint.declination).toBe(22.5)
+  })
+
+  test('should calculate declination from longitude and latitude', () => {
+    // Sun at the solstice and Moon at the same declination below the ecliptic
+    const aspects = new AspectCalculator({ Sun: [90] }).parallels({ Moon: [90, 13, 0] })
+    expect(aspects.length).toBe(1)
+    expect(aspects[0].aspect.name).toBe('parallel')
+    expect(aspects[0].orb).toBeCloseTo(0, 10)
+
+    expect(new AspectCalculator({ Sun: [90] }).parallels({ Moon: [90, 13, -5] }).length).toBe(0)
+  })
+
+  test('should use own orbs', () => {
+    const PARALLEL_ASPECTS = { parallel: { degree: 0, orbit: 4, color: '#000' } }
+    const aspects = new AspectCalculator({ Sun: [0, 1, 0, 10] }, { PARALLEL_ASPECTS }).parallels({ Moon: [0, 1, 0, 11.5] })
+    expect(aspects.length).toBe(1)
+    expect(aspects[0].aspect.orbit).toBe(4)
+    expect(aspects[0].exactIn).toBeNull()
+    expect(new AspectCalculator({ Sun: [0, 1, 0, 10] }).parallels({ Moon: [0, 1, 0, 11.5] }).length).toBe(0)
+  })
+})
@@ -43,6 +43,11 @@ describe('radix', () => {
           position: 0,
         },
         precision: "0.0000",
+        orb: 0,
+        applying: false,
+        exactIn: 0,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Ic",
           position: 90,
@@ -60,6 +65,11 @@ describe('radix', () => {
           position: 0,
         },
         precision: "1.0000",
+        orb: 1,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Moon",
           position: 91,
@@ -77,6 +87,11 @@ describe('radix', () => {
           position: 91,
         },
         precision: "1.0000",
+        orb: 1,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Sun",
           position: 0,
@@ -94,6 +109,11 @@ describe('radix', () => {
           position: 91,
         },
         precision: "1.0000",
+        orb: 1,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "As",
           position: 330,
@@ -111,6 +131,11 @@ describe('radix', () => {
           position: 91,
         },
         precision: "1.0000",
+        orb: 1,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Ic",
           position: 90,
@@ -128,6 +153,11 @@ describe('radix', () => {
           position: 0,
         },
         precision: "2.0000",
+        orb: 2,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Neptune",
           position: 122,
@@ -145,6 +175,11 @@ describe('radix', () => {
           position: 122,
         },
         precision: "2.0000",
+        orb: 2,
+        applying: false,
+        exactIn: null,
+        isOutOfSign: false,
+        orbRule: "aspect",
         toPoint: {
           name: "Sun",
           position: 0,
@@ -186,6 +221,11 @@ describe('transit', () => {
                     "position": 1
                   },
                   "precision": "1.0000",
+                  "orb": 1,
+                  "applying": false,
+                  "exactIn": null,
+                  "isOutOfSign": false,
+                  "orbRule": "aspect",
                   "toPoint": {
                     "name": "Sun",
                     "position": 0
@@ -225,6 +265,11 @@ describe('transit', () => {
                   "position": 359
                 },
                 "precision": "-1.0000",
+                "orb": 1,
+                "applying": false,
+                "exactIn": null,
+                "isOutOfSign": true,
+                "orbRule": "aspect",
                 "toPoint": {
                   "name": "Sun",
                   "position": 0
@@ -265,6 +310,11 @@ describe('transit', () => {
             "position": 91
           },
           "precision": "1.0000",
+          "orb": 1,
+          "applying": false,
+          "exactIn": null,
+          "isOutOfSign": false,
+          "orbRule": "aspect",
           "toPoint": {
             "name": "Sun",
             "position": 0
@@ -304,6 +354,11 @@ describe('transit', () => {
             "position": 89
           },
           "precision": "-1.0000",
+          "orb": 1,
+          "applying": false,
+          "exactIn": null,
+          "isOutOfSign": true,
+          "orbRule": "aspect",
           "toPoint": {
             "name": "Sun",
             "position": 0
@@ -343,6 +398,11 @@ describe('transit', () => {
               "position": 181
             },
             "precision": "1.0000",
+            "orb": 1,
+            "applying": false,
+            "exactIn": null,
+            "isOutOfSign": false,
+            "orbRule": "aspect",
             "toPoint": {
               "name": "Sun",
               "position": 0
@@ -382,6 +442,11 @@ describe('transit', () => {
             "position": 179
           },
           "precision": "-1.0000",
+          "orb": 1,
+          "applying": false,
+          "exactIn": null,
+          "isOutOfSign": true,
+          "orbRule": "aspect",
           "toPoint": {
             "name": "Sun",
             "position": 0
@@ -421,6 +486,11 @@ describe('transit', () => {
               "position": 271
             },
             "precision": "1.0000",
+            "orb": 1,
+            "applying": false,
+            "exactIn": null,
+            "isOutOfSign": false,
+            "orbRule": "aspect",
             "toPoint": {
               "name": "Sun",
               "position": 0
@@ -460,6 +530,11 @@ describe('transit', () => {
               "position": 269
             },
             "precision": "-1.0000",
+            "orb": 1,
+            "applying": false,
+            "exactIn": null,
+            "isOutOfSign": true,
+            "orbRule": "aspect",
             "toPoint": {
               "name": "Sun",
               "position": 0
@@ -498,6 +573,11 @@ describe('transit', () => {
           "position": 90
         },
         "precision": "1.0000",
+        "orb": 1,
+        "applying": false,
+        "exactIn": null,
+        "isOutOfSign": true,
+        "orbRule": "aspect",
         "toPoint": {
           "name": "Sun",
           "position": 359
@@ -535,6 +615,11 @@ describe('transit', () => {
           "position": 88
         },
         "precision": "-1.0000",
+        "orb": 1,
+        "applying": false,
+        "exactIn": null,
+        "isOutOfSign": false,
+        "orbRule": "aspect",
         "toPoint": {
           "name": "Sun",
           "position": 359
@@ -572,6 +657,11 @@ describe('transit', () => {
             "position": 1
           },
           "precision": "1.0000",
+          "orb": 1,
+          "applying": false,
+          "exactIn": -1,
+          "isOutOfSign": false,
+          "orbRule": "aspect",
           "toPoint": {
             "name": "Sun",
             "position": 0
@@ -609,6 +699,11 @@ describe('transit', () => {
             "position": 1
           },
           "precision": "-1.0000",
+          "orb": 1,
+          "applying": true,
+          "exactIn": 1,
+          "isOutOfSign": false,
+          "orbRule": "aspect",
           "toPoint": {
             "name": "Sun",
             "position": 0
@@ -1,31 +1,90 @@
 import type { Points } from './radix'
-import type { AspectData, Settings } from './settings'
-import { radiansToDegree } from './utils'
+import type { Aspect, AspectData, OrbTable, Settings } from './settings'
+import { radiansToDegree, getPointDeclination } from './utils'
 
 export interface FormedAspect {
   point: {
     name: string
     position: number
+    // only in aspects by declination
+    declination?: number
   }
   toPoint: {
     name: string
     position: number
+    declination?: number
   }
   aspect: {
     name: string
     degree: number
     color: string
+    // whole width of the orb used for the points, resolved by the orb table, @see AspectCalculator.getOrb()
     orbit: number
+    dash?: string
+    lineWidth?: number
+    opacity?: number
+    class?: 'major' | 'minor'
   }
   precision: string
+  // precision as a positive number
+  orb: number
+  // the orb gets smaller by speeds of both points
+  applying: boolean
+  // time to the exact aspect in units of speeds, e.g. days; negative after the exact aspect, null without motion
+  exactIn: number | null
+  // signs of the points do not match the aspect, e.g. square from 29° Aries to 1° Leo
+  isOutOfSign: boolean
+  // source of aspect.orbit, @see settings.ORBS
+  orbRule: OrbRule
 }
 
+export type OrbRule = 'aspect' | 'moiety' | 'body'
+
+type AspectMotion = Pick<FormedAspect, 'orb' | 'applying' | 'exactIn' | 'isOutOfSign'>
+
 const DEFAULT_ASPECTS = {
   conjunction: { degree: 0, orbit: 10, color: 'transparent' },
   square: { degree: 90, orbit: 8, color: '#FF4500' },
   trine: { degree: 120, orbit: 8, color: '#27AE60' },
   opposition: { degree: 180, orbit: 10, color: '#27AE60' }
 }
+
+const DEFAULT_SYNASTRY_ASPECTS = {
+  conjunction: { degree: 0, orbit: 8, color: 'transparent' },
+  square: { degree: 90, orbit: 6, color: '#FF4500' },
+  trine: { degree: 120, orbit: 6, color: '#27AE60' },
+  opposition: { degree: 180, orbit: 8, color: '#27AE60' }
+}
+const DEFAULT_PARALLEL_ASPECTS = {
+  parallel: { degree: 0, orbit: 2, color: '#27AE60' },
+  contraparallel: { degree: 0, orbit: 2, color: '#FF4500' }
+}
+
+// mean obliquity of the ecliptic for J2000
+const DEFAULT_OBLIQUITY = 23.4392911
+
+// all known aspects, minor aspects are drawn subordinate to the major ones.
+// Opt-in by settings.ASPECTS, the defaults stay the four major aspects
+export const ASPECTS_CATALOGUE: Aspect = {
+  conjunction: { degree: 0, orbit: 10, color: 'transparent', class: 'major' },
+  sextile: { degree: 60, orbit: 6, color: '#27AE60', class: 'major' },
+  square: { degree: 90, orbit: 8, color: '#FF4500', class: 'major' },
+  trine: { degree: 120, orbit: 8, color: '#27AE60', class: 'major' },
+  opposition: { degree: 180, orbit: 10, color: '#27AE60', class: 'major' },
+  semisextile: { degree: 30, orbit: 2, color: '#27AE60', dash: '6,3', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  quincunx: { degree: 150, orbit: 4, color: '#8B4513', dash: '6,3', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  semisquare: { degree: 45, orbit: 3, color: '#FF4500', dash: '4,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  sesquiquadrate: { degree: 135, orbit: 3, color: '#FF4500', dash: '4,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  quintile: { degree: 72, orbit: 2, color: '#87CEEB', dash: '2,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  biquintile: { degree: 144, orbit: 2, color: '#87CEEB', dash: '2,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' },
+  septile: { degree: 360 / 7, orbit: 2, color: '#333', dash: '1,3', lineWidth: 0.5, opacity: 0.6, class: 'minor' }
+}
+
+// moieties of William Lilly, Christian Astrology
+export const LILLY_ORBS: OrbTable = {
+  moieties: { Sun: 7.5, Moon: 6, Mercury: 3.5, Venus: 3.5, Mars: 3.5, Jupiter: 4.5, Saturn: 4.5 }
+}
+
 /**
    * Aspects calculator
    *
@@ -46,6 +105,9 @@ class AspectCalculator {
 
     this.settings = settings ?? {}
     this.settings.ASPECTS = settings?.ASPECTS ?? DEFAULT_ASPECTS
+    this.settings.SYNASTRY_ASPECTS = settings?.SYNASTRY_ASPECTS ?? DEFAULT_SYNASTRY_ASPECTS
+    this.settings.PARALLEL_ASPECTS = settings?.PARALLEL_ASPECTS ?? DEFAULT_PARALLEL_ASPECTS
+    this.settings.OBLIQUITY = settings?.OBLIQUITY ?? DEFAULT_OBLIQUITY
 
     this.toPoints = toPoints
 
@@ -85,13 +147,16 @@ class AspectCalculator {
           if (this.toPoints.hasOwnProperty(toPoint)) {
             if (point !== toPoint) {
               for (const aspect in this.settings.ASPECTS) {
-                if (this.hasAspect(points[point][0], this.toPoints[toPoint][0], this.settings.ASPECTS[aspect])) {
+                const orb = this.getOrb(aspect, this.settings.ASPECTS[aspect], point, toPoint, this.settings.ORBS)
+                if (this.hasAspect(points[point][0], this.toPoints[toPoint][0], orb)) {
                   aspects.push(
                     {
-                      aspect: { name: aspect, degree: this.settings.ASPECTS[aspect].degree, orbit: this.settings.ASPECTS[aspect].orbit, color: this.settings.ASPECTS[aspect].color },
+                      aspect: { name: aspect, degree: this.settings.ASPECTS[aspect].degree, orbit: orb.orbit, color: this.settings.ASPECTS[aspect].color, ...this.getLineStyle(this.settings.ASPECTS[aspect]) },
                       point: { name: point, position: points[point][0] },
                       toPoint: { name: toPoint, position: this.toPoints[toPoint][0] },
-                      precision: this.calcPrecision(points[point][0], this.toPoints[toPoint][0], this.settings.ASPECTS[aspect].degree).toFixed(4)
+                      precision: this.calcPrecision(points[point][0], this.toPoints[toPoint][0], this.settings.ASPECTS[aspect].degree).toFixed(4),
+                      ...this.calcMotion(points[point], this.toPoints[toPoint], this.settings.ASPECTS[aspect].degree),
+                      orbRule: orb.rule
                     }
                   )
                 }
@@ -123,7 +188,8 @@ class AspectCalculator {
         for (const toPoint in this.toPoints) {
           if (this.toPoints.hasOwnProperty(toPoint)) {
             for (const aspect in this.settings.ASPECTS) {
-              if (this.hasAspect(points[point][0], this.toPoints[toPoint][0], this.settings.ASPECTS[aspect])) {
+              const orb = this.getOrb(aspect, this.settings.ASPECTS[aspect], point, toPoint, this.settings.TRANSIT_ORBS)
+              if (this.hasAspect(points[point][0], this.toPoints[toPoint][0], orb)) {
                 let precision = this.calcPrecision(points[point][0], this.toPoints[toPoint][0], this.settings.ASPECTS[aspect].degree)
 
                 // -1 : is approaching to aspect
@@ -139,10 +205,60 @@ class AspectCalculator {
 
                 aspects.push(
                   {
-                    aspect: { name: aspect, degree: this.settings.ASPECTS[aspect].degree, orbit: this.settings.ASPECTS[aspect].orbit, color: this.settings.ASPECTS[aspect].color },
+                    aspect: { name: aspect, degree: this.settings.ASPECTS[aspect].degree, orbit: orb.orbit, color: this.settings.ASPECTS[aspect].color, ...this.getLineStyle(this.settings.ASPECTS[aspect]) },
+                    point: { name: point, position: points[point][0] },
+                    toPoint: { name: toPoint, position: this.toPoints[toPoint][0] },
+                    precision: precision.toFixed(4),
+                    ...this.calcMotion(points[point], this.toPoints[toPoint], this.settings.ASPECTS[aspect].degree),
+                    orbRule: orb.rule
+                  }
+                )
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return aspects.sort(this.compareAspectsByPrecision)
+  }
+
+  /**
+   * Synastry aspects
+   *
+   * Aspects between points of two charts. The param "points" belongs to the second person,
+   * "toPoints" in constructor to the first one. Aspects use own orbs, @see settings.SYNASTRY_ASPECTS
+   * Aspects are neither applying nor separating, exactIn is always null.
+   *
+   * @param {Object} points; {"Sun":[0], "Moon":[90]}
+   * @return {Array<Object>} [{"aspect":{"name":"conjunction", "degree":120}"", "point":{"name":"Sun", "position":123}, "toPoint":{"name":"Moon", "position":345}, "precision":0.5}]]
+   */
+  synastry (points: Points): FormedAspect[] {
+    if (points == null) {
+      return []
+    }
+
+    const aspects: FormedAspect[] = []
+    const synastryAspects = this.settings.SYNASTRY_ASPECTS as Record<string, AspectData>
+
+    for (const point in points) {
+      if (points.hasOwnProperty(point)) {
+        for (const toPoint in this.toPoints) {
+          if (this.toPoints.hasOwnProperty(toPoint)) {
+            for (const aspect in synastryAspects) {
+              const orb = this.getOrb(aspect, synastryAspects[aspect], point, toPoint, this.settings.SYNASTRY_ORBS)
+              if (this.hasAspect(points[point][0], this.toPoints[toPoint][0], orb)) {
+                aspects.push(
+                  {
+                    aspect: { name: aspect, degree: synastryAspects[aspect].degree, orbit: orb.orbit, color: synastryAspects[aspect].color, ...this.getLineStyle(synastryAspects[aspect]) },
                     point: { name: point, position: points[point][0] },
                     toPoint: { name: toPoint, position: this.toPoints[toPoint][0] },
-                    precision: precision.toFixed(4)
+                    precision: this.calcPrecision(points[point][0], this.toPoints[toPoint][0], synastryAspects[aspect].degree).toFixed(4),
+                    ...this.calcMotion(points[point], this.toPoints[toPoint], synastryAspects[aspect].degree),
+                    // two natal charts do not move against each other
+                    applying: false,
+                    exactIn: null,
+                    orbRule: orb.rule
                   }
                 )
               }
@@ -155,6 +271,106 @@ class AspectCalculator {
     return aspects.sort(this.compareAspectsByPrecision)
   }
 
+  /**
+   * Parallels and contra-parallels
+   *
+   * Points with the same declination are parallel, points with the opposite one are contra-parallel.
+   * Declination of a point without it is calculated from the longitude and latitude, @see settings.OBLIQUITY
+   * Aspects use own orbs, @see settings.PARALLEL_ASPECTS
+   *
+   * @param {Object} points; {"Sun":[0, 1, 0, 0], "Moon":[90, 13, 5]}
+   * @return {Array<Object>} [{"aspect":{"name":"parallel", "degree":0}"", "point":{"name":"Sun", "position":123, "declination":20.5}, "toPoint":{"name":"Moon", "position":345, "declination":21}, "precision":0.5}]]
+   */
+  parallels (points: Points): FormedAspect[] {
+    if (points == null) {
+      return []
+    }
+
+    const aspects: FormedAspect[] = []
+    const parallelAspects = this.settings.PARALLEL_ASPECTS as Record<string, AspectData>
+    const obliquity = this.settings.OBLIQUITY as number
+
+    for (const point in points) {
+      if (points.hasOwnProperty(point)) {
+        for (const toPoint in this.toPoints) {
+          if (this.toPoints.hasOwnProperty(toPoint)) {
+            if (point !== toPoint) {
+              const declination = getPointDeclination(points[point], obliquity)
+              const toDeclination = getPointDeclination(this.toPoints[toPoint], obliquity)
+              for (const aspect in parallelAspects) {
+                // contra-parallel points lie on the opposite sides of the equator
+                const orb = aspect === 'contraparallel'
+                  ? Math.abs(declination + toDeclination)
+                  : Math.abs(declination - toDeclination)
+                if (orb <= parallelAspects[aspect].orbit / 2) {
+                  aspects.push(
+                    {
+                      aspect: { name: aspect, degree: parallelAspects[aspect].degree, orbit: parallelAspects[aspect].orbit, color: parallelAspects[aspect].color, ...this.getLineStyle(parallelAspects[aspect]) },
+                      point: { name: point, position: points[point][0], declination },
+                      toPoint: { name: toPoint, position: this.toPoints[toPoint][0], declination: toDeclination },
+                      precision: orb.toFixed(4),
+                      orb,
+                      // points carry no speed in declination
+                      applying: false,
+                      exactIn: orb === 0 ? 0 : null,
+                      isOutOfSign: false,
+                      orbRule: 'aspect'
+                    }
+                  )
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return aspects.sort(this.compareAspectsByPrecision)
+  }
+
+  /*
+   * Line style of the aspect, only the defined properties
+   * @private
+   * @param {Object} aspect - aspect settings
+   */
+  getLineStyle (aspect: AspectData): Pick<AspectData, 'dash' | 'lineWidth' | 'opacity' | 'class'> {
+    const style: Pick<AspectData, 'dash' | 'lineWidth' | 'opacity' | 'class'> = {}
+    if (aspect.dash != null) style.dash = aspect.dash
+    if (aspect.lineWidth != null) style.lineWidth = aspect.lineWidth
+    if (aspect.opacity != null) style.opacity = aspect.opacity
+    if (aspect.class != null) style.class = aspect.class
+    return style
+  }
+
+  /*
+   * Orbit of the aspect between two points
+   *
+   * 1. moieties of both points, when the table knows both of them
+   * 2. orbit of the aspect multiplied by factors of the points
+   * 3. orbit of the aspect
+   * @private
+   * @param {String} name - aspect name
+   * @param {Object} aspect - aspect settings
+   * @param {String} point - point name
+   * @param {String} toPoint - point name
+   * @param {Object | null | undefined} table - orb table
+   */
+  getOrb (name: string, aspect: AspectData, point: string, toPoint: string, table?: OrbTable | null): AspectData & { rule: OrbRule } {
+    const moieties = table?.moieties
+    if (moieties != null && moieties[point] != null && moieties[toPoint] != null) {
+      const aspectFactor = table?.aspects?.[name] ?? 1
+      // orbit is the whole width of the orb, moieties are its halves
+      return { ...aspect, orbit: 2 * (moieties[point] + moieties[toPoint]) * aspectFactor, rule: 'moiety' }
+    }
+
+    const bodies = table?.bodies
+    if (bodies != null && (bodies[point] != null || bodies[toPoint] != null)) {
+      return { ...aspect, orbit: aspect.orbit * (bodies[point] ?? 1) * (bodies[toPoint] ?? 1), rule: 'body' }
+    }
+
+    return { ...aspect, rule: 'aspect' }
+  }
+
   /*
   * @private
    * @param {double} point
@@ -195,6 +411,47 @@ class AspectCalculator {
     return Math.abs(gap - aspect)
   }
 
+  /*
+   * Motion of the aspect by speeds of both points, missing speed is 0
+   * @private
+   * @param {Array<double>} point - [ANGLE, SPEED]
+   * @param {Array<double>} toPoint - [ANGLE, SPEED]
+   * @param {double} aspect - aspect degree
+   */
+  calcMotion (point: number[], toPoint: number[], aspect: number): AspectMotion {
+    const deg360 = radiansToDegree(2 * Math.PI)
+    const deg180 = radiansToDegree(Math.PI)
+    const orb = this.calcPrecision(point[0], toPoint[0], aspect)
+
+    // signed distance of the points in (-180, 180>
+    let distance = (point[0] - toPoint[0]) % deg360
+    if (distance > deg180) distance -= deg360
+    if (distance <= -deg180) distance += deg360
+
+    // speed of the distance between points and speed of the orb
+    const gapSpeed = (distance < 0 ? -1 : 1) * ((point[1] ?? 0) - (toPoint[1] ?? 0))
+    const orbSpeed = (Math.abs(distance) < aspect ? -1 : 1) * gapSpeed
+
+    const pointSign = Math.floor((((point[0] % deg360) + deg360) % deg360) / 30)
+    const toPointSign = Math.floor((((toPoint[0] % deg360) + deg360) % deg360) / 30)
+    const signs = Math.min(Math.abs(pointSign - toPointSign), 12 - Math.abs(pointSign - toPointSign))
+
+    let exactIn: number | null = null
+    if (orb === 0) {
+      exactIn = 0
+    } else if (orbSpeed !== 0) {
+      exactIn = -orb / orbSpeed
+    }
+
+    return {
+      orb,
+      // the exact aspect is already separating
+      applying: orb !== 0 && orbSpeed < 0,
+      exactIn,
+      isOutOfSign: aspect % 30 === 0 && signs !== aspect / 30
+    }
+  }
+
   /*
    * Calculate direction of aspect
    * whether the transiting planet is approaching or is falling
@@ -0,0 +1,115 @@
+import Chart from './chart'
+import default_settings from './settings'
+
+const radixData = {
+  planets: { Sun: [10], Moon: [100.25], Mars: [190] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const transitData = {
+  planets: { Sun: [12, 1], Venus: [280] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const gridId = (id: string): string => 'chart-' + default_settings.ID_CHART + '-' + id + '-' + default_settings.ID_ASPECTARIAN
+
+const cellsOf = (wrapper: Element | null): Element[] => Array.from(wrapper!.querySelectorAll('rect'))
+
+describe('Aspectarian', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div><div id="grid"></div>'
+  })
+
+  test('should draw triangular grid for radix', () => {
+    new Chart('chart', 800, 800).radix(radixData).aspectarian()
+    const cells = cellsOf(document.getElementById(gridId(default_settings.ID_RADIX)))
+    // 3 headers on the diagonal + 3 cells under it
+    expect(cells.length).toBe(6)
+  })
+
+  test('should show glyph and orb for radix aspects', () => {
+    new Chart('chart', 800, 800).radix(radixData).aspectarian()
+    const wrapper = document.getElementById(gridId(default_settings.ID_RADIX))!
+    const square = wrapper.querySelector('rect[data-name="square"][data-point="Moon"]')
+    expect(square).not.toBeNull()
+
+    const texts = Array.from(wrapper.querySelectorAll('text')).map(text => text.textContent)
+    expect(texts).toContain('0°15\'')
+    // points without speeds do not move, only the exact Sun-Mars opposition is separating
+    expect(texts.filter(text => text === 'A').length).toBe(0)
+    expect(texts.filter(text => text === 'S').length).toBe(1)
+  })
+
+  test('should show direction of radix aspects by speeds', () => {
+    const data = { ...radixData, planets: { Sun: [10, 1], Moon: [100.25, 13] } }
+    new Chart('chart', 800, 800).radix(data).aspectarian()
+    const texts = Array.from(document.getElementById(gridId(default_settings.ID_RADIX))!.querySelectorAll('text')).map(text => text.textContent)
+    expect(texts).toContain('S')
+  })
+
+  test('should draw full matrix with applying and separating markers for transit', () => {
+    const radix = new Chart('chart', 800, 800).radix(radixData)
+    const grid = radix.transit(transitData).aspectarian()
+    const wrapper = document.getElementById(gridId(default_settings.ID_TRANSIT))!
+    // 2 column headers + 3 row headers + 6 cells
+    expect(cellsOf(wrapper).length).toBe(11)
+    expect(grid.getWidth()).toBe(3 * default_settings.ASPECTARIAN_CELL_SIZE)
+    expect(grid.getHeight()).toBe(4 * default_settings.ASPECTARIAN_CELL_SIZE)
+
+    const conjunction = wrapper.querySelector('rect[data-point="Sun"][data-toPoint="Sun"]')
+    expect(conjunction!.getAttribute('data-name')).toBe('conjunction')
+
+    const texts = Array.from(wrapper.querySelectorAll('text')).map(text => text.textContent)
+    expect(texts).toContain('2°00\'')
+    expect(texts.filter(text => text === 'A' || text === 'S').length).toBeGreaterThan(0)
+  })
+
+  test('should not confuse the direction of the matrix', () => {
+    const radix = new Chart('chart', 800, 800).radix(radixData)
+    radix.transit(transitData).aspectarian()
+    const wrapper = document.getElementById(gridId(default_settings.ID_TRANSIT))!
+    // transiting Venus squares radix Sun and Mars and opposes Moon, there is no radix Venus
+    expect(wrapper.querySelectorAll('rect[data-point="Venus"]').length).toBe(3)
+    expect(wrapper.querySelectorAll('rect[data-toPoint="Venus"]').length).toBe(0)
+  })
+
+  test('should place the grid by settings', () => {
+    const chart = new Chart('chart', 800, 800, { ASPECTARIAN_POSITION: 'top-right', ASPECTARIAN_CELL_SIZE: 20 })
+    chart.radix(radixData).aspectarian()
+    const first = cellsOf(document.getElementById(gridId(default_settings.ID_RADIX)))[0]
+    expect(first.getAttribute('width')).toBe('20')
+    expect(first.getAttribute('x')).toBe((800 - default_settings.PADDING - 60).toString())
+    expect(first.getAttribute('y')).toBe(default_settings.PADDING.toString())
+  })
+
+  test('should draw into a separate container', () => {
+    new Chart('chart', 800, 800).radix(radixData).aspectarian({ elementId: 'grid' })
+    const svg = document.querySelector('#grid svg')
+    expect(svg).not.toBeNull()
+    expect(svg!.querySelectorAll('rect').length).toBe(6)
+    expect(document.getElementById(gridId(default_settings.ID_RADIX))).toBeNull()
+  })
+
+  test('should draw custom aspects', () => {
+    const aspects = [{ aspect: { name: 'trine', degree: 120, orbit: 8, color: '#000' }, point: { name: 'Moon', position: 100 }, toPoint: { name: 'Sun', position: 10 }, precision: '1.5000', orb: 1.5, applying: true, exactIn: 3, isOutOfSign: false, orbRule: 'aspect' as const }]
+    new Chart('chart', 800, 800).radix(radixData).aspectarian({ aspects })
+    const cells = document.querySelectorAll('rect[data-name]')
+    expect(cells.length).toBe(1)
+    expect(cells[0].getAttribute('data-name')).toBe('trine')
+  })
+
+  test('should draw matrix of synastry', () => {
+    const synastry = new Chart('chart', 800, 800).synastry(radixData, transitData)
+    synastry.aspectarian()
+    const wrapper = document.getElementById(gridId(default_settings.ID_PERSON_B))
+    expect(cellsOf(wrapper).length).toBe(11)
+  })
+
+  test('should not mark direction of synastry aspects', () => {
+    // transit Sun has speed, Sun-Sun would be separating between a radix and a transit
+    new Chart('chart', 800, 800).synastry(radixData, transitData).aspectarian()
+    const texts = Array.from(document.getElementById(gridId(default_settings.ID_PERSON_B))!.querySelectorAll('text')).map(text => text.textContent)
+    expect(texts).toContain('2°00\'')
+    expect(texts.filter(text => text === 'A' || text === 'S').length).toBe(0)
+  })
+})
@@ -0,0 +1,225 @@
+import SVG from './svg'
+import type { FormedAspect } from './aspect'
+import type { Settings } from './settings'
+import { getEmptyWrapper } from './utils'
+
+export interface AspectarianOptions {
+  // ID of a separate container, the grid is drawn into the chart paper by default
+  elementId?: string
+  // possible custom aspects to show
+  aspects?: FormedAspect[] | null
+}
+
+/**
+ * Orb in degrees and minutes
+ *
+ * @param {Number} orb
+ * @return {String} 2°05'
+ */
+const formatOrb = (orb: number): string => {
+  let degrees = Math.floor(orb)
+  let minutes = Math.round((orb - degrees) * 60)
+  if (minutes === 60) {
+    degrees += 1
+    minutes = 0
+  }
+
+  return degrees.toString() + '°' + (minutes < 10 ? '0' : '') + minutes.toString() + '\''
+}
+
+/**
+   * Aspect grid.
+   *
+   * Triangular grid of one chart or full matrix of two charts.
+   * Each cell shows the aspect glyph, the orb and the applying (A) or separating (S) marker.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {SVG} paper - paper of the chart
+   * @param {String} id - element ID of the grid
+   * @param {Array<String>} rows - names of points in rows
+   * @param {Array<String> | null} columns - names of points in columns, null for the triangular grid
+   * @param {Array<Object>} aspects
+   * @param {Object} settings
+   */
+class Aspectarian {
+  paper: SVG
+  id: string
+  rows: string[]
+  columns: string[] | null
+  aspects: FormedAspect[]
+  settings: Settings
+  cellSize: number
+  context: this
+  constructor (paper: SVG, id: string, rows: string[], columns: string[] | null, aspects: FormedAspect[], settings: Settings) {
+    this.paper = paper
+    this.id = id
+    this.rows = rows
+    this.columns = columns
+    this.aspects = aspects
+    this.settings = settings
+    this.cellSize = this.settings.ASPECTARIAN_CELL_SIZE * this.settings.SYMBOL_SCALE
+
+    this.context = this
+  }
+
+  /**
+   * Width of the grid
+   *
+   * @return {Number} px
+   */
+  getWidth (): number {
+    return this.cellSize * (this.columns == null ? this.rows.length : this.columns.length + 1)
+  }
+
+  /**
+   * Height of the grid
+   *
+   * @return {Number} px
+   */
+  getHeight (): number {
+    return this.cellSize * (this.columns == null ? this.rows.length : this.rows.length + 1)
+  }
+
+  /**
+   * Draw the grid into the chart paper or into a separate container
+   *
+   * @param {String | undefined} elementId - ID of a separate container
+   * @return {Element} wrapper of the grid
+   */
+  draw (elementId?: string): Element {
+    if (elementId != null) {
+      const padding = this.settings.PADDING * this.settings.SYMBOL_SCALE
+      const paper = new SVG(elementId, this.getWidth() + 2 * padding, this.getHeight() + 2 * padding, this.settings, this.paper.pageDocument)
+      return this.drawInto(paper, padding, padding)
+    }
+
+    const { x, y } = this.getPosition()
+    return this.drawInto(this.paper, x, y)
+  }
+
+  /*
+   * Top left corner of the grid in the chart paper, @see settings.ASPECTARIAN_POSITION
+   * @private
+   */
+  getPosition (): { x: number; y: number } {
+    const padding = this.settings.PADDING * this.settings.SYMBOL_SCALE
+    const position = this.settings.ASPECTARIAN_POSITION
+    return {
+      x: position.endsWith('left') ? padding : this.paper.width - padding - this.getWidth(),
+      y: position.startsWith('top') ? padding : this.paper.height - padding - this.getHeight()
+    }
+  }
+
+  /*
+   * @private
+   * @param {SVG} paper
+   * @param {Number} x - left
+   * @param {Number} y - top
+   */
+  drawInto (paper: SVG, x: number, y: number): Element {
+    const wrapper = getEmptyWrapper(paper.root, paper.root.id + '-' + this.id, paper.root.id)
+    const size = this.cellSize
+
+    if (this.columns == null) {
+      // points on the diagonal, aspects under it
+      for (let row = 0; row < this.rows.length; row++) {
+        this.drawHeader(paper, wrapper, this.rows[row], x + row * size, y + row * size)
+        for (let column = 0; column < row; column++) {
+          this.drawCell(paper, wrapper, this.rows[row], this.rows[column], x + column * size, y + row * size)
+        }
+      }
+    } else {
+      // columns in the first row, rows in the first column
+      for (let column = 0; column < this.columns.length; column++) {
+        this.drawHeader(paper, wrapper, this.columns[column], x + (column + 1) * size, y)
+      }
+      for (let row = 0; row < this.rows.length; row++) {
+        this.drawHeader(paper, wrapper, this.rows[row], x, y + (row + 1) * size)
+        for (let column = 0; column < this.columns.length; column++) {
+          this.drawCell(paper, wrapper, this.rows[row], this.columns[column], x + (column + 1) * size, y + (row + 1) * size)
+        }
+      }
+    }
+
+    return wrapper
+  }
+
+  /*
+   * @private
+   */
+  drawHeader (paper: SVG, wrapper: Element, name: string, x: number, y: number): void {
+    const size = this.cellSize
+    wrapper.appendChild(this.createRect(paper, x, y))
+    wrapper.appendChild(paper.getSymbol(name, x + size / 2, y + size / 2, this.settings))
+  }
+
+  /*
+   * @private
+   */
+  drawCell (paper: SVG, wrapper: Element, rowName: string, columnName: string, x: number, y: number): void {
+    const size = this.cellSize
+    const rect = this.createRect(paper, x, y)
+    wrapper.appendChild(rect)
+
+    const aspect = this.findAspect(rowName, columnName)
+    if (aspect == null) {
+      return
+    }
+
+    rect.setAttribute('data-name', aspect.aspect.name)
+    rect.setAttribute('data-point', aspect.point.name)
+    rect.setAttribute('data-toPoint', aspect.toPoint.name)
+    rect.setAttribute('data-precision', aspect.precision.toString())
+
+    wrapper.appendChild(paper.getSymbol(aspect.aspect.name, x + size / 2, y + size * 0.35, this.settings))
+    wrapper.appendChild(paper.text(formatOrb(aspect.orb), x + size * 0.1, y + size * 0.8, this.settings.POINTS_TEXT_SIZE.toString(), this.settings.SIGNS_COLOR))
+
+    const marker = this.getMarker(aspect)
+    if (marker !== '') {
+      wrapper.appendChild(paper.text(marker, x + size * 0.75, y + size * 0.2, this.settings.POINTS_TEXT_SIZE.toString(), this.settings.SIGNS_COLOR))
+    }
+  }
+
+  /*
+   * @private
+   */
+  createRect (paper: SVG, x: number, y: number): Element {
+    const rect = paper.renderer.rect(x, y, this.cellSize, this.cellSize)
+    paper.renderer.setStyle(rect, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE, fill: 'none' })
+    return rect
+  }
+
+  /*
+   * Aspect of the column point to the row point
+   * @private
+   */
+  findAspect (rowName: string, columnName: string): FormedAspect | null {
+    for (let i = 0, ln = this.aspects.length; i < ln; i++) {
+      const aspect = this.aspects[i]
+      if (aspect.point.name === columnName && aspect.toPoint.name === rowName) {
+        return aspect
+      }
+
+      // points of the triangular grid belong to the same chart
+      if (this.columns == null && aspect.point.name === rowName && aspect.toPoint.name === columnName) {
+        return aspect
+      }
+    }
+    return null
+  }
+
+  /*
+   * @private
+   * @return {String} "A" - applying, "S" - separating, "" - points without motion
+   */
+  getMarker (aspect: FormedAspect): string {
+    if (aspect.exactIn == null) {
+      return ''
+    }
+    return aspect.applying ? 'A' : 'S'
+  }
+}
+
+export default Aspectarian
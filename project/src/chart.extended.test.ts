@@ -144,4 +144,90 @@ describe('Chart', () => {
       expect(afterCount).toBeGreaterThan(beforeCount)
     })
   })
+
+  describe('renderToString', () => {
+    const transitData = {
+      planets: { Sun: [45], Moon: [200, -1], Mars: [310] },
+      cusps: [10, 40, 70, 100, 130, 160, 190, 220, 250, 280, 310, 340],
+    }
+
+    test('should match the browser output for radix with aspects', () => {
+      const chart = new Chart('chart', 800, 800)
+      chart.radix(validData).aspects()
+
+      expect(Chart.renderToString(validData, {}, { elementId: 'chart' })).toBe(new XMLSerializer().serializeToString(chart.paper.DOMElement))
+    })
+
+    test('should match the browser output for transit', () => {
+      const chart = new Chart('chart', 600, 600, { SYMBOL_SCALE: 0.8 })
+      chart.radix(validData).transit(transitData).aspects()
+
+      const headless = Chart.renderToString(validData, { SYMBOL_SCALE: 0.8 }, { elementId: 'chart', width: 600, height: 600, transit: transitData })
+      expect(headless).toBe(new XMLSerializer().serializeToString(chart.paper.DOMElement))
+    })
+
+    test('should skip aspects when disabled', () => {
+      const svg = Chart.renderToString(validData, {}, { aspects: false })
+      expect(svg).not.toContain('data-name=')
+    })
+
+    test('toSVGString should serialize the browser chart', () => {
+      const chart = new Chart('chart', 800, 800)
+      chart.radix(validData)
+      expect(chart.toSVGString()).toBe(new XMLSerializer().serializeToString(chart.paper.DOMElement))
+    })
+  })
+
+  describe('harmonic', () => {
+    test('should draw the transformed positions', () => {
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.harmonic(validData, 5)
+      expect(radix.data.planets.Moon[0]).toBe(90)
+      expect(radix.data.planets.Mercury[0]).toBe(240)
+    })
+
+    test('should label the chart with the harmonic number', () => {
+      const chart = new Chart('chart', 800, 800)
+      chart.harmonic(validData, 7)
+      const label = document.getElementById('chart-' + default_settings.ID_CHART + '-' + default_settings.ID_RADIX + '-' + default_settings.ID_LABEL)
+      expect(label).not.toBeNull()
+      expect(label!.textContent).toBe('H7')
+    })
+
+    test('should compute only conjunctions by default', () => {
+      const chart = new Chart('chart', 800, 800)
+      chart.harmonic(validData, 4).aspects()
+      const names = Array.from(document.querySelectorAll('[data-name]')).map(line => line.getAttribute('data-name'))
+      expect(names.length).toBeGreaterThan(0)
+      expect(names.every(name => name === 'conjunction')).toBe(true)
+    })
+  })
+
+  describe('radixAt', () => {
+    test('should draw the radix of the built-in ephemeris by default', () => {
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.radixAt(new Date('2000-01-01T12:00:00Z'), { latitude: 50.08, longitude: 14.42 })
+      expect(radix.data.planets.Sun[0]).toBeCloseTo(280.37, 1)
+      expect(radix.data.planets.Pluto).toBeDefined()
+    })
+
+    test('should use the registered provider', () => {
+      const chart = new Chart('chart', 800, 800)
+      const provider = jest.fn(() => validData)
+      const location = { latitude: 50.08, longitude: 14.42 }
+      const date = new Date('2000-01-01T12:00:00Z')
+      const radix = chart.setEphemerisProvider(provider).radixAt(date, location)
+      expect(provider).toHaveBeenCalledWith(date, location)
+      expect(radix.data.planets.Jupiter[0]).toBe(300)
+    })
+
+    test('should use the ayanamsa of the instant', () => {
+      const chart = new Chart('chart', 800, 800, { ZODIAC: 'sidereal' })
+      const radix = chart.setEphemerisProvider(() => validData).radixAt(new Date('1950-01-01T00:00:00Z'))
+      // lahiri 23.853 at J2000 less 50 years of the precession
+      expect(radix.settings.AYANAMSA_YEAR).toBeCloseTo(1950, 2)
+      expect(radix.data.planets.Jupiter[0]).toBeCloseTo(300 - 23.853 + 50 * 50.29 / 3600, 2)
+      expect(chart.settings.AYANAMSA_YEAR).toBe(default_settings.AYANAMSA_YEAR)
+    })
+  })
 })
@@ -2,8 +2,44 @@ import default_settings from './settings'
 import type { Settings } from './settings'
 import Radix from './radix'
 import type { AstroData } from './radix'
+import type { RingData } from './transit'
+import Synastry from './synastry'
+import { harmonic } from './harmonic'
+import Dial from './dial'
+import type { DialOptions } from './dial'
 import SVG from './svg'
-import { getPointPosition } from './utils'
+import { getPointPosition, getRadiusForRings } from './utils'
+import { createDocument, serialize } from './headless'
+import { builtInProvider } from './provider'
+import { getDecimalYear } from './time'
+import type { EphemerisProvider } from './provider'
+import type { GeoLocation } from './ephemeris'
+import SkyClock from './animation/skyclock'
+import type { SkyClockOptions } from './animation/skyclock'
+
+export interface HeadlessOptions {
+  width?: number
+  height?: number
+  elementId?: string
+  transit?: AstroData
+  aspects?: boolean
+}
+
+/**
+ * Draw all layers of the radix
+ *
+ * @param {Radix} radix
+ */
+const drawRadix = (radix: Radix): void => {
+  radix.drawBg()
+  radix.drawUniverse()
+  radix.drawRuler()
+  radix.drawPoints()
+  radix.drawCusps()
+  radix.drawAxis()
+  radix.drawCircles()
+}
+
 /**
  * Displays astrology charts.
  *
@@ -14,6 +50,7 @@ import { getPointPosition } from './utils'
  * @param {int} width
  * @param {int} height
  * @param {Object} settings
+ * @param {Document} doc - document to draw into, the browser one by default
  */
 
 class Chart {
@@ -22,24 +59,72 @@ class Chart {
   cy: number
   radius: number
   settings: Settings
-  constructor (elementId: string, width: number, height: number, settings?: Partial<Settings>) {
+  ephemerisProvider: EphemerisProvider
+  constructor (elementId: string, width: number, height: number, settings?: Partial<Settings>, doc: Document = document) {
     const chartSettings = { ...default_settings }
     if (settings != null) {
       Object.assign(chartSettings, settings)
       if (!('COLORS_SIGNS' in settings)) chartSettings.COLORS_SIGNS = [default_settings.COLOR_ARIES, default_settings.COLOR_TAURUS, default_settings.COLOR_GEMINI, default_settings.COLOR_CANCER, default_settings.COLOR_LEO, default_settings.COLOR_VIRGO, default_settings.COLOR_LIBRA, default_settings.COLOR_SCORPIO, default_settings.COLOR_SAGITTARIUS, default_settings.COLOR_CAPRICORN, default_settings.COLOR_AQUARIUS, default_settings.COLOR_PISCES]
     }
 
-    if ((elementId !== '') && (document.getElementById(elementId) == null)) {
-      const paper = document.createElement('div')
+    if ((elementId !== '') && (doc.getElementById(elementId) == null)) {
+      const paper = doc.createElement('div')
       paper.setAttribute('id', elementId)
-      document.body.appendChild(paper)
+      doc.body.appendChild(paper)
     }
 
-    this.paper = new SVG(elementId, width, height, chartSettings)
+    this.paper = new SVG(elementId, width, height, chartSettings, doc)
     this.cx = this.paper.width / 2
     this.cy = this.paper.height / 2
     this.radius = this.paper.height / 2 - chartSettings.MARGIN
     this.settings = chartSettings
+    this.ephemerisProvider = builtInProvider
+  }
+
+  /**
+   * Register the source of positions for the charts bound to the time
+   *
+   * @param {EphemerisProvider} provider - (date, location) => AstroData, the built-in ephemeris by default
+   * @return {Chart}
+   */
+  setEphemerisProvider (provider: EphemerisProvider): Chart {
+    if (typeof provider !== 'function') {
+      throw new Error('Param \'provider\' has to be a function.')
+    }
+    this.ephemerisProvider = provider
+    return this
+  }
+
+  /**
+   * Display radix horoscope of the instant
+   *
+   * The sidereal zodiac uses the ayanamsa of the instant, @see settings.AYANAMSA_YEAR
+   *
+   * @param {Date} date - UTC instant
+   * @param {Object | undefined} location - {latitude:50.08, longitude:14.42}
+   *
+   * @return {Radix} radix
+   */
+  radixAt (date: Date, location?: GeoLocation): Radix {
+    const radix = new Radix(this.paper, this.cx, this.cy, this.radius, this.ephemerisProvider(date, location), { ...this.settings, AYANAMSA_YEAR: getDecimalYear(date) })
+
+    drawRadix(radix)
+
+    return radix
+  }
+
+  /**
+   * Display radix horoscope with the transit ring bound to the time
+   *
+   * @param {Object} data - radix data
+   * @param {Object | undefined} options, {date:new Date(), location:{latitude:50.08, longitude:14.42}, step:3600000}
+   *
+   * @return {SkyClock} clock, call start() for the live mode
+   */
+  skyClock (data: AstroData, options?: SkyClockOptions): SkyClock {
+    const clock = new SkyClock(this.radix(data), this.ephemerisProvider, this.settings, options)
+    clock.setTime(clock.date)
+    return clock
   }
 
   /**
@@ -57,24 +142,136 @@ class Chart {
   radix (data: AstroData): Radix {
     const radix = new Radix(this.paper, this.cx, this.cy, this.radius, data, this.settings)
 
-    radix.drawBg()
-    radix.drawUniverse()
-    radix.drawRuler()
-    radix.drawPoints()
-    radix.drawCusps()
-    radix.drawAxis()
-    radix.drawCircles()
+    drawRadix(radix)
+
+    return radix
+  }
+
+  /**
+ * Display radix horoscope surrounded by concentric rings
+ *
+ * The radix shrinks so the chart with all rings fits the paper.
+ * It is the only supported way to draw more than one ring, Radix.ring() does not resize the radix.
+ *
+ * @param {Object} data - radix data
+ * @param {Array<Object>} rings, [{data:{...}, label:"Progressed"}, {data:{...}, label:"Transit", settings:{POINTS_COLOR:"#00f"}}]
+ *
+ * @return {Radix} radix, drawn rings are in radix.rings
+ */
+  rings (data: AstroData, rings: RingData[]): Radix {
+    const radius = getRadiusForRings(this.radius, rings.length, this.settings)
+    const radix = new Radix(this.paper, this.cx, this.cy, radius, data, this.settings)
+
+    drawRadix(radix)
+    radix.drawRings(rings)
+
+    return radix
+  }
+
+  /**
+ * Display synastry bi-wheel
+ *
+ * The person A is drawn as radix, the person B as the ring around it.
+ *
+ * @param {Object} a - data of the person A
+ * @param {Object} b - data of the person B
+ *
+ * @return {Synastry} synastry
+ */
+  synastry (a: AstroData, b: AstroData): Synastry {
+    const radix = new Radix(this.paper, this.cx, this.cy, this.radius, a, { ...this.settings, ID_RADIX: this.settings.ID_PERSON_A })
+
+    drawRadix(radix)
+    const ring = radix.ring(b, { id: this.settings.ID_PERSON_B })
+
+    return new Synastry(radix, ring, this.settings)
+  }
+
+  /**
+ * Display harmonic chart
+ *
+ * Positions are multiplied by the harmonic number and the chart is labelled with it.
+ * Aspects of the chart use settings.HARMONIC_ASPECTS.
+ *
+ * @param {Object} data - radix data
+ * @param {int} n - harmonic number
+ *
+ * @return {Radix} radix
+ */
+  harmonic (data: AstroData, n: number): Radix {
+    const radix = new Radix(this.paper, this.cx, this.cy, this.radius, harmonic(data, n), { ...this.settings, ASPECTS: this.settings.HARMONIC_ASPECTS })
+
+    drawRadix(radix)
+    radix.drawLabel('H' + n.toString())
 
     return radix
   }
 
+  /**
+ * Display Uranian dial
+ *
+ * @param {Object} data - radix data
+ * @param {Object | undefined} options, {size:90, pointer:0}
+ *
+ * @return {Dial} dial
+ */
+  dial (data: AstroData, options?: DialOptions): Dial {
+    const dial = new Dial(this.paper, this.cx, this.cy, this.radius, data, this.settings, options)
+
+    dial.drawBg()
+    dial.drawModalities()
+    dial.drawRuler()
+    dial.drawPoints()
+    dial.drawCircles()
+    dial.drawPointer()
+
+    return dial
+  }
+
+  /**
+   * Get the chart as a standalone SVG string
+   *
+   * @return {String}
+   */
+  toSVGString (): string {
+    return serialize(this.paper.DOMElement)
+  }
+
+  /**
+   * Render chart without a browser DOM
+   *
+   * @param {Object} data - radix data
+   * @param {Object} settings
+   * @param {Object} options, { width:800, height:800, elementId:"astrochart", transit:{...}, aspects:true }
+   *
+   * @return {String} standalone SVG
+   */
+  static renderToString (data: AstroData, settings?: Partial<Settings>, options?: HeadlessOptions): string {
+    const width = options?.width ?? 800
+    const height = options?.height ?? 800
+    const elementId = options?.elementId ?? 'astrochart'
+    const drawAspects = options?.aspects ?? true
+
+    const chart = new Chart(elementId, width, height, settings, createDocument())
+    const radix = chart.radix(data)
+
+    if (options?.transit != null) {
+      const transit = radix.transit(options.transit)
+      if (drawAspects) transit.aspects()
+    } else if (drawAspects) {
+      radix.aspects()
+    }
+
+    return chart.toSVGString()
+  }
+
   /**
    * Scale chart
    *
    * @param {int} factor
    */
   scale (factor: number): void {
-    this.paper.root.setAttribute('transform', 'translate(' + (-this.cx * (factor - 1)) + ',' + (-this.cy * (factor - 1)) + ') scale(' + factor + ')')
+    this.paper.renderer.setStyle(this.paper.root, { transform: 'translate(' + (-this.cx * (factor - 1)) + ',' + (-this.cy * (factor - 1)) + ') scale(' + factor + ')' })
   }
 
   /**
@@ -94,12 +291,11 @@ class Chart {
       positions = getPointPosition(this.cx, this.cy, this.radius * 2, planet * 30, this.settings)
 
       line = this.paper.line(this.cx, this.cy, positions.x, positions.y)
-      line.setAttribute('stroke', this.settings.LINE_COLOR)
+      this.paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR })
       this.paper.root.appendChild(line)
 
       circle = this.paper.circle(this.cx, this.cy, startRadius + startRadius * planet)
-      circle.setAttribute('stroke', this.settings.LINE_COLOR)
-      circle.setAttribute('stroke-width', '1')
+      this.paper.renderer.setStyle(circle, { stroke: this.settings.LINE_COLOR, strokeWidth: '1' })
       this.paper.root.appendChild(circle)
     }
 
@@ -110,8 +306,7 @@ class Chart {
         positions = getPointPosition(this.cx, this.cy, radius, i * 30, this.settings)
 
         circle = this.paper.circle(positions.x, positions.y, this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE)
-        circle.setAttribute('stroke', 'red')
-        circle.setAttribute('stroke-width', '1')
+        this.paper.renderer.setStyle(circle, { stroke: 'red', strokeWidth: '1' })
         this.paper.root.appendChild(circle)
 
         this.paper.root.appendChild(this.paper.getSymbol(planets[n], positions.x, positions.y))
@@ -0,0 +1,86 @@
+import { composite } from './composite'
+import Chart from './chart'
+
+const personA = {
+  planets: { Sun: [350, 1], Moon: [100], Venus: [200, -0.5], Pluto: [250] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const personB = {
+  planets: { Sun: [20, 1.5], Moon: [140, 13], Venus: [180, 1] } as Record<string, number[]>,
+  cusps: [340, 10, 40, 70, 100, 130, 160, 190, 220, 250, 280, 310]
+}
+
+describe('composite', () => {
+  test('should place planets in the midpoints on the shorter arc', () => {
+    const data = composite(personA, personB)
+    expect(data.planets.Sun[0]).toBeCloseTo(5)
+    expect(data.planets.Moon[0]).toBeCloseTo(120)
+    expect(data.planets.Venus[0]).toBeCloseTo(190)
+  })
+
+  test('should average speeds when both charts have them', () => {
+    const data = composite(personA, personB)
+    expect(data.planets.Sun[1]).toBeCloseTo(1.25)
+    expect(data.planets.Venus[1]).toBeCloseTo(0.25)
+    expect(data.planets.Moon.length).toBe(1)
+  })
+
+  test('should skip planets missing in one of the charts', () => {
+    const data = composite(personA, personB)
+    expect(data.planets.Pluto).toBeUndefined()
+  })
+
+  test('should use cusp midpoints by default', () => {
+    const data = composite(personA, personB)
+    expect(data.cusps[0]).toBeCloseTo(350)
+    expect(data.cusps[1]).toBeCloseTo(20)
+    expect(data.cusps[9]).toBeCloseTo(260)
+  })
+
+  test('should rebuild houses from the composite MC', () => {
+    const data = composite(personA, personB, { cusps: 'mc', latitude: 0 })
+    expect(data.cusps.length).toBe(12)
+    expect(data.cusps[9]).toBeCloseTo(260)
+    expect(data.cusps[3]).toBeCloseTo(80)
+    expect(data.cusps[6]).toBeCloseTo((data.cusps[0] + 180) % 360)
+  })
+
+  test('should place the ascendant 90 degrees from MC at 0 Aries on the equator', () => {
+    const a = { planets: { Sun: [0] }, cusps: [90, 120, 150, 180, 210, 240, 270, 300, 330, 0, 30, 60] }
+    const data = composite(a, a, { cusps: 'mc', latitude: 0 })
+    expect(data.cusps[0]).toBeCloseTo(90)
+    expect(data.cusps[1]).toBeCloseTo(120)
+    expect(data.cusps[4]).toBeCloseTo(210)
+  })
+
+  test('should rebuild houses in the chosen system', () => {
+    const porphyry = composite(personA, personB, { cusps: 'mc', latitude: 50 })
+    const equal = composite(personA, personB, { cusps: 'mc', latitude: 50, houseSystem: 'equal' })
+    expect(equal.cusps[0]).toBeCloseTo(porphyry.cusps[0])
+    expect(equal.cusps[1]).not.toBeCloseTo(porphyry.cusps[1])
+    for (let i = 1; i < 12; i++) {
+      expect((equal.cusps[i] - equal.cusps[0] + 360) % 360).toBeCloseTo(i * 30)
+    }
+  })
+
+  test('should fall back in polar latitudes', () => {
+    expect(() => composite(personA, personB, { cusps: 'mc', latitude: 80, houseSystem: 'placidus' })).toThrow('House system \'placidus\' is not defined for latitude 80.')
+    const data = composite(personA, personB, { cusps: 'mc', latitude: 80, houseSystem: 'placidus', fallback: 'porphyry' })
+    expect(data.cusps).toEqual(composite(personA, personB, { cusps: 'mc', latitude: 80 }).cusps)
+  })
+
+  test('should require latitude for the composite MC houses', () => {
+    expect(() => composite(personA, personB, { cusps: 'mc' })).toThrow('latitude')
+  })
+
+  test('should throw on invalid data', () => {
+    expect(() => composite({ planets: { Sun: [0] }, cusps: [] }, personB)).toThrow()
+  })
+
+  test('should be drawable as radix', () => {
+    document.body.innerHTML = '<div id="chart"></div>'
+    const chart = new Chart('chart', 800, 800)
+    expect(() => chart.radix(composite(personA, personB, { cusps: 'mc', latitude: 50 }))).not.toThrow()
+  })
+})
@@ -0,0 +1,69 @@
+import { validate, getMidpoint } from './utils'
+import { houses, getRamc } from './houses'
+import type { HouseSystem } from './houses'
+import type { AstroData, Points } from './radix'
+
+export type CompositeCuspsMethod = 'midpoint' | 'mc'
+
+export interface CompositeOptions {
+  // 'midpoint' - midpoints of the cusps, 'mc' - houses rebuilt from the composite MC
+  cusps?: CompositeCuspsMethod
+  // geographic latitude for the 'mc' method, degree
+  latitude?: number
+  // obliquity of the ecliptic for the 'mc' method, degree
+  obliquity?: number
+  // house system of the 'mc' method, 'porphyry' by default
+  houseSystem?: HouseSystem
+  // system used in polar latitudes, @see houses()
+  fallback?: HouseSystem
+}
+
+// mean obliquity of the ecliptic for J2000
+const DEFAULT_OBLIQUITY = 23.4392911
+
+const MC = 9
+
+/**
+ * Composite chart of two charts
+ *
+ * Planets are placed in the midpoints on the shorter arc.
+ *
+ * @param {Object} a - data of the first chart
+ * @param {Object} b - data of the second chart
+ * @param {Object | undefined} options, {cusps:"mc", latitude:50.08, houseSystem:"placidus"}
+ * @return {Object} composite data, it can be drawn by Chart.radix()
+ */
+export const composite = (a: AstroData, b: AstroData, options?: CompositeOptions): AstroData => {
+  [a, b].forEach(data => {
+    const status = validate(data)
+    if (status.hasError) {
+      throw new Error(status.messages.join(' | '))
+    }
+  })
+
+  const planets: Points = {}
+  for (const planet in a.planets) {
+    if (a.planets.hasOwnProperty(planet) && b.planets.hasOwnProperty(planet)) {
+      const position = getMidpoint(a.planets[planet][0], b.planets[planet][0])
+      planets[planet] = (a.planets[planet][1] != null && b.planets[planet][1] != null)
+        ? [position, (a.planets[planet][1] + b.planets[planet][1]) / 2]
+        : [position]
+    }
+  }
+
+  let cusps: number[]
+  if (options?.cusps === 'mc') {
+    if (options.latitude == null) {
+      throw new Error('Param \'latitude\' is required for the composite MC houses.')
+    }
+    const obliquity = options.obliquity ?? DEFAULT_OBLIQUITY
+    const fallback = options.fallback != null ? { fallback: options.fallback } : undefined
+    cusps = houses(getRamc(getMidpoint(a.cusps[MC], b.cusps[MC]), obliquity), options.latitude, obliquity, options.houseSystem ?? 'porphyry', fallback)
+  } else {
+    cusps = a.cusps.map((cusp, i) => getMidpoint(cusp, b.cusps[i]))
+  }
+
+  return { planets, cusps }
+}
+
+export default composite
@@ -0,0 +1,69 @@
+import Chart from './chart'
+import default_settings from './settings'
+
+const data = {
+  // Moon out of bounds by the given declination, Sun at the solstice by its longitude
+  planets: { Sun: [90], Moon: [60, 13, 5, 27.5], Mars: [0, 0.5, 1.5] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const stripId = 'chart-' + default_settings.ID_CHART + '-' + default_settings.ID_RADIX + '-' + default_settings.ID_DECLINATIONS
+
+describe('DeclinationStrip', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div><div id="strip"></div>'
+  })
+
+  test('should use given declinations and calculate missing ones', () => {
+    const strip = new Chart('chart', 800, 800).radix(data).declinations()
+    const declinations = strip.getDeclinations()
+
+    expect(declinations.Moon).toBe(27.5)
+    expect(declinations.Sun).toBeCloseTo(default_settings.OBLIQUITY, 6)
+    expect(declinations.Mars).toBeCloseTo(1.376, 3)
+  })
+
+  test('should mark out-of-bounds bodies', () => {
+    new Chart('chart', 800, 800).radix(data).declinations()
+    const wrapper = document.getElementById(stripId)!
+
+    expect(wrapper.querySelector('g[data-name="Moon"]')!.getAttribute('data-out-of-bounds')).toBe('true')
+    expect(wrapper.querySelector('g[data-name="Moon"] circle')).not.toBeNull()
+    expect(wrapper.querySelector('g[data-name="Mars"]')!.getAttribute('data-out-of-bounds')).toBe('false')
+    expect(wrapper.querySelectorAll('line[data-name="bounds"]').length).toBe(2)
+  })
+
+  test('should draw north above south', () => {
+    new Chart('chart', 800, 800).radix({ ...data, planets: { Sun: [90], Venus: [270] } }).declinations()
+    const wrapper = document.getElementById(stripId)!
+    const tickY = (name: string): number => parseFloat(wrapper.querySelector('g[data-name="' + name + '"] line')!.getAttribute('y1')!)
+
+    expect(tickY('Sun')).toBeLessThan(tickY('Venus'))
+    expect(tickY('Sun') + tickY('Venus')).toBeCloseTo(800, 6)
+  })
+
+  test('should place the strip at the chosen side', () => {
+    const settings = { DECLINATION_STRIP_POSITION: 'left' as const }
+    new Chart('chart', 800, 800, settings).radix(data).declinations()
+    const rect = document.getElementById(stripId)!.querySelector('rect')!
+    expect(rect.getAttribute('x')).toBe((default_settings.PADDING * default_settings.SYMBOL_SCALE).toString())
+
+    document.body.innerHTML = '<div id="chart"></div>'
+    new Chart('chart', 800, 800).radix(data).declinations()
+    const right = document.getElementById(stripId)!.querySelector('rect')!
+    expect(parseFloat(right.getAttribute('x')!)).toBeGreaterThan(700)
+  })
+
+  test('should extend the scale for high declinations', () => {
+    new Chart('chart', 800, 800).radix({ ...data, planets: { Pluto: [0, 0, 0, 40] } }).declinations()
+    const wrapper = document.getElementById(stripId)!
+    const y = parseFloat(wrapper.querySelector('g[data-name="Pluto"] line')!.getAttribute('y1')!)
+    expect(y).toBeCloseTo(default_settings.PADDING * default_settings.SYMBOL_SCALE, 6)
+  })
+
+  test('should draw into separate container', () => {
+    new Chart('chart', 800, 800).radix(data).declinations({ elementId: 'strip' })
+    expect(document.querySelector('#strip svg')).not.toBeNull()
+    expect(document.querySelectorAll('#strip g[data-name]').length).toBe(3)
+  })
+})
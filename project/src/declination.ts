@@ -0,0 +1,169 @@
+import SVG from './svg'
+import type { Points } from './radix'
+import type { Settings } from './settings'
+import { getEmptyWrapper, getPointDeclination } from './utils'
+
+export interface DeclinationStripOptions {
+  // ID of a separate container, the strip is drawn into the chart paper by default
+  elementId?: string
+}
+
+/**
+   * Declination strip.
+   *
+   * Vertical scale of declinations beside the wheel, north at the top.
+   * Dashed lines mark the obliquity of the ecliptic, bodies beyond them are out of bounds.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {SVG} paper - paper of the chart
+   * @param {String} id - element ID of the strip
+   * @param {Object} points - {"Sun":[0, 1, 0, 0], "Moon":[90, 13, 5]}
+   * @param {Object} settings
+   */
+class DeclinationStrip {
+  paper: SVG
+  id: string
+  points: Points
+  settings: Settings
+  width: number
+  context: this
+  constructor (paper: SVG, id: string, points: Points, settings: Settings) {
+    this.paper = paper
+    this.id = id
+    this.points = points
+    this.settings = settings
+    this.width = this.settings.DECLINATION_STRIP_WIDTH * this.settings.SYMBOL_SCALE
+
+    this.context = this
+  }
+
+  /**
+   * Declinations of the points
+   *
+   * @return {Object} {"Sun":23.2, "Moon":-18.5}
+   */
+  getDeclinations (): Record<string, number> {
+    const result: Record<string, number> = {}
+    for (const point in this.points) {
+      if (this.points.hasOwnProperty(point)) {
+        result[point] = getPointDeclination(this.points[point], this.settings.OBLIQUITY)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Whether the declination is beyond the obliquity of the ecliptic
+   *
+   * @param {Number} declination
+   * @return {boolean}
+   */
+  isOutOfBounds (declination: number): boolean {
+    return Math.abs(declination) > this.settings.OBLIQUITY
+  }
+
+  /**
+   * Draw the strip into the chart paper or into a separate container
+   *
+   * @param {String | undefined} elementId - ID of a separate container
+   * @return {Element} wrapper of the strip
+   */
+  draw (elementId?: string): Element {
+    const padding = this.settings.PADDING * this.settings.SYMBOL_SCALE
+
+    if (elementId != null) {
+      const paper = new SVG(elementId, this.width + 2 * padding, this.paper.height, this.settings, this.paper.pageDocument)
+      return this.drawInto(paper, padding, padding, this.paper.height - 2 * padding)
+    }
+
+    const x = this.settings.DECLINATION_STRIP_POSITION === 'left' ? padding : this.paper.width - padding - this.width
+    return this.drawInto(this.paper, x, padding, this.paper.height - 2 * padding)
+  }
+
+  /*
+   * @private
+   * @param {SVG} paper
+   * @param {Number} x - left
+   * @param {Number} y - top
+   * @param {Number} height
+   */
+  drawInto (paper: SVG, x: number, y: number, height: number): Element {
+    const wrapper = getEmptyWrapper(paper.root, paper.root.id + '-' + this.id, paper.root.id)
+    const declinations = this.getDeclinations()
+
+    let range = this.settings.DECLINATION_RANGE
+    for (const point in declinations) {
+      if (declinations.hasOwnProperty(point)) {
+        range = Math.max(range, Math.ceil(Math.abs(declinations[point])))
+      }
+    }
+    const toY = (declination: number): number => y + height / 2 - (declination / range) * (height / 2)
+
+    const rect = paper.renderer.rect(x, y, this.width, height)
+    paper.renderer.setStyle(rect, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE, fill: 'none' })
+    wrapper.appendChild(rect)
+
+    const equator = paper.line(x, toY(0), x + this.width, toY(0))
+    paper.renderer.setStyle(equator, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE })
+    equator.setAttribute('data-name', 'equator')
+    wrapper.appendChild(equator)
+
+    const bounds = [this.settings.OBLIQUITY, -this.settings.OBLIQUITY]
+    for (let i = 0; i < bounds.length; i++) {
+      const line = paper.line(x, toY(bounds[i]), x + this.width, toY(bounds[i]))
+      paper.renderer.setStyle(line, { stroke: this.settings.DECLINATION_OUT_OF_BOUNDS_COLOR, strokeWidth: this.settings.CUSPS_STROKE, strokeDasharray: '4,2' })
+      line.setAttribute('data-name', 'bounds')
+      line.setAttribute('data-declination', bounds[i].toString())
+      wrapper.appendChild(line)
+    }
+
+    this.drawPoints(paper, wrapper, declinations, x, toY)
+
+    return wrapper
+  }
+
+  /*
+   * Points sorted by declination, close points alternate between two columns
+   * @private
+   */
+  drawPoints (paper: SVG, wrapper: Element, declinations: Record<string, number>, x: number, toY: (declination: number) => number): void {
+    const size = 2 * this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE
+    const columns = [x + this.width / 3, x + 2 * this.width / 3]
+    const lastY = [-Infinity, -Infinity]
+
+    const names = Object.keys(declinations).sort((a, b) => declinations[b] - declinations[a])
+    for (let i = 0; i < names.length; i++) {
+      const declination = declinations[names[i]]
+      const y = toY(declination)
+
+      // the first free column, the less crowded one otherwise
+      const gaps = [Math.abs(y - lastY[0]), Math.abs(y - lastY[1])]
+      let column = gaps[0] >= gaps[1] ? 0 : 1
+      if (gaps[0] >= size) column = 0
+      else if (gaps[1] >= size) column = 1
+      lastY[column] = y
+
+      const group = paper.renderer.group()
+      group.setAttribute('data-name', names[i])
+      group.setAttribute('data-declination', declination.toString())
+      group.setAttribute('data-out-of-bounds', this.isOutOfBounds(declination).toString())
+
+      const tick = paper.line(x, y, x + this.width / 10, y)
+      paper.renderer.setStyle(tick, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE })
+      group.appendChild(tick)
+      group.appendChild(paper.getSymbol(names[i], columns[column], y, this.settings))
+
+      if (this.isOutOfBounds(declination)) {
+        const marker = paper.circle(columns[column], y, this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE)
+        paper.renderer.setStyle(marker, { stroke: this.settings.DECLINATION_OUT_OF_BOUNDS_COLOR, strokeWidth: this.settings.CUSPS_STROKE, fill: 'none' })
+        group.appendChild(marker)
+      }
+
+      wrapper.appendChild(group)
+    }
+  }
+}
+
+export default DeclinationStrip
@@ -0,0 +1,75 @@
+import Chart from './chart'
+import default_settings from './settings'
+
+const data = {
+  planets: { Sun: [10], Moon: [100], Mars: [190], Venus: [55], Jupiter: [235.5] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const dialId = (id: string): string => 'chart-' + default_settings.ID_CHART + '-' + default_settings.ID_DIAL + '-' + id
+
+describe('Dial', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  describe('toDialAngle', () => {
+    test('should fold positions by 90 degrees', () => {
+      const dial = new Chart('chart', 800, 800).dial(data)
+      expect(dial.toDialAngle(10)).toBeCloseTo(40)
+      expect(dial.toDialAngle(100)).toBeCloseTo(40)
+      expect(dial.toDialAngle(190)).toBeCloseTo(40)
+      expect(dial.toDialAngle(-80)).toBeCloseTo(40)
+    })
+
+    test('should fold positions by the dial size', () => {
+      const dial = new Chart('chart', 800, 800).dial(data, { size: 45 })
+      expect(dial.toDialAngle(55)).toBeCloseTo(80)
+      expect(new Chart('chart', 800, 800).dial(data, { size: 22.5 }).toDialAngle(30)).toBeCloseTo(120)
+    })
+  })
+
+  test('should throw for unsupported size', () => {
+    expect(() => new Chart('chart', 800, 800).dial(data, { size: 30 as 90 })).toThrow('Unsupported dial size')
+  })
+
+  test('should draw three modality markers', () => {
+    new Chart('chart', 800, 800).dial(data)
+    const markers = document.getElementById(dialId(default_settings.ID_SIGNS))
+    expect(markers!.querySelectorAll('path[id]').length).toBe(3)
+  })
+
+  test.each([45, 22.5] as const)('should draw ticks instead of modalities on the %s degree dial', (size) => {
+    new Chart('chart', 800, 800).dial(data, { size })
+    const markers = document.getElementById(dialId(default_settings.ID_SIGNS))!
+    expect(markers.querySelectorAll('path[id]').length).toBe(0)
+    // each 5 degrees of the 45 degree dial, each 2.5 degrees of the 22.5 degree one
+    expect(markers.querySelectorAll('line').length).toBe(9)
+  })
+
+  test('should draw one ruler ray per dial degree', () => {
+    new Chart('chart', 800, 800).dial(data)
+    expect(document.getElementById(dialId(default_settings.ID_RULER))!.querySelectorAll('line').length).toBe(90)
+  })
+
+  test('should draw half degree rays on the 22.5 degree dial', () => {
+    new Chart('chart', 800, 800).dial(data, { size: 22.5 })
+    expect(document.getElementById(dialId(default_settings.ID_RULER))!.querySelectorAll('line').length).toBe(45)
+  })
+
+  test('should locate all points without overlaps', () => {
+    const dial = new Chart('chart', 800, 800).dial(data)
+    expect(dial.locatedPoints.length).toBe(5)
+    expect(document.getElementById(dialId(default_settings.ID_POINTS) + '-Mars')).not.toBeNull()
+  })
+
+  test('should rotate the pointer to the position', () => {
+    const dial = new Chart('chart', 800, 800).dial(data, { pointer: 10 })
+    const pointer = document.getElementById(dialId(default_settings.ID_POINTER))
+    expect(pointer!.getAttribute('transform')).toBe('rotate(-40,400,400)')
+
+    dial.rotatePointer(45)
+    expect(dial.pointer).toBe(45)
+    expect(pointer!.getAttribute('transform')).toBe('rotate(-180,400,400)')
+  })
+})
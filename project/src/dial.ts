@@ -0,0 +1,302 @@
+import {
+  validate
+  , getEmptyWrapper
+  , getPointPosition
+  , getRulerPositions
+  , getDescriptionPosition
+  , assemble
+  , toZodiac
+} from './utils'
+import type { AstroData, LocatedPoint } from './radix'
+import type SVG from './svg'
+import type { Settings } from './settings'
+
+export type DialSize = 90 | 45 | 22.5
+
+export interface DialOptions {
+  // degrees of the zodiac folded on the whole dial
+  size?: DialSize
+  // zodiac position the pointer points to
+  pointer?: number
+}
+
+/**
+   * Uranian dial.
+   *
+   * Positions are folded modulo the dial size, e.g. 90 degrees,
+   * and spread over the whole circle. 0 of the dial is on the top.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {SVG} paper
+   * @param {int} cx
+   * @param {int} cy
+   * @param {int} radius
+   * @param {Object} data
+   * @param {Object} settings
+   * @param {Object | undefined} options, {size:90, pointer:0}
+   */
+class Dial {
+  settings: Settings
+  data: AstroData
+  paper: SVG
+  cx: number
+  cy: number
+  radius: number
+  size: DialSize
+  pointer: number
+  locatedPoints: LocatedPoint[]
+  rulerRadius: number
+  pointRadius: number
+  shift: number
+  universe: Element
+  context: this
+  constructor (paper: SVG, cx: number, cy: number, radius: number, data: AstroData, settings: Settings, options?: DialOptions) {
+    this.settings = settings
+    // Validate data
+    const status = validate(data)
+    if (status.hasError) {
+      throw new Error(status.messages.join(' | '))
+    }
+
+    if (options?.size != null && ![90, 45, 22.5].includes(options.size)) {
+      throw new Error('Unsupported dial size: ' + String(options.size) + '. Use 90, 45 or 22.5.')
+    }
+
+    // positions in the zodiac of the chart, @see settings.ZODIAC
+    this.data = toZodiac(data, settings)
+    this.paper = paper
+    this.cx = cx
+    this.cy = cy
+    this.radius = radius
+    this.size = options?.size ?? 90
+    this.pointer = options?.pointer ?? 0
+
+    // after calling this.drawPoints() it contains current position of point
+    this.locatedPoints = []
+    this.rulerRadius = ((this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO) / this.settings.RULER_RADIUS)
+    this.pointRadius = this.radius - (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO + 2 * this.rulerRadius + (this.settings.PADDING * this.settings.SYMBOL_SCALE))
+
+    // turns 0 of the dial to the top
+    this.shift = this.settings.SHIFT_IN_DEGREES + 90
+
+    this.universe = this.paper.renderer.group()
+    this.universe.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_DIAL)
+    this.paper.root.appendChild(this.universe)
+
+    this.context = this
+  }
+
+  /**
+   * Angle on the dial for the zodiac position
+   *
+   * @param {double} position - degree of the zodiac
+   * @return {double} degree of the circle
+   */
+  toDialAngle (position: number): number {
+    const folded = ((position % this.size) + this.size) % this.size
+    return folded * 360 / this.size
+  }
+
+  /**
+   * Draw background
+   */
+  drawBg (): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_BG, this.paper.root.id)
+
+    const circle = this.paper.circle(this.cx, this.cy, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
+    this.paper.renderer.setStyle(circle, { fill: this.settings.STROKE_ONLY ? 'none' : this.settings.COLOR_BACKGROUND })
+    wrapper.appendChild(circle)
+  }
+
+  /**
+   * Draw cardinal, fixed and mutable markers
+   *
+   * Only the 90 degree dial folds each modality to one third of the circle,
+   * the smaller dials mix the modalities and get plain ticks instead.
+   */
+  drawModalities (): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_SIGNS, this.paper.root.id)
+
+    if (this.size !== 90) {
+      this.drawTicks(wrapper)
+      return
+    }
+
+    for (let i = 0, step = 120, start = this.shift; i < 3; i++) {
+      const segment = this.paper.segment(this.cx, this.cy, this.radius, start, start + step, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
+      this.paper.renderer.setStyle(segment, { fill: this.settings.STROKE_ONLY ? 'none' : this.settings.COLORS_MODALITIES[i] })
+      segment.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_SIGNS + '-' + i)
+      this.paper.renderer.setStyle(segment, { stroke: this.settings.STROKE_ONLY ? this.settings.CIRCLE_COLOR : 'none', strokeWidth: this.settings.STROKE_ONLY ? '1' : '0' })
+      wrapper.appendChild(segment)
+
+      const position = getPointPosition(this.cx, this.cy, this.radius - (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO) / 2, start + step / 2, this.settings)
+      wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_MODALITIES[i], position.x, position.y, this.settings))
+
+      start += step
+    }
+  }
+
+  /*
+   * Ticks each 5 degrees of the dial, 2.5 degrees on the 22.5 degree dial
+   * @private
+   * @param {Element} wrapper
+   */
+  drawTicks (wrapper: Element): void {
+    const unit = this.size >= 45 ? 5 : 2.5
+    const innerRadius = this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO
+    const rays = getRulerPositions(this.cx, this.cy, innerRadius, this.radius, this.shift, this.settings, 360 / (this.size / unit), 1)
+
+    rays.forEach(function (ray) {
+      const line = this.paper.line(ray.startX, ray.startY, ray.endX, ray.endY)
+      this.paper.renderer.setStyle(line, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
+      wrapper.appendChild(line)
+    }, this)
+
+    const circle = this.paper.circle(this.cx, this.cy, this.radius)
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString(), fill: 'none' })
+    wrapper.appendChild(circle)
+  }
+
+  /**
+   * Draw ruler in dial degrees
+   */
+  drawRuler (): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_RULER, this.paper.root.id)
+
+    // one ray per degree of the dial, half degree for the small dials
+    const unit = this.size >= 45 ? 1 : 0.5
+    const step = 360 / (this.size / unit)
+
+    const startRadius = (this.radius - (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO + this.rulerRadius))
+    const rays = getRulerPositions(this.cx, this.cy, startRadius, startRadius + this.rulerRadius, this.shift, this.settings, step, 5)
+
+    rays.forEach(function (ray) {
+      const line = this.paper.line(ray.startX, ray.startY, ray.endX, ray.endY)
+      this.paper.renderer.setStyle(line, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
+      wrapper.appendChild(line)
+    }, this)
+
+    const circle = this.paper.circle(this.cx, this.cy, startRadius)
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString() })
+    wrapper.appendChild(circle)
+  }
+
+  /**
+   * Draw points
+   */
+  drawPoints (): void {
+    if (this.data.planets == null) {
+      return
+    }
+
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_POINTS, this.paper.root.id)
+
+    const pointerRadius = this.radius - (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO + this.rulerRadius)
+    let startPosition
+    let endPosition
+
+    this.locatedPoints = []
+    for (const planet in this.data.planets) {
+      if (this.data.planets.hasOwnProperty(planet)) {
+        const angle = this.toDialAngle(this.data.planets[planet][0]) + this.shift
+        const position = getPointPosition(this.cx, this.cy, this.pointRadius, angle, this.settings)
+        const point = { name: planet, x: position.x, y: position.y, r: (this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE), angle, pointer: angle }
+        this.locatedPoints = assemble(this.locatedPoints, point, { cx: this.cx, cy: this.cy, r: this.pointRadius }, this.settings)
+      }
+    }
+
+    this.locatedPoints.forEach(function (point: LocatedPoint) {
+      const angle = this.toDialAngle(this.data.planets[point.name][0]) + this.shift
+
+      // draw pointer
+      startPosition = getPointPosition(this.cx, this.cy, pointerRadius, angle, this.settings)
+      endPosition = getPointPosition(this.cx, this.cy, pointerRadius - this.rulerRadius / 2, angle, this.settings)
+      const pointer = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
+      this.paper.renderer.setStyle(pointer, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
+      wrapper.appendChild(pointer)
+
+      // draw pointer line
+      if (!this.settings.STROKE_ONLY && angle !== point.angle) {
+        startPosition = endPosition
+        endPosition = getPointPosition(this.cx, this.cy, this.pointRadius + (this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE), point.angle, this.settings)
+        const line = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
+        this.paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR, strokeWidth: 0.5 * (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
+        wrapper.appendChild(line)
+      }
+
+      // draw symbol
+      const symbol = this.paper.getSymbol(point.name, point.x, point.y, this.settings)
+      symbol.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_POINTS + '-' + point.name)
+      wrapper.appendChild(symbol)
+
+      // draw degree of the dial
+      const degree = Math.floor(((this.data.planets[point.name][0] % this.size) + this.size) % this.size).toString()
+      getDescriptionPosition(point, [degree], this.settings).forEach(function (dsc) {
+        wrapper.appendChild(this.paper.text(dsc.text, dsc.x, dsc.y, this.settings.POINTS_TEXT_SIZE, this.settings.SIGNS_COLOR))
+      }, this)
+    }, this)
+  }
+
+  /**
+   * Draw circles
+   */
+  drawCircles (): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_CIRCLES, this.paper.root.id)
+
+    // outdoor circle
+    let circle = this.paper.circle(this.cx, this.cy, this.radius)
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
+    wrapper.appendChild(circle)
+
+    // inner circle
+    circle = this.paper.circle(this.cx, this.cy, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
+    wrapper.appendChild(circle)
+  }
+
+  /**
+   * Draw the pointer from the center
+   */
+  drawPointer (): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_POINTER, this.paper.root.id)
+
+    // drawn on 0 of the dial, turned by rotatePointer()
+    const end = getPointPosition(this.cx, this.cy, this.pointRadius - (this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE), this.shift, this.settings)
+    const line = this.paper.line(this.cx, this.cy, end.x, end.y)
+    this.paper.renderer.setStyle(line, { stroke: this.settings.DIAL_POINTER_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
+    wrapper.appendChild(line)
+
+    const head = this.paper.circle(end.x, end.y, this.settings.CIRCLE_STRONG * 2 * this.settings.SYMBOL_SCALE)
+    this.paper.renderer.setStyle(head, { fill: this.settings.DIAL_POINTER_COLOR })
+    wrapper.appendChild(head)
+
+    this.rotatePointer(this.pointer)
+  }
+
+  /**
+   * Turn the pointer to the zodiac position
+   *
+   * @param {double} position - degree of the zodiac
+   */
+  rotatePointer (position: number): Dial {
+    this.pointer = position
+
+    const wrapper = this.paper.document.getElementById(this.paper.root.id + '-' + this.settings.ID_DIAL + '-' + this.settings.ID_POINTER)
+    if (wrapper != null) {
+      // the dial runs counterclockwise, the SVG rotation clockwise
+      this.paper.renderer.setStyle(wrapper, { transform: 'rotate(' + (-this.toDialAngle(position)).toString() + ',' + this.cx.toString() + ',' + this.cy.toString() + ')' })
+    }
+
+    return this.context
+  }
+}
+
+export default Dial
@@ -0,0 +1,102 @@
+import type { DignityScores, SignDignities, Term, Triplicity } from './settings'
+
+// Signs of exaltation and fall, 1 - Aries, ... , 12 - Pisces
+export const SIGN_DIGNITIES: Record<string, SignDignities> = {
+  Sun: { exaltation: [1], fall: [6] },
+  Moon: { exaltation: [2], fall: [8] },
+  Mercury: { exaltation: [6], fall: [12] },
+  Venus: { exaltation: [12], fall: [6] },
+  Mars: { exaltation: [10], fall: [4] },
+  Jupiter: { exaltation: [4], fall: [10] },
+  Saturn: { exaltation: [7], fall: [1] },
+  Uranus: { exaltation: [8], fall: [2] },
+  Neptune: { exaltation: [5, 9], fall: [11, 3] },
+  Pluto: { exaltation: [1], fall: [7] }
+}
+
+// Rulers of the signs from Aries to Pisces, the seven visible planets only
+export const TRADITIONAL_RULERSHIPS: string[][] = [
+  ['Mars'], ['Venus'], ['Mercury'], ['Moon'], ['Sun'], ['Mercury'],
+  ['Venus'], ['Mars'], ['Jupiter'], ['Saturn'], ['Saturn'], ['Jupiter']
+]
+
+// Outer planets rule Scorpio, Aquarius and Pisces, the traditional rulers stay as co-rulers
+export const MODERN_RULERSHIPS: string[][] = [
+  ['Mars'], ['Venus'], ['Mercury'], ['Moon'], ['Sun'], ['Mercury'],
+  ['Venus'], ['Pluto', 'Mars'], ['Jupiter'], ['Saturn'], ['Uranus', 'Saturn'], ['Neptune', 'Jupiter']
+]
+
+// Modern rulers for rulership and detriment, Mercury has only exaltation and fall in Virgo
+export const MODERN_DIGNITY_RULERSHIPS: string[][] = [
+  ['Mars'], ['Venus'], ['Mercury'], ['Moon'], ['Sun'], [],
+  ['Venus'], ['Pluto', 'Mars'], ['Jupiter'], ['Saturn'], ['Uranus', 'Saturn'], ['Neptune', 'Jupiter']
+]
+
+// Dorothean rulers of the fire, earth, air and water triplicity
+export const TRIPLICITIES: Triplicity[] = [
+  { day: 'Sun', night: 'Jupiter', participating: 'Saturn' },
+  { day: 'Venus', night: 'Moon', participating: 'Mars' },
+  { day: 'Saturn', night: 'Mercury', participating: 'Jupiter' },
+  { day: 'Venus', night: 'Mars', participating: 'Moon' }
+]
+
+// Egyptian terms, [RULER, END DEGREE OF THE TERM] for each sign
+export const EGYPTIAN_TERMS: Term[][] = [
+  [['Jupiter', 6], ['Venus', 12], ['Mercury', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 8], ['Mercury', 14], ['Jupiter', 22], ['Saturn', 27], ['Mars', 30]],
+  [['Mercury', 6], ['Jupiter', 12], ['Venus', 17], ['Mars', 24], ['Saturn', 30]],
+  [['Mars', 7], ['Venus', 13], ['Mercury', 19], ['Jupiter', 26], ['Saturn', 30]],
+  [['Jupiter', 6], ['Venus', 11], ['Saturn', 18], ['Mercury', 24], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 17], ['Jupiter', 21], ['Mars', 28], ['Saturn', 30]],
+  [['Saturn', 6], ['Mercury', 14], ['Jupiter', 21], ['Venus', 28], ['Mars', 30]],
+  [['Mars', 7], ['Venus', 11], ['Mercury', 19], ['Jupiter', 24], ['Saturn', 30]],
+  [['Jupiter', 12], ['Venus', 17], ['Mercury', 21], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Jupiter', 14], ['Venus', 22], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 13], ['Jupiter', 20], ['Mars', 25], ['Saturn', 30]],
+  [['Venus', 12], ['Jupiter', 16], ['Mercury', 19], ['Mars', 28], ['Saturn', 30]]
+]
+
+// Ptolemaic terms, Lilly's Christian Astrology
+export const PTOLEMAIC_TERMS: Term[][] = [
+  [['Jupiter', 6], ['Venus', 14], ['Mercury', 21], ['Mars', 26], ['Saturn', 30]],
+  [['Venus', 8], ['Mercury', 15], ['Jupiter', 22], ['Saturn', 26], ['Mars', 30]],
+  [['Mercury', 7], ['Jupiter', 14], ['Venus', 21], ['Saturn', 25], ['Mars', 30]],
+  [['Mars', 6], ['Jupiter', 13], ['Mercury', 20], ['Venus', 27], ['Saturn', 30]],
+  [['Saturn', 6], ['Mercury', 13], ['Venus', 19], ['Jupiter', 25], ['Mars', 30]],
+  [['Mercury', 7], ['Venus', 13], ['Jupiter', 18], ['Saturn', 24], ['Mars', 30]],
+  [['Saturn', 6], ['Venus', 11], ['Jupiter', 19], ['Mercury', 24], ['Mars', 30]],
+  [['Mars', 6], ['Jupiter', 14], ['Venus', 21], ['Mercury', 27], ['Saturn', 30]],
+  [['Jupiter', 8], ['Venus', 14], ['Mercury', 19], ['Saturn', 25], ['Mars', 30]],
+  [['Venus', 6], ['Mercury', 12], ['Jupiter', 19], ['Mars', 25], ['Saturn', 30]],
+  [['Saturn', 6], ['Mercury', 12], ['Venus', 20], ['Jupiter', 25], ['Mars', 30]],
+  [['Venus', 8], ['Jupiter', 14], ['Mercury', 20], ['Mars', 26], ['Saturn', 30]]
+]
+
+// Chaldean faces, rulers of the decans of each sign
+export const CHALDEAN_FACES: string[][] = [
+  ['Mars', 'Sun', 'Venus'],
+  ['Mercury', 'Moon', 'Saturn'],
+  ['Jupiter', 'Mars', 'Sun'],
+  ['Venus', 'Mercury', 'Moon'],
+  ['Saturn', 'Jupiter', 'Mars'],
+  ['Sun', 'Venus', 'Mercury'],
+  ['Moon', 'Saturn', 'Jupiter'],
+  ['Mars', 'Sun', 'Venus'],
+  ['Mercury', 'Moon', 'Saturn'],
+  ['Jupiter', 'Mars', 'Sun'],
+  ['Venus', 'Mercury', 'Moon'],
+  ['Saturn', 'Jupiter', 'Mars']
+]
+
+// Points of William Lilly, the participating triplicity ruler is not counted
+export const LILLY_SCORES: DignityScores = {
+  rulership: 5,
+  exaltation: 4,
+  triplicity: 3,
+  participating: 0,
+  term: 2,
+  face: 1,
+  detriment: -5,
+  fall: -4,
+  peregrine: -5
+}
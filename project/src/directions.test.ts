@@ -0,0 +1,109 @@
+import { direct, getDirectionArc, directionAspects, NAIBOD_RATE } from './directions'
+import { getPosition } from './ephemeris'
+import Chart from './chart'
+import default_settings from './settings'
+
+const natal = {
+  planets: { Sun: [280.5, 1.02], Moon: [100, 13], Mars: [350, -0.3] } as Record<string, number[]>,
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const birthDate = new Date('1990-01-01T12:00:00Z')
+const targetDate = new Date('2020-01-01T12:00:00Z')
+const years = (targetDate.getTime() - birthDate.getTime()) / 86400000 / 365.24219
+
+describe('getDirectionArc', () => {
+  test('should calculate the solar arc from the progressed Sun', () => {
+    const progressed = getPosition('Sun', new Date(birthDate.getTime() + years * 86400000)).longitude
+    const arc = getDirectionArc(birthDate, targetDate)
+    expect(arc).toBeCloseTo(progressed - getPosition('Sun', birthDate).longitude, 6)
+    expect(arc).toBeGreaterThan(30)
+    expect(arc).toBeLessThan(31)
+  })
+
+  test('should calculate symbolic arcs', () => {
+    expect(getDirectionArc(birthDate, targetDate, { method: 'naibod' })).toBeCloseTo(years * NAIBOD_RATE, 6)
+    expect(getDirectionArc(birthDate, targetDate, { method: 'oneDegree' })).toBeCloseTo(30, 1)
+    expect(getDirectionArc(birthDate, targetDate, { method: 'custom', rate: 0.5 })).toBeCloseTo(15, 1)
+  })
+
+  test('should return negative arcs before the birth', () => {
+    const arc = getDirectionArc(birthDate, new Date('1980-01-01T12:00:00Z'))
+    expect(arc).toBeLessThan(-9.5)
+    expect(arc).toBeGreaterThan(-10.5)
+    expect(getDirectionArc(birthDate, new Date('1980-01-01T12:00:00Z'), { method: 'oneDegree' })).toBeCloseTo(-10, 1)
+  })
+
+  test('should use the supplied arc', () => {
+    expect(getDirectionArc(birthDate, targetDate, { arc: 12.5, method: 'naibod' })).toBe(12.5)
+  })
+
+  test('should throw on invalid input', () => {
+    expect(() => getDirectionArc(birthDate, targetDate, { method: 'custom' })).toThrow('Param \'rate\' is required for the custom direction.')
+    expect(() => getDirectionArc(birthDate, targetDate, { method: 'primary' as any })).toThrow('Unknown direction method \'primary\'.')
+    expect(() => getDirectionArc(birthDate, new Date('invalid'))).toThrow('Params \'birthDate\' and \'targetDate\' have to be valid dates.')
+  })
+})
+
+describe('direct', () => {
+  test('should move points and cusps by the arc', () => {
+    const directed = direct(natal, birthDate, targetDate, { arc: 20 })
+    expect(directed.planets).toEqual({ Sun: [300.5], Moon: [120], Mars: [10] })
+    expect(directed.cusps[0]).toBe(20)
+    expect(directed.cusps[11]).toBe(350)
+  })
+
+  test('should throw on invalid data', () => {
+    expect(() => direct({ planets: {}, cusps: [] } as any, birthDate, targetDate)).toThrow()
+  })
+})
+
+describe('directionAspects', () => {
+  test('should find aspects in tight orbs only', () => {
+    const aspects = directionAspects({ Sun: [0], Moon: [90] }, { Sun: [90.8], Mars: [92] })
+    expect(aspects.map(aspect => aspect.point.name + ' ' + aspect.aspect.name + ' ' + aspect.toPoint.name).sort()).toEqual(['Sun conjunction Moon', 'Sun square Sun'])
+  })
+
+  test('should use the aspects of the settings', () => {
+    const settings = { DIRECTION_ASPECTS: { semisquare: { degree: 45, orbit: 1, color: '#FF4500' } } }
+    const aspects = directionAspects({ Sun: [0] }, { Venus: [45.3] }, settings)
+    expect(aspects.length).toBe(1)
+    expect(aspects[0].aspect.name).toBe('semisquare')
+  })
+})
+
+describe('Radix.directions', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  test('should draw the ring of directed points with the label of the method', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    const ring = radix.directions(birthDate, targetDate, { method: 'naibod' })
+    expect(ring.id).toBe(default_settings.ID_DIRECTIONS)
+    expect(ring.data.planets.Moon[0]).toBeCloseTo(100 + years * NAIBOD_RATE, 6)
+    expect(document.getElementById('chart-astrology-' + default_settings.ID_DIRECTIONS)).not.toBeNull()
+    expect(document.getElementById('chart-astrology-' + default_settings.ID_DIRECTIONS + '-' + default_settings.ID_LABEL)?.textContent).toBe('Nb')
+  })
+
+  test('should draw aspects of the direction orbs', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    radix.directions(birthDate, targetDate, { arc: 90.5 }).aspects()
+    const lines = Array.from(document.querySelectorAll('#chart-astrology-' + default_settings.ID_ASPECTS + ' [data-name]'))
+    const aspects = lines.map(line => line.getAttribute('data-point') + ' ' + line.getAttribute('data-name') + ' ' + line.getAttribute('data-toPoint'))
+    expect(aspects).toContain('Moon square Sun')
+    expect(aspects).toContain('Mars square Mars')
+  })
+
+  test('should skip aspects out of the direction orbs', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    radix.directions(birthDate, targetDate, { arc: 93 }).aspects()
+    expect(document.querySelectorAll('#chart-astrology-' + default_settings.ID_ASPECTS + ' [data-name]').length).toBe(0)
+  })
+
+  test('should keep the arc in the sidereal zodiac', () => {
+    const radix = new Chart('chart', 800, 800, { ZODIAC: 'sidereal' }).radix(natal)
+    const ring = radix.directions(birthDate, targetDate, { arc: 10 })
+    expect(ring.data.planets.Sun[0]).toBeCloseTo(radix.data.planets.Sun[0] + 10, 6)
+  })
+})
@@ -0,0 +1,128 @@
+import type { AstroData, Points } from './radix'
+import AspectCalculator from './aspect'
+import type { FormedAspect } from './aspect'
+import type { Settings } from './settings'
+import { getPosition } from './ephemeris'
+import { validate } from './utils'
+
+export type DirectionMethod = 'solarArc' | 'naibod' | 'oneDegree' | 'custom'
+
+export interface DirectionOptions {
+  // 'solarArc' by default
+  method?: DirectionMethod
+  // arc of the direction, degree. It is calculated from the dates when not given
+  arc?: number
+  // degrees per year of the 'custom' method
+  rate?: number
+}
+
+// mean daily motion of the Sun, 0°59'08.33" per year of life
+export const NAIBOD_RATE = 0.98564736
+
+// one degree to both sides
+const DEFAULT_DIRECTION_ASPECTS = {
+  conjunction: { degree: 0, orbit: 2, color: 'transparent' },
+  sextile: { degree: 60, orbit: 2, color: '#27AE60' },
+  square: { degree: 90, orbit: 2, color: '#FF4500' },
+  trine: { degree: 120, orbit: 2, color: '#27AE60' },
+  opposition: { degree: 180, orbit: 2, color: '#27AE60' }
+}
+
+// tropical year, days
+const DAYS_PER_YEAR = 365.24219
+const MILLISECONDS_PER_DAY = 86400000
+
+// short names of the methods for the ring label
+export const DIRECTION_LABELS: Record<DirectionMethod, string> = {
+  solarArc: 'SA',
+  naibod: 'Nb',
+  oneDegree: '1°',
+  custom: 'Dir'
+}
+
+const normalize = (angle: number): number => ((angle % 360) + 360) % 360
+
+/**
+ * Arc of the direction for the date
+ *
+ * The solar arc is the progressed Sun minus the natal Sun, a day after the birth for each year of life,
+ * both calculated by the built-in ephemeris.
+ *
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} targetDate
+ * @param {Object | undefined} options, {method:"naibod"}, {method:"custom", rate:1.5}
+ * @return {double} degree, negative before the birth (converse direction)
+ */
+export const getDirectionArc = (birthDate: Date, targetDate: Date, options?: DirectionOptions): number => {
+  if (options?.arc != null) {
+    return options.arc
+  }
+
+  const years = (targetDate.getTime() - birthDate.getTime()) / MILLISECONDS_PER_DAY / DAYS_PER_YEAR
+  if (isNaN(years)) {
+    throw new Error('Params \'birthDate\' and \'targetDate\' have to be valid dates.')
+  }
+
+  const method = options?.method ?? 'solarArc'
+  switch (method) {
+    case 'solarArc': {
+      const natal = getPosition('Sun', birthDate).longitude
+      const progressed = getPosition('Sun', new Date(birthDate.getTime() + years * MILLISECONDS_PER_DAY)).longitude
+      const arc = normalize(progressed - natal)
+      // the Sun moves about one degree a day, the arc of a converse direction is negative
+      return years < 0 ? arc - 360 : arc
+    }
+    case 'naibod':
+      return years * NAIBOD_RATE
+    case 'oneDegree':
+      return years
+    case 'custom':
+      if (options?.rate == null) {
+        throw new Error('Param \'rate\' is required for the custom direction.')
+      }
+      return years * options.rate
+    default:
+      throw new Error('Unknown direction method \'' + String(method) + '\'.')
+  }
+}
+
+/**
+ * Directed chart, all points and cusps are moved by the same arc
+ *
+ * @param {Object} natal - natal data
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} targetDate
+ * @param {Object | undefined} options, {method:"solarArc", arc:34.5}
+ * @return {Object} directed data, it can be drawn as a ring around the radix
+ */
+export const direct = (natal: AstroData, birthDate: Date, targetDate: Date, options?: DirectionOptions): AstroData => {
+  const status = validate(natal)
+  if (status.hasError) {
+    throw new Error(status.messages.join(' | '))
+  }
+
+  const arc = getDirectionArc(birthDate, targetDate, options)
+
+  // directed points keep only the longitude, they do not move back
+  const planets: Points = {}
+  for (const planet in natal.planets) {
+    if (natal.planets.hasOwnProperty(planet)) {
+      planets[planet] = [normalize(natal.planets[planet][0] + arc)]
+    }
+  }
+
+  return { planets, cusps: natal.cusps.map(cusp => normalize(cusp + arc)) }
+}
+
+/**
+ * Aspects of the directed points to the radix points, @see settings.DIRECTION_ASPECTS
+ *
+ * @param {Object} radixPoints - {"Sun":[0], "As":[120]}
+ * @param {Object} directedPoints - {"Sun":[30]}
+ * @param {Object | undefined} settings
+ * @return {Array<Object>} aspects
+ */
+export const directionAspects = (radixPoints: Points, directedPoints: Points, settings?: Partial<Settings>): FormedAspect[] => {
+  const calculator = new AspectCalculator(radixPoints, { ...settings, ASPECTS: settings?.DIRECTION_ASPECTS ?? DEFAULT_DIRECTION_ASPECTS, TRANSIT_ORBS: null })
+  return calculator.transit(directedPoints)
+}
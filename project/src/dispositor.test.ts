@@ -0,0 +1,83 @@
+import Chart from './chart'
+import { findDispositors } from './dispositor'
+import default_settings from './settings'
+
+const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+
+// Sun in Aries, Mars in Leo, Moon in Cancer, Venus in Capricorn, Saturn in Taurus, Mercury in Scorpio
+const data = {
+  planets: { Sun: [10], Moon: [100], Mercury: [220], Venus: [280], Mars: [130], Saturn: [40] } as Record<string, number[]>,
+  cusps
+}
+
+const treeId = 'chart-' + default_settings.ID_CHART + '-' + default_settings.ID_RADIX + '-' + default_settings.ID_DISPOSITORS
+
+describe('findDispositors', () => {
+  test('should find dispositors by the main ruler of the sign', () => {
+    const result = findDispositors(data, default_settings)
+    expect(result.dispositors).toStrictEqual({ Sun: 'Mars', Moon: 'Moon', Mercury: 'Pluto', Venus: 'Saturn', Mars: 'Sun', Saturn: 'Venus' })
+    expect(result.finalDispositors).toStrictEqual(['Moon'])
+  })
+
+  test('should find mutual receptions and loops', () => {
+    const result = findDispositors(data, default_settings)
+    expect(result.mutualReceptions).toStrictEqual([['Sun', 'Mars'], ['Venus', 'Saturn']])
+    expect(result.chains.Sun).toStrictEqual(['Sun', 'Mars'])
+    expect(result.chains.Venus).toStrictEqual(['Venus', 'Saturn'])
+    expect(result.chains.Moon).toStrictEqual(['Moon'])
+  })
+
+  test('should end chain at a ruler outside of the chart', () => {
+    expect(findDispositors(data, default_settings).chains.Mercury).toStrictEqual(['Mercury', 'Pluto'])
+  })
+
+  test('should use the selected rulership scheme', () => {
+    const result = findDispositors(data, { ...default_settings, RULERSHIP_SCHEME: 'traditional' })
+    expect(result.dispositors.Mercury).toBe('Mars')
+    expect(result.chains.Mercury).toStrictEqual(['Mercury', 'Mars', 'Sun'])
+  })
+
+  test('should follow chain to the final dispositor', () => {
+    // Mars in Aries, Sun in Scorpio, Jupiter in Leo
+    const result = findDispositors({ planets: { Mars: [5], Sun: [215], Jupiter: [125] }, cusps }, { ...default_settings, RULERSHIP_SCHEME: 'traditional' })
+    expect(result.finalDispositors).toStrictEqual(['Mars'])
+    expect(result.chains.Jupiter).toStrictEqual(['Jupiter', 'Sun', 'Mars'])
+    expect(result.mutualReceptions).toStrictEqual([])
+  })
+})
+
+describe('DispositorTree', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div><div id="tree"></div>'
+  })
+
+  test('should draw planets with glyphs under their dispositors', () => {
+    const settings = { RULERSHIP_SCHEME: 'traditional' }
+    const tree = new Chart('chart', 800, 800, settings).radix({ planets: { Mars: [5], Sun: [215], Jupiter: [125] }, cusps }).dispositors()
+    expect(tree.rows).toStrictEqual([['Mars'], ['Sun'], ['Jupiter']])
+
+    const wrapper = document.getElementById(treeId)!
+    expect(wrapper.querySelectorAll('g[data-name]').length).toBe(3)
+    expect(wrapper.querySelector('g[data-name="Sun"]')!.getAttribute('data-dispositor')).toBe('Mars')
+    // final dispositor is circled
+    expect(wrapper.querySelector('g[data-name="Mars"] circle')).not.toBeNull()
+    expect(wrapper.querySelectorAll('line[data-from]').length).toBe(2)
+  })
+
+  test('should draw loops in the top row with a single edge of mutual reception', () => {
+    const tree = new Chart('chart', 800, 800).radix(data).dispositors()
+    expect(tree.rows[0]).toStrictEqual(['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Saturn'])
+
+    const wrapper = document.getElementById(treeId)!
+    const mutual = wrapper.querySelectorAll('line[data-mutual-reception="true"]')
+    expect(mutual.length).toBe(2)
+    expect(tree.getWidth()).toBe(6 * default_settings.DISPOSITORS_CELL_SIZE)
+    expect(tree.getHeight()).toBe(default_settings.DISPOSITORS_CELL_SIZE)
+  })
+
+  test('should draw into separate container', () => {
+    new Chart('chart', 800, 800).radix(data).dispositors({ elementId: 'tree' })
+    expect(document.querySelector('#tree svg')).not.toBeNull()
+    expect(document.querySelectorAll('#tree g[data-name]').length).toBe(6)
+  })
+})
@@ -0,0 +1,245 @@
+import SVG from './svg'
+import Zodiac from './zodiac'
+import type { AstroData } from './radix'
+import type { Settings } from './settings'
+import { getEmptyWrapper } from './utils'
+
+export interface Dispositors {
+  // dispositor of each planet, main ruler of its sign
+  dispositors: Record<string, string>
+  // planets in their own sign
+  finalDispositors: string[]
+  // pairs of planets in the signs of each other
+  mutualReceptions: Array<[string, string]>
+  // path from each planet through its dispositors, ends at the final dispositor,
+  // before the repeated planet of a loop or at a dispositor outside of the chart
+  chains: Record<string, string[]>
+}
+
+export interface DispositorTreeOptions {
+  // ID of a separate container, the tree is drawn into the chart paper by default
+  elementId?: string
+}
+
+/**
+ * Find dispositors of planets
+ *
+ * Uses the rulership scheme of the settings, @see settings.RULERSHIP_SCHEME
+ *
+ * @param {Object} data - chart data, {"planets":{"Sun":[0], "Moon":[90]}, "cusps":[...]}
+ * @param {Object | undefined} settings
+ * @return {Object} {"dispositors":{"Sun":"Mars", "Moon":"Moon"}, "finalDispositors":["Moon"], "mutualReceptions":[], "chains":{"Sun":["Sun", "Mars"], "Moon":["Moon"]}}
+ */
+export const findDispositors = (data: AstroData, settings?: Settings): Dispositors => {
+  const zodiac = new Zodiac(data.cusps, settings)
+  const names = Object.keys(data.planets)
+
+  const dispositors: Record<string, string> = {}
+  names.forEach(name => {
+    dispositors[name] = zodiac.getDispositor(data.planets[name][0])
+  })
+
+  const finalDispositors = names.filter(name => dispositors[name] === name)
+
+  const mutualReceptions: Array<[string, string]> = []
+  names.forEach((name, index) => {
+    const dispositor = dispositors[name]
+    if (dispositor !== name && dispositors[dispositor] === name && names.indexOf(dispositor) > index) {
+      mutualReceptions.push([name, dispositor])
+    }
+  })
+
+  const chains: Record<string, string[]> = {}
+  names.forEach(name => {
+    const chain = [name]
+    let current = name
+    while (dispositors[current] != null && dispositors[current] !== current && !chain.includes(dispositors[current])) {
+      current = dispositors[current]
+      chain.push(current)
+    }
+    chains[name] = chain
+  })
+
+  return { dispositors, finalDispositors, mutualReceptions, chains }
+}
+
+/**
+   * Dispositor tree.
+   *
+   * Final dispositors and loops of dispositors in the top row,
+   * each planet is drawn in the row under its dispositor and connected to it.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {SVG} paper - paper of the chart
+   * @param {String} id - element ID of the tree
+   * @param {Object} result - @see findDispositors()
+   * @param {Object} settings
+   */
+class DispositorTree {
+  paper: SVG
+  id: string
+  result: Dispositors
+  settings: Settings
+  cellSize: number
+  rows: string[][]
+  context: this
+  constructor (paper: SVG, id: string, result: Dispositors, settings: Settings) {
+    this.paper = paper
+    this.id = id
+    this.result = result
+    this.settings = settings
+    this.cellSize = this.settings.DISPOSITORS_CELL_SIZE * this.settings.SYMBOL_SCALE
+    this.rows = this.getRows()
+
+    this.context = this
+  }
+
+  /**
+   * Width of the tree
+   *
+   * @return {Number} px
+   */
+  getWidth (): number {
+    return this.cellSize * Math.max(1, ...this.rows.map(row => row.length))
+  }
+
+  /**
+   * Height of the tree
+   *
+   * @return {Number} px
+   */
+  getHeight (): number {
+    return this.cellSize * Math.max(1, this.rows.length)
+  }
+
+  /**
+   * Draw the tree into the chart paper or into a separate container
+   *
+   * @param {String | undefined} elementId - ID of a separate container
+   * @return {Element} wrapper of the tree
+   */
+  draw (elementId?: string): Element {
+    const padding = this.settings.PADDING * this.settings.SYMBOL_SCALE
+
+    if (elementId != null) {
+      const paper = new SVG(elementId, this.getWidth() + 2 * padding, this.getHeight() + 2 * padding, this.settings, this.paper.pageDocument)
+      return this.drawInto(paper, padding, padding)
+    }
+
+    const position = this.settings.DISPOSITORS_POSITION
+    const x = position.endsWith('left') ? padding : this.paper.width - padding - this.getWidth()
+    const y = position.startsWith('top') ? padding : this.paper.height - padding - this.getHeight()
+    return this.drawInto(this.paper, x, y)
+  }
+
+  /*
+   * Planets by rows, children are ordered by their dispositors
+   * @private
+   */
+  getRows (): string[][] {
+    const dispositors = this.result.dispositors
+    const names = Object.keys(dispositors)
+
+    // planets disposed by themselves, members of a loop and planets disposed by a ruler outside of the chart
+    const rows: string[][] = [names.filter(name => {
+      const chain = this.result.chains[name]
+      return dispositors[name] === name || dispositors[chain[chain.length - 1]] === name || dispositors[dispositors[name]] == null
+    })]
+
+    const placed = rows[0].slice()
+    while (placed.length < names.length) {
+      const parents = rows[rows.length - 1]
+      const row: string[] = []
+      parents.forEach(parent => {
+        names.forEach(name => {
+          if (dispositors[name] === parent && !placed.includes(name)) {
+            row.push(name)
+            placed.push(name)
+          }
+        })
+      })
+
+      if (row.length === 0) {
+        break
+      }
+      rows.push(row)
+    }
+
+    return rows
+  }
+
+  /*
+   * @private
+   * @param {SVG} paper
+   * @param {Number} x - left
+   * @param {Number} y - top
+   */
+  drawInto (paper: SVG, x: number, y: number): Element {
+    const wrapper = getEmptyWrapper(paper.root, paper.root.id + '-' + this.id, paper.root.id)
+    const size = this.cellSize
+    const width = this.getWidth()
+
+    const centers: Record<string, { x: number; y: number }> = {}
+    this.rows.forEach((row, level) => {
+      const shift = (width - row.length * size) / 2
+      row.forEach((name, index) => {
+        centers[name] = { x: x + shift + (index + 0.5) * size, y: y + (level + 0.5) * size }
+      })
+    })
+
+    const drawn: string[] = []
+    for (const name in centers) {
+      if (centers.hasOwnProperty(name)) {
+        const dispositor = this.result.dispositors[name]
+        if (dispositor !== name && centers[dispositor] != null && !drawn.includes(dispositor + '|' + name)) {
+          drawn.push(name + '|' + dispositor)
+          wrapper.appendChild(this.drawEdge(paper, name, dispositor, centers[name], centers[dispositor]))
+        }
+      }
+    }
+
+    for (const name in centers) {
+      if (centers.hasOwnProperty(name)) {
+        const group = paper.renderer.group()
+        group.setAttribute('data-name', name)
+        group.setAttribute('data-dispositor', this.result.dispositors[name])
+        group.appendChild(paper.getSymbol(name, centers[name].x, centers[name].y, this.settings))
+
+        if (this.result.finalDispositors.includes(name)) {
+          const circle = paper.circle(centers[name].x, centers[name].y, size * 0.4)
+          paper.renderer.setStyle(circle, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE, fill: 'none' })
+          group.appendChild(circle)
+        }
+
+        wrapper.appendChild(group)
+      }
+    }
+
+    return wrapper
+  }
+
+  /*
+   * Line from the planet to its dispositor, shortened by the glyphs
+   * @private
+   */
+  drawEdge (paper: SVG, name: string, dispositor: string, from: { x: number; y: number }, to: { x: number; y: number }): Element {
+    const gap = this.cellSize * 0.4
+    const length = Math.sqrt(Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2))
+    const dx = (to.x - from.x) / length * gap
+    const dy = (to.y - from.y) / length * gap
+
+    const line = paper.line(from.x + dx, from.y + dy, to.x - dx, to.y - dy)
+    paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR, strokeWidth: this.settings.CUSPS_STROKE })
+    line.setAttribute('data-from', name)
+    line.setAttribute('data-to', dispositor)
+    if (this.result.dispositors[dispositor] === name) {
+      line.setAttribute('data-mutual-reception', 'true')
+    }
+
+    return line
+  }
+}
+
+export default DispositorTree
@@ -0,0 +1,101 @@
+import { ephemeris, getAstroData, getPosition, EPHEMERIS_BODIES } from './ephemeris'
+import type { EphemerisBody } from './ephemeris'
+import { validate } from './utils'
+
+// one arc-minute and a half
+const TOLERANCE = 0.025
+
+const getDistance = (a: number, b: number): number => Math.abs(((a - b) % 360 + 540) % 360 - 180)
+
+const J2000 = new Date('2000-01-01T12:00:00Z')
+
+describe('ephemeris', () => {
+  test.each([
+    ['Sun', 280.37],
+    ['Moon', 223.32],
+    ['Mercury', 271.89],
+    ['Venus', 241.57],
+    ['Mars', 327.96],
+    ['Jupiter', 25.25],
+    ['Saturn', 40.39],
+    ['Uranus', 314.81],
+    ['Neptune', 303.19],
+    ['Pluto', 251.45],
+    ['NNode', 125.04],
+    ['Lilith', 263.35]
+  ] as Array<[EphemerisBody, number]>)('should calculate the longitude of %s for J2000', (body, longitude) => {
+    expect(getDistance(getPosition(body, J2000).longitude, longitude)).toBeLessThan(TOLERANCE)
+  })
+
+  test('should calculate the Moon of the Meeus example', () => {
+    const moon = getPosition('Moon', new Date('1992-04-12T00:00:00Z'))
+    expect(getDistance(moon.longitude, 133.167)).toBeLessThan(0.02)
+    expect(Math.abs(moon.latitude + 3.229)).toBeLessThan(0.01)
+  })
+
+  test('should calculate the true node', () => {
+    const mean = getPosition('NNode', J2000, 'mean').longitude
+    const trueNode = getPosition('NNode', J2000, 'true').longitude
+    expect(getDistance(trueNode, 123.95)).toBeLessThan(0.05)
+    expect(getDistance(mean, trueNode)).toBeGreaterThan(1)
+  })
+
+  test('should return points with longitude, speed, latitude and declination', () => {
+    const points = ephemeris(J2000)
+    expect(Object.keys(points)).toEqual(EPHEMERIS_BODIES)
+    Object.keys(points).forEach(body => {
+      expect(points[body].length).toBe(4)
+    })
+
+    expect(points.Sun[1]).toBeCloseTo(1.02, 1)
+    expect(points.Moon[1]).toBeGreaterThan(11)
+    expect(points.NNode[1]).toBeLessThan(0)
+    expect(points.Pluto[2]).toBeCloseTo(10.86, 1)
+    expect(points.Sun[3]).toBeCloseTo(-23.03, 1)
+  })
+
+  test('should mark retrograde planets by negative speed', () => {
+    const points = ephemeris(new Date('1990-06-15T00:00:00Z'), { bodies: ['Saturn', 'Jupiter'] })
+    expect(points.Saturn[1]).toBeLessThan(0)
+    expect(points.Jupiter[1]).toBeGreaterThan(0)
+  })
+
+  test('should reach the obliquity in the solstice', () => {
+    const points = ephemeris(new Date('2020-06-20T21:44:00Z'), { bodies: ['Sun'] })
+    expect(getDistance(points.Sun[0], 90)).toBeLessThan(0.01)
+    expect(points.Sun[3]).toBeCloseTo(23.44, 2)
+  })
+
+  test('should calculate only the given bodies', () => {
+    expect(Object.keys(ephemeris(J2000, { bodies: ['Moon', 'Sun'] }))).toEqual(['Moon', 'Sun'])
+  })
+
+  test('should throw on invalid input', () => {
+    expect(() => ephemeris(new Date('invalid'))).toThrow('Param \'date\' has to be a valid date.')
+    expect(() => getPosition('Chiron' as EphemerisBody, J2000)).toThrow('Unknown body \'Chiron\'.')
+  })
+})
+
+describe('getAstroData', () => {
+  test('should build equal houses from the Sun without location', () => {
+    const data = getAstroData(J2000)
+    expect(validate(data).hasError).toBe(false)
+    expect(data.cusps[0]).toBeCloseTo(data.planets.Sun[0])
+    expect(data.cusps[3]).toBeCloseTo((data.planets.Sun[0] + 90) % 360)
+  })
+
+  test('should build houses for the location', () => {
+    const data = getAstroData(J2000, { location: { latitude: 51.5, longitude: 0 } })
+    expect(validate(data).hasError).toBe(false)
+    // the Sun culminates in the noon
+    expect(getDistance(data.cusps[9], data.planets.Sun[0])).toBeLessThan(1)
+    expect(getDistance(data.cusps[0], 24.29)).toBeLessThan(0.1)
+  })
+
+  test('should use the house system and its fallback', () => {
+    const location = { latitude: 70, longitude: 20 }
+    expect(() => getAstroData(J2000, { location })).toThrow('House system \'placidus\' is not defined for latitude 70.')
+    const data = getAstroData(J2000, { location, fallback: 'porphyry' })
+    expect(data.cusps).toEqual(getAstroData(J2000, { location, houseSystem: 'porphyry' }).cusps)
+  })
+})
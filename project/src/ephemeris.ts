@@ -0,0 +1,376 @@
+import type { AstroData, Points } from './radix'
+import { houses } from './houses'
+import type { HouseSystem } from './houses'
+import { degreeToRadians, radiansToDegree, getDeclination } from './utils'
+import { J2000, dateToJulianDay, toTerrestrialTime, getNutation, getObliquity, getLocalSiderealTime } from './time'
+
+export type EphemerisBody = 'Sun' | 'Moon' | 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn' | 'Uranus' | 'Neptune' | 'Pluto' | 'NNode' | 'Lilith'
+
+export type LunarNode = 'mean' | 'true'
+
+export interface EphemerisOptions {
+  // bodies to calculate, all of them by default
+  bodies?: EphemerisBody[]
+  // 'mean' or 'true' lunar node
+  node?: LunarNode
+}
+
+export interface GeoLocation {
+  // north is positive, degree
+  latitude: number
+  // east is positive, degree
+  longitude: number
+}
+
+export interface AstroDataOptions extends EphemerisOptions {
+  // geographic position of the chart, without it the cusps are equal houses from the Sun
+  location?: GeoLocation
+  // 'placidus' by default
+  houseSystem?: HouseSystem
+  // system used in polar latitudes, @see houses()
+  fallback?: HouseSystem
+}
+
+export interface EclipticPosition {
+  // geocentric apparent longitude of the date, degree
+  longitude: number
+  // geocentric latitude, degree
+  latitude: number
+}
+
+// Keplerian elements for the day 0.0 of Jan 2000 and their daily changes, [VALUE, RATE]
+// N - longitude of the ascending node, i - inclination, w - argument of perihelion,
+// a - semi-major axis (AU), e - eccentricity, M - mean anomaly.
+// Paul Schlyter, How to compute planetary positions, the ecliptic and equinox of the date
+interface OrbitalElements {
+  N: [number, number]
+  i: [number, number]
+  w: [number, number]
+  a: [number, number]
+  e: [number, number]
+  M: [number, number]
+}
+
+const ORBITAL_ELEMENTS: Record<string, OrbitalElements> = {
+  Mercury: { N: [48.3313, 3.24587e-5], i: [7.0047, 5.00e-8], w: [29.1241, 1.01444e-5], a: [0.387098, 0], e: [0.205635, 5.59e-10], M: [168.6562, 4.0923344368] },
+  Venus: { N: [76.6799, 2.46590e-5], i: [3.3946, 2.75e-8], w: [54.8910, 1.38374e-5], a: [0.723330, 0], e: [0.006773, -1.302e-9], M: [48.0052, 1.6021302244] },
+  Mars: { N: [49.5574, 2.11081e-5], i: [1.8497, -1.78e-8], w: [286.5016, 2.92961e-5], a: [1.523688, 0], e: [0.093405, 2.516e-9], M: [18.6021, 0.5240207766] },
+  Jupiter: { N: [100.4542, 2.76854e-5], i: [1.3030, -1.557e-7], w: [273.8777, 1.64505e-5], a: [5.20256, 0], e: [0.048498, 4.469e-9], M: [19.8950, 0.0830853001] },
+  Saturn: { N: [113.6634, 2.38980e-5], i: [2.4886, -1.081e-7], w: [339.3939, 2.97661e-5], a: [9.55475, 0], e: [0.055546, -9.499e-9], M: [316.9670, 0.0334442282] },
+  Uranus: { N: [74.0005, 1.3978e-5], i: [0.7733, 1.9e-8], w: [96.6612, 3.0565e-5], a: [19.18171, -1.55e-8], e: [0.047318, 7.45e-9], M: [142.5905, 0.011725806] },
+  Neptune: { N: [131.7806, 3.0173e-5], i: [1.7700, -2.55e-7], w: [272.8461, -6.027e-6], a: [30.05826, 3.313e-8], e: [0.008606, 2.15e-9], M: [260.2471, 0.005995147] }
+}
+
+// Periodic terms of the Moon, Jean Meeus, Astronomical Algorithms, chapter 47.
+// [D, M, M', F, COEFFICIENT] of the longitude and latitude, 0.000001 degree
+const MOON_LONGITUDE_TERMS: number[][] = [
+  [0, 0, 1, 0, 6288774], [2, 0, -1, 0, 1274027], [2, 0, 0, 0, 658314], [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116], [0, 0, 0, 2, -114332], [2, 0, -2, 0, 58793], [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322], [2, -1, 0, 0, 45758], [0, 1, -1, 0, -40923], [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383], [2, 0, 0, -2, 15327], [0, 0, 1, 2, -12528], [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675], [0, 0, 3, 0, 10034], [4, 0, -2, 0, 8548], [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766], [1, 0, -1, 0, -5163], [1, 1, 0, 0, 4987], [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994], [4, 0, 0, 0, 3861], [2, 0, -3, 0, 3665], [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602], [2, -1, -2, 0, 2390], [1, 0, 1, 0, -2348], [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120], [0, 2, 0, 0, -2069]
+]
+
+const MOON_LATITUDE_TERMS: number[][] = [
+  [0, 0, 0, 1, 5128122], [0, 0, 1, 1, 280602], [0, 0, 1, -1, 277693], [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413], [2, 0, -1, -1, 46271], [2, 0, 0, 1, 32573], [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266], [0, 0, 2, -1, 8822], [2, -1, 0, -1, 8216], [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200], [2, 1, 0, -1, -3359], [2, -1, -1, 1, 2463], [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065], [0, 1, -1, -1, -1870], [4, 0, -1, -1, 1828], [0, 1, 0, 1, -1794]
+]
+
+export const EPHEMERIS_BODIES: EphemerisBody[] = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto', 'NNode', 'Lilith']
+
+// day 0.0 of the orbital elements
+const ELEMENTS_EPOCH = 2451543.5
+const MILLISECONDS_PER_DAY = 86400000
+// half of the interval for the speed, day
+const SPEED_STEP = 0.5
+
+const normalize = (angle: number): number => ((angle % 360) + 360) % 360
+
+const sin = (angle: number): number => Math.sin(degreeToRadians(angle))
+const cos = (angle: number): number => Math.cos(degreeToRadians(angle))
+
+/**
+ * Geometric position of the Sun, Meeus chapter 25
+ *
+ * @param {double} T - Julian centuries from J2000
+ * @return {Object} {longitude, distance}, degree and AU
+ */
+const getSun = (T: number): { longitude: number; distance: number } => {
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T
+  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * sin(M) + (0.019993 - 0.000101 * T) * sin(2 * M) + 0.000289 * sin(3 * M)
+  const anomaly = M + C
+  return {
+    longitude: normalize(L0 + C),
+    distance: 1.000001018 * (1 - e * e) / (1 + e * cos(anomaly))
+  }
+}
+
+/**
+ * Geocentric position of the Moon, Meeus chapter 47
+ *
+ * @param {double} T - Julian centuries from J2000
+ * @return {Object} {longitude, latitude}, degree
+ */
+const getMoon = (T: number): EclipticPosition => {
+  const L = 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T + T * T * T / 538841
+  const D = 297.8501921 + 445267.1114034 * T - 0.0018819 * T * T + T * T * T / 545868
+  const M = 357.5291092 + 35999.0502909 * T - 0.0001536 * T * T
+  const Mm = 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T + T * T * T / 69699
+  const F = 93.2720950 + 483202.0175233 * T - 0.0036539 * T * T
+  const A1 = 119.75 + 131.849 * T
+  const A2 = 53.09 + 479264.290 * T
+  const A3 = 313.45 + 481266.484 * T
+  // decreasing eccentricity of the Earth orbit
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T
+
+  const sum = (terms: number[][], fn: (angle: number) => number): number => terms.reduce((total, [d, m, mm, f, coefficient]) => {
+    return total + coefficient * Math.pow(E, Math.abs(m)) * fn(d * D + m * M + mm * Mm + f * F)
+  }, 0)
+
+  const longitude = sum(MOON_LONGITUDE_TERMS, sin) + 3958 * sin(A1) + 1962 * sin(L - F) + 318 * sin(A2)
+  const latitude = sum(MOON_LATITUDE_TERMS, sin) - 2235 * sin(L) + 382 * sin(A3) + 175 * sin(A1 - F) + 175 * sin(A1 + F) + 127 * sin(L - Mm) - 115 * sin(L + Mm)
+
+  return { longitude: normalize(L + longitude / 1000000), latitude: latitude / 1000000 }
+}
+
+/**
+ * Lunar node and apogee, Meeus chapter 47
+ *
+ * @param {double} T - Julian centuries from J2000
+ * @param {EphemerisBody} body - 'NNode' or 'Lilith'
+ * @param {LunarNode} node
+ * @return {double} longitude, degree
+ */
+const getLunarPoint = (T: number, body: EphemerisBody, node: LunarNode): number => {
+  if (body === 'Lilith') {
+    // mean apogee, opposite to the mean perigee
+    return normalize(83.3532465 + 4069.0137287 * T - 0.0103200 * T * T - T * T * T / 80053 + 180)
+  }
+
+  const mean = 125.0445479 - 1934.1362891 * T + 0.0020754 * T * T + T * T * T / 467441
+  if (node === 'mean') {
+    return normalize(mean)
+  }
+
+  const D = 297.8501921 + 445267.1114034 * T
+  const M = 357.5291092 + 35999.0502909 * T
+  const Mm = 134.9633964 + 477198.8675055 * T
+  const F = 93.2720950 + 483202.0175233 * T
+  return normalize(mean - 1.4979 * sin(2 * (D - F)) - 0.1500 * sin(M) - 0.1226 * sin(2 * D) + 0.1176 * sin(2 * F) - 0.0801 * sin(2 * (Mm - F)))
+}
+
+/**
+ * Mean anomaly from the orbital elements
+ *
+ * @param {String} planet
+ * @param {double} d - days from the epoch of the elements
+ * @return {double} degree
+ */
+const getMeanAnomaly = (planet: string, d: number): number => {
+  const M = ORBITAL_ELEMENTS[planet].M
+  return normalize(M[0] + M[1] * d)
+}
+
+/**
+ * Heliocentric position of the planet
+ *
+ * @param {String} planet
+ * @param {double} d - days from the epoch of the elements
+ * @return {Array<double>} [LONGITUDE, LATITUDE, DISTANCE], degree and AU
+ */
+const getHeliocentric = (planet: string, d: number): number[] => {
+  const elements = ORBITAL_ELEMENTS[planet]
+  const N = elements.N[0] + elements.N[1] * d
+  const i = elements.i[0] + elements.i[1] * d
+  const w = elements.w[0] + elements.w[1] * d
+  const a = elements.a[0] + elements.a[1] * d
+  const e = elements.e[0] + elements.e[1] * d
+  const M = degreeToRadians(getMeanAnomaly(planet, d))
+
+  // Kepler's equation
+  let E = M + e * Math.sin(M) * (1 + e * Math.cos(M))
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const delta = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E))
+    E -= delta
+    if (Math.abs(delta) < 1e-12) {
+      break
+    }
+  }
+
+  const xv = a * (Math.cos(E) - e)
+  const yv = a * Math.sqrt(1 - e * e) * Math.sin(E)
+  const v = radiansToDegree(Math.atan2(yv, xv))
+  const r = Math.sqrt(xv * xv + yv * yv)
+
+  const x = r * (cos(N) * cos(v + w) - sin(N) * sin(v + w) * cos(i))
+  const y = r * (sin(N) * cos(v + w) + cos(N) * sin(v + w) * cos(i))
+  const z = r * sin(v + w) * sin(i)
+
+  let longitude = radiansToDegree(Math.atan2(y, x))
+  let latitude = radiansToDegree(Math.atan2(z, Math.sqrt(x * x + y * y)))
+
+  // mutual perturbations of the giant planets
+  const Mj = getMeanAnomaly('Jupiter', d)
+  const Ms = getMeanAnomaly('Saturn', d)
+  const Mu = getMeanAnomaly('Uranus', d)
+  if (planet === 'Jupiter') {
+    longitude += -0.332 * sin(2 * Mj - 5 * Ms - 67.6) - 0.056 * sin(2 * Mj - 2 * Ms + 21) + 0.042 * sin(3 * Mj - 5 * Ms + 21) -
+      0.036 * sin(Mj - 2 * Ms) + 0.022 * cos(Mj - Ms) + 0.023 * sin(2 * Mj - 3 * Ms + 52) - 0.016 * sin(Mj - 5 * Ms - 69)
+  } else if (planet === 'Saturn') {
+    longitude += 0.812 * sin(2 * Mj - 5 * Ms - 67.6) - 0.229 * cos(2 * Mj - 4 * Ms - 2) + 0.119 * sin(Mj - 2 * Ms - 3) +
+      0.046 * sin(2 * Mj - 6 * Ms - 69) + 0.014 * sin(Mj - 3 * Ms + 32)
+    latitude += -0.020 * cos(2 * Mj - 4 * Ms - 2) + 0.018 * sin(2 * Mj - 6 * Ms - 49)
+  } else if (planet === 'Uranus') {
+    longitude += 0.040 * sin(Ms - 2 * Mu + 6) + 0.035 * sin(Ms - 3 * Mu + 33) - 0.015 * sin(Mj - Mu + 20)
+  }
+
+  return [longitude, latitude, r]
+}
+
+/**
+ * Heliocentric position of Pluto, a fit valid for years 1800 - 2100
+ *
+ * @param {double} d - days from the epoch of the elements
+ * @param {double} T - Julian centuries from J2000
+ * @return {Array<double>} [LONGITUDE, LATITUDE, DISTANCE], degree and AU
+ */
+const getPluto = (d: number, T: number): number[] => {
+  const S = 50.03 + 0.033459652 * d
+  const P = 238.95 + 0.003968789 * d
+
+  const longitude = 238.9508 + 0.00400703 * d -
+    19.799 * sin(P) + 19.848 * cos(P) + 0.897 * sin(2 * P) - 4.956 * cos(2 * P) +
+    0.610 * sin(3 * P) + 1.211 * cos(3 * P) - 0.341 * sin(4 * P) - 0.190 * cos(4 * P) +
+    0.128 * sin(5 * P) - 0.034 * cos(5 * P) - 0.038 * sin(6 * P) + 0.031 * cos(6 * P) +
+    0.020 * sin(S - P) - 0.010 * cos(S - P)
+  const latitude = -3.9082 -
+    5.453 * sin(P) - 14.975 * cos(P) + 3.527 * sin(2 * P) + 1.673 * cos(2 * P) -
+    1.051 * sin(3 * P) + 0.328 * cos(3 * P) + 0.179 * sin(4 * P) - 0.292 * cos(4 * P) +
+    0.019 * sin(5 * P) + 0.100 * cos(5 * P) - 0.031 * sin(6 * P) - 0.026 * cos(6 * P) +
+    0.011 * cos(S - P)
+  const distance = 40.72 +
+    6.68 * sin(P) + 6.90 * cos(P) - 1.18 * sin(2 * P) - 0.03 * cos(2 * P) +
+    0.15 * sin(3 * P) - 0.14 * cos(3 * P)
+
+  // the fit is referred to the equinox J2000
+  return [longitude + 1.3969713 * T, latitude, distance]
+}
+
+/**
+ * Geocentric position of the body without the nutation
+ *
+ * @param {EphemerisBody} body
+ * @param {double} julianDay - terrestrial time
+ * @param {LunarNode} node
+ * @return {Object} {longitude, latitude}, degree
+ */
+const getGeometricPosition = (body: EphemerisBody, julianDay: number, node: LunarNode): EclipticPosition => {
+  const T = (julianDay - J2000) / 36525
+  const d = julianDay - ELEMENTS_EPOCH
+
+  switch (body) {
+    case 'Sun': {
+      const sun = getSun(T)
+      // aberration
+      return { longitude: normalize(sun.longitude - 0.0056916 / sun.distance), latitude: 0 }
+    }
+    case 'Moon':
+      return getMoon(T)
+    case 'NNode':
+    case 'Lilith':
+      return { longitude: getLunarPoint(T, body, node), latitude: 0 }
+    default: {
+      if (body !== 'Pluto' && ORBITAL_ELEMENTS[body] == null) {
+        throw new Error('Unknown body \'' + String(body) + '\'.')
+      }
+
+      const [longitude, latitude, distance] = body === 'Pluto' ? getPluto(d, T) : getHeliocentric(body, d)
+      const sun = getSun(T)
+      const x = distance * cos(longitude) * cos(latitude) + sun.distance * cos(sun.longitude)
+      const y = distance * sin(longitude) * cos(latitude) + sun.distance * sin(sun.longitude)
+      const z = distance * sin(latitude)
+
+      return {
+        longitude: normalize(radiansToDegree(Math.atan2(y, x))),
+        latitude: radiansToDegree(Math.atan2(z, Math.sqrt(x * x + y * y)))
+      }
+    }
+  }
+}
+
+/**
+ * Apparent geocentric position of the body
+ *
+ * @param {EphemerisBody} body
+ * @param {Date} date - UTC instant
+ * @param {LunarNode} node - 'mean' by default
+ * @return {Object} {longitude, latitude}, degree
+ */
+export const getPosition = (body: EphemerisBody, date: Date, node: LunarNode = 'mean'): EclipticPosition => {
+  const julianDay = toTerrestrialTime(dateToJulianDay(date))
+  const position = getGeometricPosition(body, julianDay, node)
+  const nutation = getNutation(julianDay).longitude
+  return { longitude: normalize(position.longitude + nutation), latitude: position.latitude }
+}
+
+/**
+ * Positions of the bodies for the instant
+ *
+ * Low precision, about an arc-minute for years 1800 - 2100.
+ *
+ * @param {Date} date - UTC instant
+ * @param {Object | undefined} options, {bodies:["Sun", "Moon"], node:"true"}
+ * @return {Object} points, {"Sun":[LONGITUDE, SPEED, LATITUDE, DECLINATION], ...}
+ */
+export const ephemeris = (date: Date, options?: EphemerisOptions): Points => {
+  const bodies = options?.bodies ?? EPHEMERIS_BODIES
+  const node = options?.node ?? 'mean'
+  const obliquity = getObliquity(toTerrestrialTime(dateToJulianDay(date)))
+
+  const points: Points = {}
+  bodies.forEach(body => {
+    const position = getPosition(body, date, node)
+    const before = getPosition(body, new Date(date.getTime() - SPEED_STEP * MILLISECONDS_PER_DAY), node)
+    const after = getPosition(body, new Date(date.getTime() + SPEED_STEP * MILLISECONDS_PER_DAY), node)
+    const speed = (normalize(after.longitude - before.longitude + 180) - 180) / (2 * SPEED_STEP)
+
+    points[body] = [position.longitude, speed, position.latitude, getDeclination(position.longitude, position.latitude, obliquity)]
+  })
+
+  return points
+}
+
+/**
+ * Chart data for the instant
+ *
+ * @param {Date} date - UTC instant
+ * @param {Object | undefined} options, {location:{latitude:50.08, longitude:14.42}, houseSystem:"koch"}
+ * @return {Object} data, it can be drawn by Chart.radix()
+ */
+export const getAstroData = (date: Date, options?: AstroDataOptions): AstroData => {
+  const planets = ephemeris(date, options)
+
+  if (options?.location == null) {
+    const sun = planets.Sun != null ? planets.Sun[0] : getPosition('Sun', date).longitude
+    return { planets, cusps: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(house => normalize(sun + house * 30)) }
+  }
+
+  const julianDay = dateToJulianDay(date)
+  const obliquity = getObliquity(toTerrestrialTime(julianDay))
+  // apparent sidereal time, corrected by the equation of the equinoxes
+  const ramc = normalize(getLocalSiderealTime(julianDay, options.location.longitude) + getNutation(toTerrestrialTime(julianDay)).longitude * cos(obliquity))
+
+  const fallback = options.fallback != null ? { fallback: options.fallback } : undefined
+  return { planets, cusps: houses(ramc, options.location.latitude, obliquity, options.houseSystem ?? 'placidus', fallback) }
+}
+
+export default ephemeris
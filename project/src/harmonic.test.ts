@@ -0,0 +1,49 @@
+import { harmonic } from './harmonic'
+import { getDeclination, getPointDeclination } from './utils'
+import default_settings from './settings'
+
+const data = {
+  planets: { Sun: [100, 1], Moon: [350, 13], Saturn: [45, -0.05] } as Record<string, number[]>,
+  cusps: [10, 40, 70, 100, 130, 160, 190, 220, 250, 280, 310, 340]
+}
+
+describe('harmonic', () => {
+  test('should multiply positions modulo 360', () => {
+    const result = harmonic(data, 5)
+    expect(result.planets.Sun[0]).toBe(140)
+    expect(result.planets.Moon[0]).toBe(310)
+    expect(result.planets.Saturn[0]).toBe(225)
+  })
+
+  test('should scale speeds', () => {
+    const result = harmonic(data, 7)
+    expect(result.planets.Sun[1]).toBe(7)
+    expect(result.planets.Saturn[1]).toBeCloseTo(-0.35)
+  })
+
+  test('should drop the latitude and declination', () => {
+    const result = harmonic({ planets: { Mars: [100, 0.5, 1.5, 20] }, cusps: data.cusps }, 5)
+    expect(result.planets.Mars).toEqual([140, 2.5])
+    expect(getPointDeclination(result.planets.Mars, default_settings.OBLIQUITY)).toBeCloseTo(getDeclination(140, 0, default_settings.OBLIQUITY), 6)
+  })
+
+  test('should build equal houses from the harmonic ascendant', () => {
+    const result = harmonic(data, 9)
+    expect(result.cusps[0]).toBe(90)
+    expect(result.cusps[1]).toBe(120)
+    expect(result.cusps[11]).toBe(60)
+  })
+
+  test('should keep the chart for the first harmonic', () => {
+    expect(harmonic(data, 1)).toEqual(data)
+  })
+
+  test('should not modify the input', () => {
+    harmonic(data, 5)
+    expect(data.planets.Sun[0]).toBe(100)
+  })
+
+  test.each([0, -3, 2.5])('should throw for harmonic %s', (n) => {
+    expect(() => harmonic(data, n)).toThrow('Harmonic has to be a positive integer')
+  })
+})
@@ -0,0 +1,40 @@
+import { validate } from './utils'
+import type { AstroData, Points } from './radix'
+
+/**
+ * Harmonic chart
+ *
+ * Positions are multiplied by the harmonic number, speeds are scaled too.
+ * Latitudes and declinations are dropped, the declinations are calculated from the harmonic longitudes.
+ * Houses are rebuilt as equal houses from the harmonic Ascendant,
+ * the multiplied cusps would lose their order.
+ *
+ * @param {Object} data - radix data
+ * @param {int} harmonic - harmonic number, e.g. 5, 7, 9
+ * @return {Object} harmonic data, it can be drawn by Chart.radix()
+ */
+export const harmonic = (data: AstroData, harmonic: number): AstroData => {
+  const status = validate(data)
+  if (status.hasError) {
+    throw new Error(status.messages.join(' | '))
+  }
+
+  if (!Number.isInteger(harmonic) || harmonic < 1) {
+    throw new Error('Harmonic has to be a positive integer, given: ' + harmonic.toString() + '.')
+  }
+
+  const planets: Points = {}
+  for (const planet in data.planets) {
+    if (data.planets.hasOwnProperty(planet)) {
+      // [LONGITUDE, SPEED] only, the multiplied latitude or declination would be out of range
+      planets[planet] = data.planets[planet].slice(0, 2).map((value, i) => i === 0 ? (value * harmonic) % 360 : value * harmonic)
+    }
+  }
+
+  const ascendant = (data.cusps[0] * harmonic) % 360
+  const cusps = data.cusps.map((_, i) => (ascendant + i * 30) % 360)
+
+  return { planets, cusps }
+}
+
+export default harmonic
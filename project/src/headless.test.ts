@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import Chart from './chart'
+import { createDocument, serialize } from './headless'
+
+const data = {
+  planets: { Sun: [0], Moon: [90], Mercury: [120], Venus: [180], Mars: [240, -0.5], Jupiter: [300] },
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+describe('createDocument', () => {
+  test('should find elements by id', () => {
+    const doc = createDocument()
+    const div = doc.createElement('div')
+    div.setAttribute('id', 'paper')
+    doc.body.appendChild(div)
+
+    expect(doc.getElementById('paper')).toBe(div)
+    expect(doc.getElementById('unknown')).toBeNull()
+  })
+
+  test('should convert attribute values to strings', () => {
+    const doc = createDocument()
+    const line = doc.createElementNS('http://www.w3.org/2000/svg', 'line')
+    line.setAttribute('x1', 1.5 as any)
+
+    expect(line.getAttribute('x1')).toBe('1.5')
+  })
+
+  test('should remove children', () => {
+    const doc = createDocument()
+    const g = doc.createElementNS('http://www.w3.org/2000/svg', 'g')
+    g.appendChild(doc.createElementNS('http://www.w3.org/2000/svg', 'line'))
+    g.removeChild(g.lastChild as ChildNode)
+
+    expect(g.childNodes.length).toBe(0)
+  })
+
+  test('should insert children before the reference node', () => {
+    const doc = createDocument()
+    const g = doc.createElementNS('http://www.w3.org/2000/svg', 'g')
+    const line = g.appendChild(doc.createElementNS('http://www.w3.org/2000/svg', 'line'))
+    const path = g.insertBefore(doc.createElementNS('http://www.w3.org/2000/svg', 'path'), line)
+    g.insertBefore(doc.createElementNS('http://www.w3.org/2000/svg', 'circle'), null)
+
+    expect(Array.from(g.childNodes).map(node => (node as Element).localName)).toEqual(['path', 'line', 'circle'])
+    expect(path.parentNode).toBe(g)
+  })
+})
+
+describe('serialize', () => {
+  test('should add namespace to the root and escape values', () => {
+    const doc = createDocument()
+    const svg = doc.createElementNS('http://www.w3.org/2000/svg', 'svg')
+    const text = doc.createElementNS('http://www.w3.org/2000/svg', 'text')
+    text.setAttribute('font-family', '"serif"')
+    text.appendChild(doc.createTextNode('a<b&c'))
+    svg.appendChild(text)
+    svg.appendChild(doc.createElementNS('http://www.w3.org/2000/svg', 'g'))
+
+    expect(serialize(svg)).toBe('<svg xmlns="http://www.w3.org/2000/svg"><text font-family="&quot;serif&quot;">a&lt;b&amp;c</text><g/></svg>')
+  })
+})
+
+describe('Chart.renderToString', () => {
+  test('should render without a browser DOM', () => {
+    expect(typeof document).toBe('undefined')
+
+    const svg = Chart.renderToString(data)
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+    expect(svg).toContain('id="astrochart-astrology-radix"')
+    expect(svg).toContain('id="astrochart-astrology-aspects"')
+  })
+
+  test('should use size from options', () => {
+    const svg = Chart.renderToString(data, {}, { width: 300, height: 200 })
+    expect(svg).toContain('viewBox="0 0 300 200"')
+  })
+
+  test('should render transit', () => {
+    const svg = Chart.renderToString(data, {}, { transit: data })
+    expect(svg).toContain('id="astrochart-astrology-transit"')
+  })
+})
@@ -0,0 +1,254 @@
+const ELEMENT_NODE = 1
+const TEXT_NODE = 3
+
+interface VirtualAttribute { name: string; value: string; namespaceURI: string | null }
+
+/**
+   * Text node of the in-memory tree.
+   *
+   * @class
+   * @private
+   * @constructor
+   * @param {String} data
+   */
+class VirtualText {
+  nodeType: number
+  nodeValue: string
+  parentNode: VirtualElement | null
+  constructor (data: string) {
+    this.nodeType = TEXT_NODE
+    this.nodeValue = data
+    this.parentNode = null
+  }
+
+  get textContent (): string {
+    return this.nodeValue
+  }
+}
+
+/**
+   * Element of the in-memory tree.
+   *
+   * Implements only the subset of the DOM Element API used by the drawing code.
+   *
+   * @class
+   * @private
+   * @constructor
+   * @param {VirtualDocument} ownerDocument
+   * @param {String | null} namespaceURI
+   * @param {String} localName
+   */
+class VirtualElement {
+  nodeType: number
+  namespaceURI: string | null
+  localName: string
+  ownerDocument: VirtualDocument
+  parentNode: VirtualElement | null
+  attributes: VirtualAttribute[]
+  childNodes: Array<VirtualElement | VirtualText>
+  constructor (ownerDocument: VirtualDocument, namespaceURI: string | null, localName: string) {
+    this.nodeType = ELEMENT_NODE
+    this.namespaceURI = namespaceURI
+    this.localName = localName
+    this.ownerDocument = ownerDocument
+    this.parentNode = null
+    this.attributes = []
+    this.childNodes = []
+  }
+
+  get tagName (): string {
+    return this.localName
+  }
+
+  get id (): string {
+    return this.getAttribute('id') ?? ''
+  }
+
+  get firstChild (): VirtualElement | VirtualText | null {
+    return this.childNodes.length > 0 ? this.childNodes[0] : null
+  }
+
+  get lastChild (): VirtualElement | VirtualText | null {
+    return this.childNodes.length > 0 ? this.childNodes[this.childNodes.length - 1] : null
+  }
+
+  get children (): VirtualElement[] {
+    return this.childNodes.filter((node): node is VirtualElement => node.nodeType === ELEMENT_NODE)
+  }
+
+  get textContent (): string {
+    return this.childNodes.map(node => node.textContent).join('')
+  }
+
+  getAttribute (name: string): string | null {
+    const attribute = this.attributes.find(attr => attr.name === name)
+    return attribute != null ? attribute.value : null
+  }
+
+  hasAttribute (name: string): boolean {
+    return this.getAttribute(name) != null
+  }
+
+  setAttribute (name: string, value: unknown): void {
+    this.setAttributeNS(null, name, value)
+  }
+
+  setAttributeNS (namespaceURI: string | null, name: string, value: unknown): void {
+    const attribute = this.attributes.find(attr => attr.name === name)
+    if (attribute != null) {
+      attribute.value = String(value)
+      return
+    }
+    this.attributes.push({ name, value: String(value), namespaceURI })
+  }
+
+  removeAttribute (name: string): void {
+    this.attributes = this.attributes.filter(attr => attr.name !== name)
+  }
+
+  appendChild<T extends VirtualElement | VirtualText>(node: T): T {
+    if (node.parentNode != null) {
+      node.parentNode.removeChild(node)
+    }
+    node.parentNode = this
+    this.childNodes.push(node)
+    return node
+  }
+
+  insertBefore<T extends VirtualElement | VirtualText>(node: T, child: VirtualElement | VirtualText | null): T {
+    if (child === node) {
+      return node
+    }
+    if (node.parentNode != null) {
+      node.parentNode.removeChild(node)
+    }
+    const index = child != null ? this.childNodes.indexOf(child) : this.childNodes.length
+    if (index === -1) {
+      throw new Error('The node before which the new node is to be inserted is not a child of this node.')
+    }
+    node.parentNode = this
+    this.childNodes.splice(index, 0, node)
+    return node
+  }
+
+  removeChild<T extends VirtualElement | VirtualText>(node: T): T {
+    const index = this.childNodes.indexOf(node)
+    if (index === -1) {
+      throw new Error('The node to be removed is not a child of this node.')
+    }
+    this.childNodes.splice(index, 1)
+    node.parentNode = null
+    return node
+  }
+}
+
+/**
+   * Lightweight in-memory document.
+   *
+   * Allows to draw charts without a browser, e.g. in Node.js.
+   *
+   * @class
+   * @public
+   * @constructor
+   */
+class VirtualDocument {
+  documentElement: VirtualElement
+  body: VirtualElement
+  constructor () {
+    this.documentElement = new VirtualElement(this, null, 'html')
+    this.body = this.documentElement.appendChild(new VirtualElement(this, null, 'body'))
+  }
+
+  createElement (localName: string): VirtualElement {
+    return new VirtualElement(this, null, localName)
+  }
+
+  createElementNS (namespaceURI: string | null, qualifiedName: string): VirtualElement {
+    return new VirtualElement(this, namespaceURI, qualifiedName)
+  }
+
+  createTextNode (data: string): VirtualText {
+    return new VirtualText(data)
+  }
+
+  getElementById (elementId: string): VirtualElement | null {
+    const stack: VirtualElement[] = [this.documentElement]
+    while (stack.length > 0) {
+      const element = stack.pop() as VirtualElement
+      if (element.id === elementId) {
+        return element
+      }
+      const children = element.children
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push(children[i])
+      }
+    }
+    return null
+  }
+}
+
+/**
+ * Create an in-memory document usable in place of the browser one.
+ *
+ * @return {Document}
+ */
+export const createDocument = (): Document => {
+  return new VirtualDocument() as unknown as Document
+}
+
+const escapeText = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+const escapeAttribute = (value: string): string => {
+  return escapeText(value).replace(/"/g, '&quot;')
+}
+
+const serializeNode = (node: Node, parentNamespaceURI: string | null): string => {
+  if (node.nodeType === TEXT_NODE) {
+    return escapeText(node.nodeValue ?? '')
+  }
+
+  if (node.nodeType !== ELEMENT_NODE) {
+    return ''
+  }
+
+  const element = node as Element
+  let result = '<' + element.localName
+
+  let hasXmlns = false
+  for (let i = 0, ln = element.attributes.length; i < ln; i++) {
+    if (element.attributes[i].name === 'xmlns') hasXmlns = true
+  }
+  if (!hasXmlns && element.namespaceURI != null && element.namespaceURI !== parentNamespaceURI) {
+    result += ' xmlns="' + escapeAttribute(element.namespaceURI) + '"'
+  }
+
+  for (let i = 0, ln = element.attributes.length; i < ln; i++) {
+    result += ' ' + element.attributes[i].name + '="' + escapeAttribute(element.attributes[i].value) + '"'
+  }
+
+  if (element.childNodes.length === 0) {
+    return result + '/>'
+  }
+
+  result += '>'
+  for (let i = 0, ln = element.childNodes.length; i < ln; i++) {
+    result += serializeNode(element.childNodes[i], element.namespaceURI)
+  }
+
+  return result + '</' + element.localName + '>'
+}
+
+/**
+ * Serialize an element to a standalone XML string.
+ *
+ * Works for browser elements as well as for the elements of the in-memory document,
+ * the output follows XMLSerializer.
+ *
+ * @param {Element} element
+ * @return {String}
+ */
+export const serialize = (element: Element): string => {
+  return serializeNode(element, null)
+}
@@ -0,0 +1,110 @@
+import { houses, getAscendant, getMidheaven, getRamc } from './houses'
+import type { HouseSystem } from './houses'
+import { validate } from './utils'
+
+const OBLIQUITY = 23.4392911
+const SYSTEMS: HouseSystem[] = ['placidus', 'koch', 'regiomontanus', 'campanus', 'porphyry', 'equal', 'wholeSign', 'alcabitius', 'morinus']
+
+const toRadians = (degree: number): number => degree * Math.PI / 180
+const toDegree = (radians: number): number => radians * 180 / Math.PI
+
+describe('houses', () => {
+  test('should return the MC for the RAMC', () => {
+    expect(getMidheaven(0, OBLIQUITY)).toBeCloseTo(0)
+    expect(getMidheaven(90, OBLIQUITY)).toBeCloseTo(90)
+    expect(getMidheaven(45, OBLIQUITY)).toBeCloseTo(47.46, 1)
+    expect(getRamc(getMidheaven(200, OBLIQUITY), OBLIQUITY)).toBeCloseTo(200)
+  })
+
+  test('should return the ascendant for the RAMC', () => {
+    expect(getAscendant(0, 0, OBLIQUITY)).toBeCloseTo(90)
+    expect(getAscendant(45, 51.5, OBLIQUITY)).toBeCloseTo(148.39, 1)
+  })
+
+  test.each(SYSTEMS)('should return 12 valid cusps for %s', system => {
+    const cusps = houses(45, 51.5, OBLIQUITY, system)
+    expect(cusps.length).toBe(12)
+    expect(validate({ planets: { Sun: [0] }, cusps }).hasError).toBe(false)
+  })
+
+  test.each(['placidus', 'koch', 'regiomontanus', 'campanus', 'porphyry', 'alcabitius'] as HouseSystem[])('should keep the axis for %s', system => {
+    const cusps = houses(45, 51.5, OBLIQUITY, system)
+    expect(cusps[0]).toBeCloseTo(148.39, 1)
+    expect(cusps[9]).toBeCloseTo(47.46, 1)
+    expect(cusps[3]).toBeCloseTo(227.46, 1)
+    expect(cusps[6]).toBeCloseTo(328.39, 1)
+  })
+
+  test('should agree on the equator for the quadrant systems', () => {
+    const expected = houses(120, 0, OBLIQUITY, 'regiomontanus')
+    const systems: HouseSystem[] = ['placidus', 'koch', 'campanus', 'alcabitius']
+    systems.forEach(system => {
+      houses(120, 0, OBLIQUITY, system).forEach((cusp, i) => {
+        expect(cusp).toBeCloseTo(expected[i])
+      })
+    })
+  })
+
+  test('should trisect the semi-arcs for placidus', () => {
+    const ramc = 45
+    const latitude = 51.5
+    const cusps = houses(ramc, latitude, OBLIQUITY, 'placidus')
+
+    const e = toRadians(OBLIQUITY)
+    const getHourAngle = (longitude: number): number => {
+      const l = toRadians(longitude)
+      const ascension = toDegree(Math.atan2(Math.sin(l) * Math.cos(e), Math.cos(l)))
+      return ((ascension - ramc) % 360 + 360) % 360
+    }
+    const getSemiArc = (longitude: number): number => {
+      const declination = Math.asin(Math.sin(e) * Math.sin(toRadians(longitude)))
+      return toDegree(Math.acos(-Math.tan(toRadians(latitude)) * Math.tan(declination)))
+    }
+
+    expect(getHourAngle(cusps[10])).toBeCloseTo(getSemiArc(cusps[10]) / 3)
+    expect(getHourAngle(cusps[11])).toBeCloseTo(2 * getSemiArc(cusps[11]) / 3)
+    expect(getHourAngle(cusps[1])).toBeCloseTo(180 - 2 * (180 - getSemiArc(cusps[1])) / 3)
+    expect(getHourAngle(cusps[2])).toBeCloseTo(180 - (180 - getSemiArc(cusps[2])) / 3)
+  })
+
+  test('should build equal and whole sign houses from the ascendant', () => {
+    const equal = houses(45, 51.5, OBLIQUITY, 'equal')
+    const wholeSign = houses(45, 51.5, OBLIQUITY, 'wholeSign')
+    expect(equal[1]).toBeCloseTo(178.39, 1)
+    expect(equal[11]).toBeCloseTo(118.39, 1)
+    expect(wholeSign).toEqual([120, 150, 180, 210, 240, 270, 300, 330, 0, 30, 60, 90])
+  })
+
+  test('should divide the equator for morinus', () => {
+    const cusps = houses(0, 51.5, OBLIQUITY, 'morinus')
+    expect(cusps[0]).toBeCloseTo(90)
+    expect(cusps[3]).toBeCloseTo(180)
+    expect(cusps[6]).toBeCloseTo(270)
+    expect(cusps[9]).toBeCloseTo(0)
+  })
+
+  test('should mirror the opposite houses', () => {
+    SYSTEMS.forEach(system => {
+      const cusps = houses(200, -33.9, OBLIQUITY, system)
+      for (let i = 0; i < 6; i++) {
+        expect(((cusps[i + 6] - cusps[i]) % 360 + 360) % 360).toBeCloseTo(180)
+      }
+    })
+  })
+
+  test('should throw in polar latitudes for placidus and koch', () => {
+    expect(() => houses(45, 70, OBLIQUITY, 'placidus')).toThrow('House system \'placidus\' is not defined for latitude 70.')
+    expect(() => houses(45, -70, OBLIQUITY, 'koch')).toThrow('House system \'koch\' is not defined for latitude -70.')
+    expect(() => houses(45, 70, OBLIQUITY, 'regiomontanus')).not.toThrow()
+  })
+
+  test('should use the fallback in polar latitudes', () => {
+    expect(houses(45, 70, OBLIQUITY, 'placidus', { fallback: 'porphyry' })).toEqual(houses(45, 70, OBLIQUITY, 'porphyry'))
+    expect(houses(45, 51.5, OBLIQUITY, 'placidus', { fallback: 'porphyry' })).toEqual(houses(45, 51.5, OBLIQUITY, 'placidus'))
+  })
+
+  test('should throw on invalid input', () => {
+    expect(() => houses(45, 90, OBLIQUITY)).toThrow('Latitude has to be between -90 and 90 degrees.')
+    expect(() => houses(45, 50, OBLIQUITY, 'unknown' as HouseSystem)).toThrow('Unknown house system \'unknown\'.')
+  })
+})
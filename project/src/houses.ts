@@ -0,0 +1,231 @@
+import { degreeToRadians, radiansToDegree } from './utils'
+
+export type HouseSystem = 'placidus' | 'koch' | 'regiomontanus' | 'campanus' | 'porphyry' | 'equal' | 'wholeSign' | 'alcabitius' | 'morinus'
+
+export interface HouseOptions {
+  // system used where the required one is not defined, e.g. Placidus or Koch in polar latitudes
+  fallback?: HouseSystem
+}
+
+const SYSTEMS: HouseSystem[] = ['placidus', 'koch', 'regiomontanus', 'campanus', 'porphyry', 'equal', 'wholeSign', 'alcabitius', 'morinus']
+
+// cusps of the houses 11, 12, 2 and 3 as thirds of the quadrants
+const INTERMEDIATE_HOUSES = [1, 2, 4, 5]
+
+const MAX_ITERATIONS = 100
+const PRECISION = 1e-9
+
+const normalize = (angle: number): number => ((angle % 360) + 360) % 360
+
+const sin = (angle: number): number => Math.sin(degreeToRadians(angle))
+const cos = (angle: number): number => Math.cos(degreeToRadians(angle))
+const tan = (angle: number): number => Math.tan(degreeToRadians(angle))
+
+/**
+ * Point of the ecliptic on the house circle crossing the equator in the right ascension
+ *
+ * @param {double} ascension - right ascension of the crossing with the equator, degree
+ * @param {double} pole - elevation of the pole of the house circle, degree
+ * @param {double} obliquity - degree
+ * @return {double} longitude, degree
+ */
+const getCuspByPole = (ascension: number, pole: number, obliquity: number): number => {
+  return normalize(radiansToDegree(Math.atan2(sin(ascension), cos(ascension) * cos(obliquity) - tan(pole) * sin(obliquity))))
+}
+
+const getPolarError = (system: HouseSystem, latitude: number): Error => {
+  return new Error('House system \'' + system + '\' is not defined for latitude ' + latitude.toString() + '.')
+}
+
+/**
+ * Ascensional difference, the diurnal semi-arc is 90 degrees plus it
+ *
+ * @param {double} declination - degree
+ * @param {double} latitude - degree
+ * @param {HouseSystem} system - for the error message
+ * @return {double} degree
+ */
+const getAscensionalDifference = (declination: number, latitude: number, system: HouseSystem): number => {
+  const value = tan(latitude) * tan(declination)
+  if (Math.abs(value) > 1) {
+    throw getPolarError(system, latitude)
+  }
+  return radiansToDegree(Math.asin(value))
+}
+
+/**
+ * Declination of the ecliptic point
+ *
+ * @param {double} longitude - degree
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+const getEclipticDeclination = (longitude: number, obliquity: number): number => {
+  return radiansToDegree(Math.asin(sin(obliquity) * sin(longitude)))
+}
+
+/**
+ * Midheaven, the culminating point of the ecliptic
+ *
+ * @param {double} ramc - right ascension of the MC, degree
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+export const getMidheaven = (ramc: number, obliquity: number): number => {
+  return normalize(radiansToDegree(Math.atan2(sin(ramc), cos(ramc) * cos(obliquity))))
+}
+
+/**
+ * Right ascension of the MC
+ *
+ * @param {double} mc - degree
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+export const getRamc = (mc: number, obliquity: number): number => {
+  return normalize(radiansToDegree(Math.atan2(sin(mc) * cos(obliquity), cos(mc))))
+}
+
+/**
+ * Ascendant, the rising point of the ecliptic
+ *
+ * @param {double} ramc - right ascension of the MC, degree
+ * @param {double} latitude - geographic latitude, degree
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+export const getAscendant = (ramc: number, latitude: number, obliquity: number): number => {
+  return getCuspByPole(ramc + 90, latitude, obliquity)
+}
+
+/**
+ * Cusps of the houses 11, 12, 2 and 3
+ *
+ * @param {HouseSystem} system
+ * @param {double} ramc - degree
+ * @param {double} latitude - degree
+ * @param {double} obliquity - degree
+ * @param {double} ascendant - degree
+ * @return {Array<double>}
+ */
+const getIntermediateCusps = (system: HouseSystem, ramc: number, latitude: number, obliquity: number, ascendant: number): number[] => {
+  // some points of the ecliptic never rise or set in polar latitudes
+  if ((system === 'placidus' || system === 'koch') && Math.abs(latitude) >= 90 - obliquity) {
+    throw getPolarError(system, latitude)
+  }
+
+  switch (system) {
+    case 'placidus':
+      return INTERMEDIATE_HOUSES.map(house => {
+        // houses above the horizon divide the diurnal semi-arc, houses under it the nocturnal one
+        const isDiurnal = house < 3
+        const fraction = isDiurnal ? house / 3 : (6 - house) / 3
+        let cusp = getMidheaven(ramc + house * 30, obliquity)
+        for (let i = 0; i < MAX_ITERATIONS; i++) {
+          const semiArc = 90 + getAscensionalDifference(getEclipticDeclination(cusp, obliquity), latitude, system)
+          const ascension = isDiurnal ? ramc + fraction * semiArc : ramc + 180 - fraction * (180 - semiArc)
+          const next = getMidheaven(ascension, obliquity)
+          const change = Math.abs(normalize(next - cusp + 180) - 180)
+          cusp = next
+          if (change < PRECISION) {
+            break
+          }
+        }
+        return cusp
+      })
+    case 'koch': {
+      // cusps rise when the MC has passed thirds of its diurnal semi-arc
+      const difference = getAscensionalDifference(getEclipticDeclination(getMidheaven(ramc, obliquity), obliquity), latitude, system) / 3
+      return [
+        getCuspByPole(ramc + 30 - 2 * difference, latitude, obliquity),
+        getCuspByPole(ramc + 60 - difference, latitude, obliquity),
+        getCuspByPole(ramc + 120 + difference, latitude, obliquity),
+        getCuspByPole(ramc + 150 + 2 * difference, latitude, obliquity)
+      ]
+    }
+    case 'regiomontanus':
+      // equal parts of the equator
+      return INTERMEDIATE_HOUSES.map(house => {
+        const pole = radiansToDegree(Math.atan(tan(latitude) * sin(house * 30)))
+        return getCuspByPole(ramc + house * 30, pole, obliquity)
+      })
+    case 'campanus':
+      // equal parts of the prime vertical
+      return INTERMEDIATE_HOUSES.map(house => {
+        const pole = radiansToDegree(Math.asin(sin(latitude) * sin(house * 30)))
+        const ascension = radiansToDegree(Math.atan2(sin(house * 30) * cos(latitude), cos(house * 30)))
+        return getCuspByPole(ramc + ascension, pole, obliquity)
+      })
+    case 'alcabitius': {
+      // equal parts of the diurnal and nocturnal semi-arc of the ascendant
+      const semiArc = 90 + getAscensionalDifference(getEclipticDeclination(ascendant, obliquity), latitude, system)
+      return [
+        getMidheaven(ramc + semiArc / 3, obliquity),
+        getMidheaven(ramc + 2 * semiArc / 3, obliquity),
+        getMidheaven(ramc + 180 - 2 * (180 - semiArc) / 3, obliquity),
+        getMidheaven(ramc + 180 - (180 - semiArc) / 3, obliquity)
+      ]
+    }
+    default:
+      throw new Error('Unknown house system \'' + String(system) + '\'.')
+  }
+}
+
+/**
+ * Cusps of the houses
+ *
+ * @param {double} ramc - right ascension of the MC, degree
+ * @param {double} latitude - geographic latitude, degree
+ * @param {double} obliquity - obliquity of the ecliptic, degree
+ * @param {HouseSystem} system - 'placidus' by default
+ * @param {Object | undefined} options, {fallback:"porphyry"}
+ * @return {Array<double>} 12 cusps from the ascendant, they can be drawn by Chart.radix()
+ */
+export const houses = (ramc: number, latitude: number, obliquity: number, system: HouseSystem = 'placidus', options?: HouseOptions): number[] => {
+  if (Math.abs(latitude) >= 90) {
+    throw new Error('Latitude has to be between -90 and 90 degrees.')
+  }
+
+  const mc = getMidheaven(ramc, obliquity)
+  const ascendant = getAscendant(ramc, latitude, obliquity)
+
+  switch (system) {
+    case 'equal':
+      return [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(house => normalize(ascendant + house * 30))
+    case 'wholeSign':
+      return [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(house => normalize(Math.floor(ascendant / 30) * 30 + house * 30))
+    case 'morinus':
+      // equal parts of the equator projected to the ecliptic by its poles
+      return [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(house => {
+        const ascension = ramc + 90 + house * 30
+        return normalize(radiansToDegree(Math.atan2(sin(ascension) * cos(obliquity), cos(ascension))))
+      })
+    case 'porphyry': {
+      // trisected quadrants
+      const axis = [ascendant, normalize(mc + 180), normalize(ascendant + 180), mc]
+      const cusps: number[] = []
+      for (let quadrant = 0; quadrant < 4; quadrant++) {
+        const arc = normalize(axis[(quadrant + 1) % 4] - axis[quadrant])
+        cusps.push(axis[quadrant], normalize(axis[quadrant] + arc / 3), normalize(axis[quadrant] + 2 * arc / 3))
+      }
+      return cusps
+    }
+    default:
+      break
+  }
+
+  let intermediate: number[]
+  try {
+    intermediate = getIntermediateCusps(system, ramc, latitude, obliquity, ascendant)
+  } catch (error) {
+    if (options?.fallback != null && options.fallback !== system && SYSTEMS.includes(system)) {
+      return houses(ramc, latitude, obliquity, options.fallback)
+    }
+    throw error
+  }
+
+  const [c11, c12, c2, c3] = intermediate
+  return [ascendant, c2, c3, normalize(mc + 180), normalize(c11 + 180), normalize(c12 + 180), normalize(ascendant + 180), normalize(c2 + 180), normalize(c3 + 180), mc, c11, c12]
+}
+
+export default houses
@@ -1,6 +1,19 @@
 import Chart from './chart'
-import AspectCalculator from './aspect'
+import AspectCalculator, { ASPECTS_CATALOGUE, LILLY_ORBS } from './aspect'
 import { Settings } from './settings'
+import { createDocument } from './headless'
+import { composite } from './composite'
+import { harmonic } from './harmonic'
+import { findPatterns } from './pattern'
+import { findDispositors } from './dispositor'
+import { houses } from './houses'
+import { ephemeris, getAstroData } from './ephemeris'
+import { builtInProvider, createFixtureProvider } from './provider'
+import { direct, getDirectionArc, directionAspects, NAIBOD_RATE } from './directions'
+import { progress, getProgressedDate } from './progressions'
+import { profect, getProfections, getAge, getLots, getZodiacalReleasing, getFirdaria } from './timelords'
+import { toJulianDay, fromJulianDay, dateToJulianDay, julianDayToDate, getInstant, getDeltaT, toTerrestrialTime, getObliquity, getGreenwichSiderealTime, getLocalSiderealTime, getDecimalYear } from './time'
+import { EGYPTIAN_TERMS, PTOLEMAIC_TERMS, TRADITIONAL_RULERSHIPS, MODERN_RULERSHIPS, MODERN_DIGNITY_RULERSHIPS } from './dignities'
 
-export { Chart, AspectCalculator, Settings }
+export { Chart, AspectCalculator, ASPECTS_CATALOGUE, LILLY_ORBS, Settings, createDocument, composite, harmonic, findPatterns, findDispositors, houses, ephemeris, getAstroData, builtInProvider, createFixtureProvider, direct, getDirectionArc, directionAspects, NAIBOD_RATE, progress, getProgressedDate, profect, getProfections, getAge, getLots, getZodiacalReleasing, getFirdaria, toJulianDay, fromJulianDay, dateToJulianDay, julianDayToDate, getInstant, getDeltaT, toTerrestrialTime, getObliquity, getGreenwichSiderealTime, getLocalSiderealTime, getDecimalYear, EGYPTIAN_TERMS, PTOLEMAIC_TERMS, TRADITIONAL_RULERSHIPS, MODERN_RULERSHIPS, MODERN_DIGNITY_RULERSHIPS }
 export default Chart
\ No newline at end of file
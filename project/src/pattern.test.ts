@@ -0,0 +1,131 @@
+import AspectCalculator from './aspect'
+import { findPatterns } from './pattern'
+import Chart from './chart'
+import default_settings from './settings'
+import type { Points } from './radix'
+
+const ASPECTS = {
+  conjunction: { degree: 0, orbit: 10, color: 'transparent' },
+  sextile: { degree: 60, orbit: 6, color: '#27AE60' },
+  square: { degree: 90, orbit: 8, color: '#FF4500' },
+  trine: { degree: 120, orbit: 8, color: '#27AE60' },
+  quincunx: { degree: 150, orbit: 4, color: '#8B4513' },
+  opposition: { degree: 180, orbit: 10, color: '#27AE60' }
+}
+
+const patternsOf = (planets: Points) => findPatterns(new AspectCalculator(planets, { ASPECTS }).radix(planets))
+
+const names = (planets: Array<{ name: string }>): string[] => planets.map(point => point.name).sort()
+
+describe('findPatterns', () => {
+  test('should find Grand Trine', () => {
+    const patterns = patternsOf({ Sun: [0], Moon: [120], Mars: [240] })
+    expect(patterns.length).toBe(1)
+    expect(patterns[0].name).toBe('grandTrine')
+    expect(names(patterns[0].points)).toEqual(['Mars', 'Moon', 'Sun'])
+    expect(patterns[0].aspects.length).toBe(3)
+    expect(patterns[0].tightness).toBe(1)
+  })
+
+  test('should find T-Square with apex', () => {
+    const patterns = patternsOf({ Sun: [0], Moon: [180], Mars: [90] })
+    expect(patterns.length).toBe(1)
+    expect(patterns[0].name).toBe('tSquare')
+    expect(patterns[0].apex).toBe('Mars')
+  })
+
+  test('should find Grand Cross without its T-Squares', () => {
+    const patterns = patternsOf({ Sun: [0], Moon: [180], Mars: [90], Venus: [270] })
+    expect(patterns.map(pattern => pattern.name)).toEqual(['grandCross'])
+    expect(patterns[0].aspects.length).toBe(6)
+  })
+
+  test('should find Yod', () => {
+    const patterns = patternsOf({ Sun: [0], Moon: [60], Pluto: [210] })
+    expect(patterns.length).toBe(1)
+    expect(patterns[0].name).toBe('yod')
+    expect(patterns[0].apex).toBe('Pluto')
+  })
+
+  test('should find Kite along with its Grand Trine', () => {
+    const patterns = patternsOf({ Sun: [0], Moon: [120], Mars: [240], Venus: [180] })
+    expect(patterns.map(pattern => pattern.name)).toEqual(['kite', 'grandTrine'])
+    expect(names(patterns[0].points)).toEqual(['Mars', 'Moon', 'Sun', 'Venus'])
+    expect(patterns[0].aspects.length).toBe(6)
+  })
+
+  test('should find Stellium of chained conjunctions', () => {
+    const patterns = patternsOf({ Sun: [10], Mercury: [13], Venus: [17], Mars: [200] })
+    expect(patterns.length).toBe(1)
+    expect(patterns[0].name).toBe('stellium')
+    expect(names(patterns[0].points)).toEqual(['Mercury', 'Sun', 'Venus'])
+  })
+
+  test('should not report two conjunctions as stellium', () => {
+    expect(patternsOf({ Sun: [10], Mercury: [13] })).toEqual([])
+  })
+
+  test('should score looser patterns lower', () => {
+    const exact = patternsOf({ Sun: [0], Moon: [120], Mars: [240] })[0]
+    const loose = patternsOf({ Sun: [0], Moon: [123], Mars: [242] })[0]
+    expect(loose.tightness).toBeLessThan(exact.tightness)
+    expect(loose.tightness).toBeGreaterThan(0)
+  })
+
+  test('should score the tightness by the orbs of the orb table', () => {
+    const planets = { Sun: [0], Moon: [121], Mars: [240] }
+    const ORBS = { moieties: { Sun: 1, Moon: 1, Mars: 1 } }
+    const pattern = findPatterns(new AspectCalculator(planets, { ASPECTS, ORBS }).radix(planets))[0]
+    // the orb of 1° is half of the moieties 1° + 1°
+    expect(pattern.tightness).toBeCloseTo(1 - (0.5 + 0.5 + 0) / 3, 6)
+    expect(patternsOf(planets)[0].tightness).toBeCloseTo(1 - (0.25 + 0.25 + 0) / 3, 6)
+  })
+
+  test('should return no patterns for no aspects', () => {
+    expect(findPatterns([])).toEqual([])
+  })
+})
+
+describe('Radix.patterns', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  const data = {
+    planets: { Sun: [0], Moon: [120], Mars: [240] } as Points,
+    cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+  }
+
+  test('should draw patterns beneath the aspects', () => {
+    new Chart('chart', 800, 800).radix(data).aspects().patterns()
+    const root = document.getElementById('chart-' + default_settings.ID_CHART)!
+    expect(root.firstElementChild!.id).toBe('chart-' + default_settings.ID_CHART + '-' + default_settings.ID_PATTERNS)
+    expect(root.children[1].id).toBe('chart-' + default_settings.ID_CHART + '-' + default_settings.ID_ASPECTS)
+  })
+
+  test('should draw a translucent polygon per pattern', () => {
+    new Chart('chart', 800, 800).radix(data).patterns()
+    const polygons = document.querySelectorAll('#chart-' + default_settings.ID_CHART + '-' + default_settings.ID_PATTERNS + ' path')
+    expect(polygons.length).toBe(1)
+    expect(polygons[0].getAttribute('data-name')).toBe('grandTrine')
+    expect(polygons[0].getAttribute('fill')).toBe(default_settings.PATTERNS_COLORS.grandTrine)
+    expect(polygons[0].getAttribute('opacity')).toBe(default_settings.PATTERNS_OPACITY.toString())
+    expect(polygons[0].getAttribute('d')).toMatch(/^M .* L .* L .* Z$/)
+  })
+
+  test('should draw Yod with the default settings', () => {
+    new Chart('chart', 800, 800).radix({ ...data, planets: { Sun: [0], Moon: [60], Pluto: [210] } }).patterns()
+    const polygons = document.querySelectorAll('#chart-' + default_settings.ID_CHART + '-' + default_settings.ID_PATTERNS + ' path')
+    expect(polygons.length).toBe(1)
+    expect(polygons[0].getAttribute('data-name')).toBe('yod')
+    expect(polygons[0].getAttribute('data-points')).toBe('Moon,Pluto,Sun')
+  })
+
+  test('should redraw into the same wrapper', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    radix.patterns()
+    radix.patterns([])
+    expect(document.querySelectorAll('#chart-' + default_settings.ID_CHART + '-' + default_settings.ID_PATTERNS).length).toBe(1)
+    expect(document.querySelectorAll('#chart-' + default_settings.ID_CHART + '-' + default_settings.ID_PATTERNS + ' path').length).toBe(0)
+  })
+})
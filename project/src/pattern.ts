@@ -0,0 +1,241 @@
+import type { FormedAspect } from './aspect'
+
+export type PatternName = 'grandTrine' | 'tSquare' | 'yod' | 'kite' | 'grandCross' | 'stellium'
+
+export interface PatternPoint {
+  name: string
+  position: number
+}
+
+export interface AspectPattern {
+  name: PatternName
+  points: PatternPoint[]
+  // focal point of T-Square and Yod
+  apex?: string
+  aspects: FormedAspect[]
+  // 1 - all aspects are exact, 0 - all aspects are on the edge of the orb
+  tightness: number
+}
+
+const CONJUNCTION = 0
+const SEXTILE = 60
+const SQUARE = 90
+const TRINE = 120
+const QUINCUNX = 150
+const OPPOSITION = 180
+
+// the smallest count of points of stellium
+const STELLIUM_SIZE = 3
+
+/**
+   * Aspects indexed by both points and aspect degree.
+   *
+   * @class
+   * @private
+   * @constructor
+   * @param {Array<Object>} aspects
+   */
+class AspectGraph {
+  positions: Record<string, number>
+  edges: Record<string, FormedAspect>
+  constructor (aspects: FormedAspect[]) {
+    this.positions = {}
+    this.edges = {}
+
+    aspects.forEach(aspect => {
+      this.positions[aspect.point.name] = aspect.point.position
+      this.positions[aspect.toPoint.name] = aspect.toPoint.position
+      this.edges[this.getKey(aspect.point.name, aspect.toPoint.name, aspect.aspect.degree)] = aspect
+    })
+  }
+
+  getKey (a: string, b: string, degree: number): string {
+    return (a < b ? a + '|' + b : b + '|' + a) + '|' + degree.toString()
+  }
+
+  get (a: string, b: string, degree: number): FormedAspect | null {
+    return this.edges[this.getKey(a, b, degree)] ?? null
+  }
+
+  has (a: string, b: string, degree: number): boolean {
+    return a !== b && this.get(a, b, degree) != null
+  }
+
+  names (): string[] {
+    return Object.keys(this.positions).sort()
+  }
+}
+
+/**
+ * All k-element combinations of the items
+ *
+ * @param {Array} items
+ * @param {int} k
+ * @return {Array<Array>}
+ */
+const combinations = <T>(items: T[], k: number): T[][] => {
+  if (k === 0) return [[]]
+  const result: T[][] = []
+  for (let i = 0; i <= items.length - k; i++) {
+    combinations(items.slice(i + 1), k - 1).forEach(rest => result.push([items[i], ...rest]))
+  }
+  return result
+}
+
+/**
+ * Tightness of the aspects, the mean of orbs relative to their maximum.
+ * The maximum is half of the orbit the aspect was found with, moieties and body factors included.
+ *
+ * @param {Array<Object>} aspects
+ * @return {double} <0, 1>
+ */
+const getTightness = (aspects: FormedAspect[]): number => {
+  const sum = aspects.reduce((total, aspect) => {
+    // orbit of the formed aspect comes from AspectCalculator.getOrb(), not from settings.ASPECTS
+    const maxPrecision = aspect.aspect.orbit / 2
+    return total + (maxPrecision > 0 ? aspect.orb / maxPrecision : 0)
+  }, 0)
+  return Math.max(0, 1 - sum / aspects.length)
+}
+
+const createPattern = (graph: AspectGraph, name: PatternName, names: string[], aspects: Array<FormedAspect | null>, apex?: string): AspectPattern => {
+  const patternAspects = aspects as FormedAspect[]
+  const pattern: AspectPattern = {
+    name,
+    points: names.map(point => ({ name: point, position: graph.positions[point] })),
+    aspects: patternAspects,
+    tightness: getTightness(patternAspects)
+  }
+  if (apex != null) pattern.apex = apex
+  return pattern
+}
+
+const findGrandTrines = (graph: AspectGraph): AspectPattern[] => {
+  return combinations(graph.names(), 3)
+    .filter(([a, b, c]) => graph.has(a, b, TRINE) && graph.has(b, c, TRINE) && graph.has(a, c, TRINE))
+    .map(([a, b, c]) => createPattern(graph, 'grandTrine', [a, b, c], [graph.get(a, b, TRINE), graph.get(b, c, TRINE), graph.get(a, c, TRINE)]))
+}
+
+const findGrandCrosses = (graph: AspectGraph): AspectPattern[] => {
+  const result: AspectPattern[] = []
+  combinations(graph.names(), 4).forEach(([a, b, c, d]) => {
+    // oppositions can pair the four points in three ways
+    const pairings = [[a, b, c, d], [a, c, b, d], [a, d, b, c]]
+    pairings.forEach(([p1, p2, p3, p4]) => {
+      if (graph.has(p1, p2, OPPOSITION) && graph.has(p3, p4, OPPOSITION) &&
+        graph.has(p1, p3, SQUARE) && graph.has(p3, p2, SQUARE) && graph.has(p2, p4, SQUARE) && graph.has(p4, p1, SQUARE)) {
+        result.push(createPattern(graph, 'grandCross', [p1, p3, p2, p4], [
+          graph.get(p1, p2, OPPOSITION), graph.get(p3, p4, OPPOSITION),
+          graph.get(p1, p3, SQUARE), graph.get(p3, p2, SQUARE), graph.get(p2, p4, SQUARE), graph.get(p4, p1, SQUARE)
+        ]))
+      }
+    })
+  })
+  return result
+}
+
+/*
+ * Two points in the aspect and the third one (apex) forming the same aspect to both of them
+ */
+const findApexPatterns = (graph: AspectGraph, name: PatternName, baseAspect: number, apexAspect: number): AspectPattern[] => {
+  const result: AspectPattern[] = []
+  const names = graph.names()
+  combinations(names, 2).forEach(([a, b]) => {
+    if (!graph.has(a, b, baseAspect)) return
+    names.forEach(apex => {
+      if (graph.has(apex, a, apexAspect) && graph.has(apex, b, apexAspect)) {
+        result.push(createPattern(graph, name, [a, apex, b], [graph.get(a, b, baseAspect), graph.get(apex, a, apexAspect), graph.get(apex, b, apexAspect)], apex))
+      }
+    })
+  })
+  return result
+}
+
+const findKites = (graph: AspectGraph, grandTrines: AspectPattern[]): AspectPattern[] => {
+  const result: AspectPattern[] = []
+  grandTrines.forEach(trine => {
+    const [a, b, c] = trine.points.map(point => point.name)
+    const vertices = [[a, b, c], [b, c, a], [c, a, b]]
+    vertices.forEach(([head, left, right]) => {
+      graph.names().forEach(tail => {
+        if (graph.has(tail, head, OPPOSITION) && graph.has(tail, left, SEXTILE) && graph.has(tail, right, SEXTILE)) {
+          result.push(createPattern(graph, 'kite', [head, left, tail, right], [
+            ...trine.aspects, graph.get(tail, head, OPPOSITION), graph.get(tail, left, SEXTILE), graph.get(tail, right, SEXTILE)
+          ]))
+        }
+      })
+    })
+  })
+  return result
+}
+
+/*
+ * Groups of points connected by conjunctions
+ */
+const findStelliums = (graph: AspectGraph): AspectPattern[] => {
+  const result: AspectPattern[] = []
+  const visited: Record<string, boolean> = {}
+  const names = graph.names()
+
+  names.forEach(start => {
+    if (visited[start]) return
+
+    const group: string[] = []
+    const stack = [start]
+    visited[start] = true
+    while (stack.length > 0) {
+      const point = stack.pop() as string
+      group.push(point)
+      names.forEach(other => {
+        if (!visited[other] && graph.has(point, other, CONJUNCTION)) {
+          visited[other] = true
+          stack.push(other)
+        }
+      })
+    }
+
+    if (group.length >= STELLIUM_SIZE) {
+      group.sort()
+      const aspects = combinations(group, 2)
+        .filter(([a, b]) => graph.has(a, b, CONJUNCTION))
+        .map(([a, b]) => graph.get(a, b, CONJUNCTION))
+      result.push(createPattern(graph, 'stellium', group, aspects))
+    }
+  })
+
+  return result
+}
+
+const isSubset = (pattern: AspectPattern, of: AspectPattern): boolean => {
+  const names = of.points.map(point => point.name)
+  return pattern.points.every(point => names.includes(point.name))
+}
+
+/**
+ * Find aspect patterns
+ *
+ * Aspects are recognized by their degree: 0, 60, 90, 120, 150 and 180.
+ * T-Squares being a part of a Grand Cross are not listed.
+ *
+ * @param {Array<Object>} aspects - e.g. AspectCalculator.radix()
+ * @return {Array<Object>} [{"name":"grandTrine", "points":[{"name":"Sun", "position":0}, ...], "aspects":[...], "tightness":0.8}]
+ */
+export const findPatterns = (aspects: FormedAspect[]): AspectPattern[] => {
+  const graph = new AspectGraph(aspects)
+
+  const grandCrosses = findGrandCrosses(graph)
+  const grandTrines = findGrandTrines(graph)
+  const tSquares = findApexPatterns(graph, 'tSquare', OPPOSITION, SQUARE)
+    .filter(tSquare => !grandCrosses.some(cross => isSubset(tSquare, cross)))
+
+  return [
+    ...grandCrosses,
+    ...findKites(graph, grandTrines),
+    ...grandTrines,
+    ...tSquares,
+    ...findApexPatterns(graph, 'yod', SEXTILE, QUINCUNX),
+    ...findStelliums(graph)
+  ]
+}
+
+export default findPatterns
@@ -0,0 +1,118 @@
+import { progress, getProgressedDate } from './progressions'
+import { getAstroData, getPosition } from './ephemeris'
+import { getMidheaven, getRamc } from './houses'
+import { NAIBOD_RATE } from './directions'
+import { createFixtureProvider } from './provider'
+import { dateToJulianDay, toTerrestrialTime, getObliquity, getDecimalYear } from './time'
+import Chart from './chart'
+import default_settings from './settings'
+
+const birthDate = new Date('1990-01-01T12:00:00Z')
+const targetDate = new Date('2020-01-01T12:00:00Z')
+const location = { latitude: 50.08, longitude: 14.42 }
+const natal = getAstroData(birthDate, { location })
+const years = (targetDate.getTime() - birthDate.getTime()) / 86400000 / 365.24219
+const obliquity = getObliquity(toTerrestrialTime(dateToJulianDay(birthDate)))
+
+describe('getProgressedDate', () => {
+  test('should add a day for each year of life', () => {
+    expect(getProgressedDate(birthDate, targetDate).getTime()).toBeCloseTo(birthDate.getTime() + years * 86400000, -1)
+    expect(getProgressedDate(birthDate, new Date('1980-01-01T12:00:00Z')).getTime()).toBeLessThan(birthDate.getTime())
+  })
+
+  test('should throw on invalid dates', () => {
+    expect(() => getProgressedDate(birthDate, new Date('invalid'))).toThrow('Params \'birthDate\' and \'targetDate\' have to be valid dates.')
+  })
+})
+
+describe('progress', () => {
+  test('should return the planets of the progressed day', () => {
+    const progressedDate = getProgressedDate(birthDate, targetDate)
+    const progressed = progress(natal, birthDate, targetDate)
+    expect(Object.keys(progressed.planets)).toEqual(Object.keys(natal.planets))
+    expect(progressed.planets.Sun[0]).toBeCloseTo(getPosition('Sun', progressedDate).longitude, 1)
+    expect(progressed.planets.Moon[0]).toBeCloseTo(getPosition('Moon', progressedDate).longitude, 1)
+  })
+
+  test('should progress the MC by the solar arc', () => {
+    const progressed = progress(natal, birthDate, targetDate, 'solarArc', { location })
+    const arc = progressed.planets.Sun[0] - natal.planets.Sun[0]
+    expect(progressed.cusps[9]).toBeCloseTo((natal.cusps[9] + arc) % 360, 6)
+  })
+
+  test('should progress the RAMC by the Naibod rate', () => {
+    const progressed = progress(natal, birthDate, targetDate, 'naibod', { location })
+    const ramc = getRamc(natal.cusps[9], obliquity) + years * NAIBOD_RATE
+    expect(progressed.cusps[9]).toBeCloseTo(getMidheaven(ramc, obliquity), 6)
+  })
+
+  test('should progress the RAMC by the sidereal time', () => {
+    const naibod = progress(natal, birthDate, targetDate, 'naibod', { location })
+    const siderealTime = progress(natal, birthDate, targetDate, 'siderealTime', { location })
+    // the sky turns by the mean Sun plus the whole days
+    expect(Math.abs(siderealTime.cusps[9] - naibod.cusps[9])).toBeLessThan(1)
+  })
+
+  test('should rebuild the houses for the latitude', () => {
+    const progressed = progress(natal, birthDate, targetDate, 'naibod', { location, houseSystem: 'equal' })
+    for (let i = 1; i < 12; i++) {
+      expect((progressed.cusps[i] - progressed.cusps[0] + 360) % 360).toBeCloseTo(i * 30, 6)
+    }
+  })
+
+  test('should move all cusps with the MC without the location', () => {
+    const progressed = progress(natal, birthDate, targetDate, 'naibod')
+    const shift = progressed.cusps[9] - natal.cusps[9]
+    progressed.cusps.forEach((cusp, i) => {
+      expect(cusp).toBeCloseTo((natal.cusps[i] + shift + 360) % 360, 6)
+    })
+  })
+
+  test('should use the provider', () => {
+    const fixture = { planets: { Sun: [100], Moon: [200] }, cusps: natal.cusps }
+    const provider = createFixtureProvider({ '1980-01-01T00:00:00Z': fixture })
+    const progressed = progress({ planets: { Moon: [0], Venus: [10] }, cusps: natal.cusps }, birthDate, targetDate, 'solarArc', { provider })
+    expect(progressed.planets).toEqual({ Moon: [200] })
+    expect(progressed.cusps[9]).toBeCloseTo(natal.cusps[9], 6)
+  })
+
+  test('should throw on unknown method', () => {
+    expect(() => progress(natal, birthDate, targetDate, 'tertiary' as any)).toThrow('Unknown progression method \'tertiary\'.')
+  })
+
+  test('should throw without the Sun for the solar arc', () => {
+    const provider = createFixtureProvider({ '1980-01-01T00:00:00Z': { planets: { Moon: [200] }, cusps: natal.cusps } })
+    expect(() => progress(natal, birthDate, targetDate, 'solarArc', { provider })).toThrow('The provider has to return the Sun for the solar arc.')
+  })
+})
+
+describe('Radix.progressions', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  test('should draw the ring of progressed points', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    const ring = radix.progressions(birthDate, targetDate, 'naibod', { location })
+    expect(ring.id).toBe(default_settings.ID_PROGRESSIONS)
+    expect(ring.data.cusps[9]).toBeCloseTo(progress(natal, birthDate, targetDate, 'naibod', { location }).cusps[9], 6)
+    expect(document.getElementById('chart-astrology-' + default_settings.ID_PROGRESSIONS + '-' + default_settings.ID_LABEL)?.textContent).toBe('Pr')
+  })
+
+  test('should not draw the second ring out of the paper', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    radix.directions(birthDate, targetDate)
+    expect(() => radix.progressions(birthDate, targetDate)).toThrow('Ring 1 does not fit the paper.')
+  })
+
+  test('should progress the tropical angles of the sidereal chart', () => {
+    const settings = { ZODIAC: 'sidereal' as const, AYANAMSA_YEAR: getDecimalYear(birthDate) }
+    const tropical = progress(natal, birthDate, targetDate, 'naibod', { location })
+    const radix = new Chart('chart', 800, 800, settings).radix(natal)
+    const ring = radix.progressions(birthDate, targetDate, 'naibod', { location })
+    const offset = (tropical.cusps[9] - ring.data.cusps[9] + 360) % 360
+    expect(ring.settings.AYANAMSA_YEAR).toBeCloseTo(getDecimalYear(getProgressedDate(birthDate, targetDate)), 6)
+    // the progressed day is a month after the birth
+    expect(offset).toBeCloseTo((natal.cusps[9] - radix.data.cusps[9] + 360) % 360, 2)
+  })
+})
@@ -0,0 +1,109 @@
+import type { AstroData, Points } from './radix'
+import type { GeoLocation } from './ephemeris'
+import type { HouseSystem } from './houses'
+import { houses, getMidheaven, getRamc } from './houses'
+import { builtInProvider } from './provider'
+import type { EphemerisProvider } from './provider'
+import { NAIBOD_RATE } from './directions'
+import { dateToJulianDay, toTerrestrialTime, getObliquity, getGreenwichSiderealTime } from './time'
+import { validate } from './utils'
+
+// progression of the MC, the planets always progress a day for a year
+export type ProgressionMethod = 'solarArc' | 'naibod' | 'siderealTime'
+
+export interface ProgressionOptions {
+  // source of the positions, the built-in ephemeris by default
+  provider?: EphemerisProvider
+  // place of the birth, the houses are rebuilt from the progressed MC for its latitude.
+  // Without it all cusps move with the MC
+  location?: GeoLocation
+  // 'placidus' by default
+  houseSystem?: HouseSystem
+  // system used in polar latitudes, @see houses()
+  fallback?: HouseSystem
+}
+
+// tropical year, days
+const DAYS_PER_YEAR = 365.24219
+const MC = 9
+
+const normalize = (angle: number): number => ((angle % 360) + 360) % 360
+
+/**
+ * Instant of the secondary progression, a day after the birth for each year of life
+ *
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} targetDate
+ * @return {Date}
+ */
+export const getProgressedDate = (birthDate: Date, targetDate: Date): Date => {
+  const elapsed = targetDate.getTime() - birthDate.getTime()
+  if (isNaN(elapsed)) {
+    throw new Error('Params \'birthDate\' and \'targetDate\' have to be valid dates.')
+  }
+  return new Date(birthDate.getTime() + elapsed / DAYS_PER_YEAR)
+}
+
+/**
+ * Secondary progressions, day for a year
+ *
+ * @param {Object} natal - natal data
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} targetDate
+ * @param {ProgressionMethod} method - progression of the MC, 'solarArc' by default
+ * @param {Object | undefined} options, {location:{latitude:50.08, longitude:14.42}, houseSystem:"koch", provider:(date, location) => data}
+ * @return {Object} progressed data, planets of the natal chart and cusps with the progressed angles
+ */
+export const progress = (natal: AstroData, birthDate: Date, targetDate: Date, method: ProgressionMethod = 'solarArc', options?: ProgressionOptions): AstroData => {
+  const status = validate(natal)
+  if (status.hasError) {
+    throw new Error(status.messages.join(' | '))
+  }
+
+  const provider = options?.provider ?? builtInProvider
+  const location = options?.location
+  const progressedDate = getProgressedDate(birthDate, targetDate)
+  const positions = provider(progressedDate, location).planets
+
+  const planets: Points = {}
+  for (const planet in natal.planets) {
+    if (natal.planets.hasOwnProperty(planet) && positions.hasOwnProperty(planet)) {
+      planets[planet] = positions[planet]
+    }
+  }
+
+  const obliquity = getObliquity(toTerrestrialTime(dateToJulianDay(birthDate)))
+  const natalMc = natal.cusps[MC]
+  const natalRamc = getRamc(natalMc, obliquity)
+
+  let ramc: number
+  switch (method) {
+    case 'solarArc': {
+      const natalSun = provider(birthDate, location).planets.Sun
+      if (natalSun == null || positions.Sun == null) {
+        throw new Error('The provider has to return the Sun for the solar arc.')
+      }
+      ramc = getRamc(normalize(natalMc + positions.Sun[0] - natalSun[0]), obliquity)
+      break
+    }
+    case 'naibod':
+      ramc = normalize(natalRamc + (targetDate.getTime() - birthDate.getTime()) / 86400000 / DAYS_PER_YEAR * NAIBOD_RATE)
+      break
+    case 'siderealTime':
+      // rotation of the sky from the birth to the progressed instant
+      ramc = normalize(natalRamc + getGreenwichSiderealTime(dateToJulianDay(progressedDate)) - getGreenwichSiderealTime(dateToJulianDay(birthDate)))
+      break
+    default:
+      throw new Error('Unknown progression method \'' + String(method) + '\'.')
+  }
+
+  if (location == null) {
+    const shift = getMidheaven(ramc, obliquity) - natalMc
+    return { planets, cusps: natal.cusps.map(cusp => normalize(cusp + shift)) }
+  }
+
+  const fallback = options?.fallback != null ? { fallback: options.fallback } : undefined
+  return { planets, cusps: houses(ramc, location.latitude, obliquity, options?.houseSystem ?? 'placidus', fallback) }
+}
+
+export default progress
@@ -0,0 +1,38 @@
+import { builtInProvider, createFixtureProvider } from './provider'
+import { getAstroData } from './ephemeris'
+import { validate } from './utils'
+
+const first = { planets: { Sun: [280], Moon: [223] }, cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330] }
+const second = { planets: { Sun: [281], Moon: [236] }, cusps: [10, 40, 70, 100, 130, 160, 190, 220, 250, 280, 310, 340] }
+
+describe('builtInProvider', () => {
+  test('should return data of the built-in ephemeris', () => {
+    const date = new Date('2000-01-01T12:00:00Z')
+    const location = { latitude: 50.08, longitude: 14.42 }
+    const data = builtInProvider(date, location)
+    expect(validate(data).hasError).toBe(false)
+    expect(data).toEqual(getAstroData(date, { location }))
+  })
+})
+
+describe('createFixtureProvider', () => {
+  const provider = createFixtureProvider({
+    '2000-01-02T12:00:00Z': second,
+    '2000-01-01T12:00:00Z': first
+  })
+
+  test('should return the latest fixture at or before the instant', () => {
+    expect(provider(new Date('2000-01-01T12:00:00Z'))).toBe(first)
+    expect(provider(new Date('2000-01-02T11:59:59Z'))).toBe(first)
+    expect(provider(new Date('2000-01-02T12:00:00Z'), { latitude: 50, longitude: 14 })).toBe(second)
+    expect(provider(new Date('2010-01-01T00:00:00Z'))).toBe(second)
+  })
+
+  test('should throw before the first fixture', () => {
+    expect(() => provider(new Date('1999-12-31T00:00:00Z'))).toThrow('No fixture for the instant \'1999-12-31T00:00:00.000Z\'.')
+  })
+
+  test('should throw on invalid fixture key', () => {
+    expect(() => createFixtureProvider({ yesterday: first })).toThrow('Fixture key \'yesterday\' is not a valid date.')
+  })
+})
@@ -0,0 +1,51 @@
+import type { AstroData } from './radix'
+import { getAstroData } from './ephemeris'
+import type { GeoLocation } from './ephemeris'
+
+/**
+ * Source of the chart data for the instant and place
+ *
+ * @param {Date} date - UTC instant
+ * @param {Object | undefined} location - {latitude:50.08, longitude:14.42}
+ * @return {Object} data, {"planets":{"Sun":[0], ...}, "cusps":[...]}
+ */
+export type EphemerisProvider = (date: Date, location?: GeoLocation) => AstroData
+
+/**
+ * Provider of the built-in low-precision ephemeris
+ *
+ * @see getAstroData()
+ */
+export const builtInProvider: EphemerisProvider = (date: Date, location?: GeoLocation): AstroData => getAstroData(date, { location })
+
+/**
+ * Provider of prepared data, e.g. for tests or offline demos
+ *
+ * Returns the data of the latest fixture at or before the instant, the location is ignored.
+ *
+ * @param {Object} fixtures - data by the ISO instant, {"2000-01-01T12:00:00Z":{"planets":{...}, "cusps":[...]}}
+ * @return {EphemerisProvider}
+ */
+export const createFixtureProvider = (fixtures: Record<string, AstroData>): EphemerisProvider => {
+  const instants = Object.keys(fixtures)
+    .map(key => ({ key, time: new Date(key).getTime() }))
+    .sort((a, b) => a.time - b.time)
+
+  instants.forEach(instant => {
+    if (isNaN(instant.time)) {
+      throw new Error('Fixture key \'' + instant.key + '\' is not a valid date.')
+    }
+  })
+
+  return (date: Date): AstroData => {
+    let fixture: string | null = null
+    for (let i = 0; i < instants.length && instants[i].time <= date.getTime(); i++) {
+      fixture = instants[i].key
+    }
+
+    if (fixture == null) {
+      throw new Error('No fixture for the instant \'' + date.toISOString() + '\'.')
+    }
+    return fixtures[fixture]
+  }
+}
@@ -1,6 +1,7 @@
 import Radix from './radix'
 import SVG from './svg'
 import default_settings from './settings'
+import { ASPECTS_CATALOGUE } from './aspect'
 
 const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
 
@@ -262,6 +263,11 @@ describe('Radix', () => {
           point: { name: 'Sun', position: 0 },
           toPoint: { name: 'Moon', position: 5 },
           precision: '5.0000',
+          orb: 5,
+          applying: false,
+          exactIn: null,
+          isOutOfSign: false,
+          orbRule: 'aspect' as const,
         },
       ]
       radix.aspects(customAspects)
@@ -306,6 +312,23 @@ describe('Radix', () => {
       }
     })
 
+    test('should draw minor aspects thinner and dashed', () => {
+      const settings = { ...default_settings, ASPECTS: ASPECTS_CATALOGUE }
+      const radix = createRadix({ planets: { Sun: [0], Moon: [90], Mars: [45] }, cusps }, settings)
+      radix.aspects()
+      const aspectsWrapper = document.getElementById('chart-astrology-aspects')
+      const square = aspectsWrapper!.querySelector('line[data-name="square"]')!
+      const semisquare = aspectsWrapper!.querySelector('line[data-name="semisquare"]')!
+
+      expect(square.getAttribute('data-class')).toBe('major')
+      expect(square.getAttribute('stroke-width')).toBe((settings.CUSPS_STROKE * settings.SYMBOL_SCALE).toString())
+      expect(square.hasAttribute('stroke-dasharray')).toBe(false)
+      expect(semisquare.getAttribute('data-class')).toBe('minor')
+      expect(semisquare.getAttribute('stroke-width')).toBe((0.5 * settings.SYMBOL_SCALE).toString())
+      expect(semisquare.getAttribute('stroke-dasharray')).toBe('4,2')
+      expect(semisquare.getAttribute('opacity')).toBe('0.6')
+    })
+
     test('should use LINE_COLOR when STROKE_ONLY is true', () => {
       const settings = { ...default_settings, STROKE_ONLY: true }
       const data = {
@@ -323,6 +346,54 @@ describe('Radix', () => {
     })
   })
 
+  describe('getEssentialDignities', () => {
+    test('should score planets by the sect of the Sun', () => {
+      // Sun in the 5th house, night chart
+      const night = createRadix({ planets: { Sun: [125], Jupiter: [130] }, cusps }).getEssentialDignities()
+      expect(night.Sun.dignities).toStrictEqual(['rulership'])
+      expect(night.Jupiter.dignities).toStrictEqual(['triplicity', 'face'])
+
+      // Sun in the 11th house, day chart
+      const day = createRadix({ planets: { Sun: [305], Jupiter: [130] }, cusps }).getEssentialDignities()
+      expect(day.Sun.dignities).toStrictEqual(['detriment', 'peregrine'])
+      expect(day.Jupiter.dignities).toStrictEqual(['face'])
+    })
+  })
+
+  describe('sidereal zodiac', () => {
+    const sidereal = { ...default_settings, ZODIAC: 'sidereal' as const, AYANAMSA: { value: 24, epoch: 2000 } }
+
+    test('should draw sidereal positions, degrees and dignities', () => {
+      // tropical 10 Leo is sidereal 16 Cancer
+      const radix = createRadix({ planets: { Moon: [130] }, cusps }, sidereal)
+      expect(radix.data.planets.Moon[0]).toBe(106)
+      expect(radix.data.cusps[0]).toBe(336)
+
+      radix.drawPoints()
+      const texts = Array.from(document.querySelectorAll('#chart-astrology-radix-planets text')).map(text => text.textContent)
+      expect(texts).toContain('16')
+      expect(texts).toContain(default_settings.DIGNITIES_RULERSHIP)
+    })
+
+    test('should convert points of interest', () => {
+      const radix = createRadix(minimalData, sidereal)
+      radix.addPointsOfInterest({ As: [30] })
+      expect(radix.toPoints.As[0]).toBe(6)
+    })
+
+    test('should draw tropical ring only when asked', () => {
+      createRadix(minimalData, sidereal).drawUniverse()
+      expect(document.getElementById('chart-astrology-radix-tropical')).toBeNull()
+
+      createRadix(minimalData, { ...sidereal, SHOW_TROPICAL_RING: true }).drawUniverse()
+      const ring = document.getElementById('chart-astrology-radix-tropical')!
+      expect(ring.querySelectorAll('line[data-sign]').length).toBe(12)
+
+      createRadix(minimalData, { ...default_settings, SHOW_TROPICAL_RING: true }).drawUniverse()
+      expect(document.getElementById('chart-astrology-radix-tropical')).toBeNull()
+    })
+  })
+
   describe('addPointsOfInterest', () => {
     test('should add points to toPoints', () => {
       const radix = createRadix()
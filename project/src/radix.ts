@@ -1,7 +1,26 @@
 import Zodiac from './zodiac'
+import type { EssentialDignities } from './zodiac'
 import AspectCalculator from './aspect'
 import type { FormedAspect } from './aspect'
+import { findPatterns } from './pattern'
+import type { AspectPattern } from './pattern'
 import Transit from './transit'
+import type { RingData, RingOptions } from './transit'
+import Aspectarian from './aspectarian'
+import type { AspectarianOptions } from './aspectarian'
+import DeclinationStrip from './declination'
+import type { DeclinationStripOptions } from './declination'
+import DispositorTree, { findDispositors } from './dispositor'
+import type { Dispositors, DispositorTreeOptions } from './dispositor'
+import { direct, getDirectionArc, DIRECTION_LABELS } from './directions'
+import type { DirectionOptions } from './directions'
+import { progress, getProgressedDate } from './progressions'
+import { getDecimalYear } from './time'
+import type { ProgressionMethod, ProgressionOptions } from './progressions'
+import { getProfections, getZodiacalReleasing, getFirdaria } from './timelords'
+import type { Profections, ReleasingOptions, ReleasingPeriod, FirdariaOptions, TimeLordPeriod } from './timelords'
+import Timeline from './timeline'
+import type { TimelineOptions } from './timeline'
 import {
   validate
   , radiansToDegree
@@ -11,10 +30,15 @@ import {
   , getDescriptionPosition
   , getDashedLinesPositions
   , assemble
+  , toZodiac
+  , toZodiacPoints
+  , getZodiacOffset
+  , getRingRadius
 } from './utils'
 import type SVG from './svg'
 import type { Settings } from './settings'
 
+// [LONGITUDE, SPEED, LATITUDE, DECLINATION], only the longitude is required
 export type Points = Record<string, number[]>
 export interface LocatedPoint { name: string; x: number; y: number; r: number; angle: number; pointer?: number; index?: number }
 export interface AstroData {
@@ -47,6 +71,7 @@ class Radix {
   toPoints: Points
   shift: number
   universe: Element
+  rings: Transit[]
   context: this
   constructor(paper: SVG, cx: number, cy: number, radius: number, data: AstroData, settings: Settings) {
     this.settings = settings
@@ -56,7 +81,8 @@ class Radix {
       throw new Error(status.messages.join(' | '))
     }
 
-    this.data = data
+    // positions in the zodiac of the chart, @see settings.ZODIAC
+    this.data = toZodiac(data, settings)
     this.paper = paper
     this.cx = cx
     this.cy = cy
@@ -78,14 +104,17 @@ class Radix {
     }
 
     // preparing wrapper for aspects. It is the lowest layer
-    const divisionForAspects = document.createElementNS(this.paper.root.namespaceURI, 'g')
+    const divisionForAspects = this.paper.renderer.group()
     divisionForAspects.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_ASPECTS)
     this.paper.root.appendChild(divisionForAspects)
 
-    this.universe = document.createElementNS(this.paper.root.namespaceURI, 'g')
+    this.universe = this.paper.renderer.group()
     this.universe.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_RADIX)
     this.paper.root.appendChild(this.universe)
 
+    // @see ring()
+    this.rings = []
+
     this.context = this
   }
 
@@ -100,7 +129,7 @@ class Radix {
     const start = 0 // degree
     const end = 359.99 // degree
     const hemisphere = this.paper.segment(this.cx, this.cy, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO, start, end, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, LARGE_ARC_FLAG)
-    hemisphere.setAttribute('fill', this.settings.STROKE_ONLY ? 'none' : this.settings.COLOR_BACKGROUND)
+    this.paper.renderer.setStyle(hemisphere, { fill: this.settings.STROKE_ONLY ? 'none' : this.settings.COLOR_BACKGROUND })
     wrapper.appendChild(hemisphere)
   }
 
@@ -114,10 +143,9 @@ class Radix {
     // colors
     for (let i = 0, step = 30, start = this.shift, len = this.settings.COLORS_SIGNS.length; i < len; i++) {
       const segment = this.paper.segment(this.cx, this.cy, this.radius, start, start + step, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
-      segment.setAttribute('fill', this.settings.STROKE_ONLY ? 'none' : this.settings.COLORS_SIGNS[i])
+      this.paper.renderer.setStyle(segment, { fill: this.settings.STROKE_ONLY ? 'none' : this.settings.COLORS_SIGNS[i] })
       segment.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_SIGNS + '-' + i)
-      segment.setAttribute('stroke', this.settings.STROKE_ONLY ? this.settings.CIRCLE_COLOR : 'none')
-      segment.setAttribute('stroke-width', this.settings.STROKE_ONLY ? '1' : '0')
+      this.paper.renderer.setStyle(segment, { stroke: this.settings.STROKE_ONLY ? this.settings.CIRCLE_COLOR : 'none', strokeWidth: this.settings.STROKE_ONLY ? '1' : '0' })
       wrapper.appendChild(segment)
 
       start += step
@@ -126,9 +154,47 @@ class Radix {
     // signs
     for (let i = 0, step = 30, start = 15 + this.shift, len = this.settings.SYMBOL_SIGNS.length; i < len; i++) {
       const position = getPointPosition(this.cx, this.cy, this.radius - (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO) / 2, start, this.settings)
-      wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_SIGNS[i], position.x, position.y))
+      wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_SIGNS[i], position.x, position.y, this.settings))
       start += step
     }
+
+    if (this.settings.ZODIAC === 'sidereal' && this.settings.SHOW_TROPICAL_RING) {
+      this.drawTropicalRing()
+    }
+  }
+
+  /**
+   * Draw thin ring of the tropical signs around the sidereal zodiac
+   */
+  drawTropicalRing(): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_TROPICAL, this.paper.root.id)
+
+    const offset = getZodiacOffset(this.settings)
+    const width = (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO) / 2
+    const strokeWidth = this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE
+
+    const circle = this.paper.circle(this.cx, this.cy, this.radius + width)
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth })
+    wrapper.appendChild(circle)
+
+    for (let i = 0, len = this.settings.SYMBOL_SIGNS.length; i < len; i++) {
+      // tropical 0 Aries lies the ayanamsa before the sidereal one
+      const start = i * 30 - offset + this.shift
+      const startPosition = getPointPosition(this.cx, this.cy, this.radius, start, this.settings)
+      const endPosition = getPointPosition(this.cx, this.cy, this.radius + width, start, this.settings)
+      const line = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
+      this.paper.renderer.setStyle(line, { stroke: this.settings.CIRCLE_COLOR, strokeWidth })
+      line.setAttribute('data-sign', this.settings.SYMBOL_SIGNS[i])
+      wrapper.appendChild(line)
+
+      // half-size sign symbol
+      const position = getPointPosition(this.cx, this.cy, this.radius + width / 2, start + 15, this.settings)
+      const symbol = this.paper.renderer.group()
+      this.paper.renderer.setStyle(symbol, { transform: 'translate(' + position.x + ',' + position.y + ') scale(0.5) translate(' + (-position.x) + ',' + (-position.y) + ')' })
+      symbol.appendChild(this.paper.getSymbol(this.settings.SYMBOL_SIGNS[i], position.x, position.y, this.settings))
+      wrapper.appendChild(symbol)
+    }
   }
 
   /**
@@ -162,8 +228,7 @@ class Radix {
       startPosition = getPointPosition(this.cx, this.cy, pointerRadius, this.data.planets[point.name][0] + this.shift, this.settings)
       endPosition = getPointPosition(this.cx, this.cy, pointerRadius - this.rulerRadius / 2, this.data.planets[point.name][0] + this.shift, this.settings)
       const pointer = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-      pointer.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-      pointer.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+      this.paper.renderer.setStyle(pointer, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
       wrapper.appendChild(pointer)
 
       // draw pointer line
@@ -171,13 +236,12 @@ class Radix {
         startPosition = endPosition
         endPosition = getPointPosition(this.cx, this.cy, this.pointRadius + (this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE), point.angle, this.settings)
         const line = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-        line.setAttribute('stroke', this.settings.LINE_COLOR)
-        line.setAttribute('stroke-width', 0.5 * (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+        this.paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR, strokeWidth: 0.5 * (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
         wrapper.appendChild(line)
       }
 
       // draw symbol
-      const symbol = this.paper.getSymbol(point.name, point.x, point.y)
+      const symbol = this.paper.getSymbol(point.name, point.x, point.y, this.settings)
       symbol.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_POINTS + '-' + point.name)
       wrapper.appendChild(symbol)
 
@@ -226,36 +290,35 @@ class Radix {
       startPosition = getPointPosition(this.cx, this.cy, this.radius, this.data.cusps[i] + this.shift, this.settings)
       endPosition = getPointPosition(this.cx, this.cy, axisRadius, this.data.cusps[i] + this.shift, this.settings)
       overlapLine = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-      overlapLine.setAttribute('stroke', this.settings.LINE_COLOR)
-      overlapLine.setAttribute('stroke-width', (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE))
+      this.paper.renderer.setStyle(overlapLine, { stroke: this.settings.LINE_COLOR, strokeWidth: (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE) })
       wrapper.appendChild(overlapLine)
 
       // As
       if (i === AS) {
         // Text
         textPosition = getPointPosition(this.cx, this.cy, axisRadius + (20 * this.settings.SYMBOL_SCALE), this.data.cusps[i] + this.shift, this.settings)
-        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_AS, textPosition.x, textPosition.y))
+        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_AS, textPosition.x, textPosition.y, this.settings))
       }
 
       // Ds
       if (i === DC) {
         // Text
         textPosition = getPointPosition(this.cx, this.cy, axisRadius + (2 * this.settings.SYMBOL_SCALE), this.data.cusps[i] + this.shift, this.settings)
-        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_DS, textPosition.x, textPosition.y))
+        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_DS, textPosition.x, textPosition.y, this.settings))
       }
 
       // Ic
       if (i === IC) {
         // Text
         textPosition = getPointPosition(this.cx, this.cy, axisRadius + (10 * this.settings.SYMBOL_SCALE), this.data.cusps[i] - 2 + this.shift, this.settings)
-        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_IC, textPosition.x, textPosition.y))
+        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_IC, textPosition.x, textPosition.y, this.settings))
       }
 
       // Mc
       if (i === MC) {
         // Text
         textPosition = getPointPosition(this.cx, this.cy, axisRadius + (10 * this.settings.SYMBOL_SCALE), this.data.cusps[i] + 2 + this.shift, this.settings)
-        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_MC, textPosition.x, textPosition.y))
+        wrapper.appendChild(this.paper.getSymbol(this.settings.SYMBOL_MC, textPosition.x, textPosition.y, this.settings))
       }
     }, this)
   }
@@ -296,12 +359,12 @@ class Radix {
 
       lines.forEach(function (line) {
         const newLine = this.paper.line(line.startX, line.startY, line.endX, line.endY)
-        newLine.setAttribute('stroke', this.settings.LINE_COLOR)
+        this.paper.renderer.setStyle(newLine, { stroke: this.settings.LINE_COLOR })
 
         if (mainAxis.includes(i)) {
-          newLine.setAttribute('stroke-width', (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE))
+          this.paper.renderer.setStyle(newLine, { strokeWidth: (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE) })
         } else {
-          newLine.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+          this.paper.renderer.setStyle(newLine, { strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
         }
 
         wrapper.appendChild(newLine)
@@ -313,10 +376,24 @@ class Radix {
       const endOfCusp = this.data.cusps[(i + 1) % 12]
       const gap = endOfCusp - startOfCusp > 0 ? endOfCusp - startOfCusp : endOfCusp - startOfCusp + deg360
       const textPosition = getPointPosition(this.cx, this.cy, numbersRadius, ((startOfCusp + gap / 2) % deg360) + this.shift, this.settings)
-      wrapper.appendChild(this.paper.getSymbol((i + 1).toString(), textPosition.x, textPosition.y))
+      wrapper.appendChild(this.paper.getSymbol((i + 1).toString(), textPosition.x, textPosition.y, this.settings))
     }
   }
 
+  /**
+   * Draw label of the chart in the bottom left corner
+   * @param {String} label
+   */
+  drawLabel(label: string): void {
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_LABEL, this.paper.root.id)
+
+    const x = this.settings.PADDING * this.settings.SYMBOL_SCALE
+    const y = this.paper.height - x
+    const text = this.paper.text(label, x, y, this.settings.POINTS_TEXT_SIZE.toString(), this.settings.POINTS_COLOR)
+    wrapper.appendChild(text)
+  }
+
   /**
    * Draw aspects
    * @param{Array<Object> | null} customAspects - posible custom aspects to draw;
@@ -341,11 +418,11 @@ class Radix {
         const endPoint = getPointPosition(this.cx, this.cy, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, aspectsList[i].point.position + this.shift, this.settings)
 
         const line = this.paper.line(startPoint.x, startPoint.y, endPoint.x, endPoint.y)
-        line.setAttribute('stroke', this.settings.STROKE_ONLY ? this.settings.LINE_COLOR : aspectsList[i].aspect.color)
-        line.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString())
+        this.paper.renderer.setStyle(line, { stroke: this.settings.STROKE_ONLY ? this.settings.LINE_COLOR : aspectsList[i].aspect.color, strokeWidth: ((aspectsList[i].aspect.lineWidth ?? this.settings.CUSPS_STROKE) * this.settings.SYMBOL_SCALE).toString(), strokeDasharray: aspectsList[i].aspect.dash, opacity: aspectsList[i].aspect.opacity })
 
         line.setAttribute('data-name', aspectsList[i].aspect.name)
         line.setAttribute('data-degree', aspectsList[i].aspect.degree.toString())
+        line.setAttribute('data-class', aspectsList[i].aspect.class ?? 'major')
         line.setAttribute('data-point', aspectsList[i].point.name)
         line.setAttribute('data-toPoint', aspectsList[i].toPoint.name)
         line.setAttribute('data-precision', aspectsList[i].precision.toString())
@@ -357,12 +434,121 @@ class Radix {
     return this.context
   }
 
+  /**
+   * Draw aspect patterns as translucent polygons beneath the aspects
+   * Patterns are found from settings.PATTERNS_ASPECTS, not from the drawn aspects.
+   * @param{Array<Object> | null} customPatterns - posible custom patterns to draw;
+   */
+  patterns(customPatterns?: AspectPattern[] | null): Radix {
+    const patternsList = customPatterns != null && Array.isArray(customPatterns)
+      ? customPatterns
+      : findPatterns(new AspectCalculator(this.toPoints, { ...this.settings, ASPECTS: this.settings.PATTERNS_ASPECTS }).radix(this.data.planets))
+
+    const id = this.paper.root.id + '-' + this.settings.ID_PATTERNS
+    const isNew = this.paper.document.getElementById(id) == null
+    const wrapper = getEmptyWrapper(this.paper.root, id, this.paper.root.id)
+    if (isNew) {
+      this.paper.root.insertBefore(wrapper, this.paper.document.getElementById(this.paper.root.id + '-' + this.settings.ID_ASPECTS))
+    }
+
+    patternsList.forEach(function (pattern: AspectPattern) {
+      const positions = pattern.points.map(point => point.position).sort((a, b) => a - b)
+      const d = positions.map((position, i) => {
+        const vertex = getPointPosition(this.cx, this.cy, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, position + this.shift, this.settings)
+        return (i === 0 ? 'M ' : 'L ') + vertex.x + ', ' + vertex.y
+      }).join(' ') + ' Z'
+
+      const polygon = this.paper.renderer.path(d)
+      this.paper.renderer.setStyle(polygon, {
+        stroke: this.settings.STROKE_ONLY ? this.settings.LINE_COLOR : 'none',
+        fill: this.settings.STROKE_ONLY ? 'none' : (this.settings.PATTERNS_COLORS[pattern.name] ?? this.settings.LINE_COLOR),
+        opacity: this.settings.PATTERNS_OPACITY
+      })
+      polygon.setAttribute('data-name', pattern.name)
+      polygon.setAttribute('data-points', pattern.points.map(point => point.name).join(','))
+      polygon.setAttribute('data-tightness', pattern.tightness.toFixed(4))
+      wrapper.appendChild(polygon)
+    }, this)
+
+    return this.context
+  }
+
+  /**
+   * Draw aspect grid
+   * @param {Object | undefined} options, {elementId:"grid", aspects:[...]}
+   * @return {Aspectarian} grid
+   */
+  aspectarian(options?: AspectarianOptions): Aspectarian {
+    const aspectsList = options?.aspects != null && Array.isArray(options.aspects)
+      ? options.aspects
+      : new AspectCalculator(this.toPoints, this.settings).radix(this.data.planets)
+
+    const grid = new Aspectarian(this.paper, this.settings.ID_RADIX + '-' + this.settings.ID_ASPECTARIAN, Object.keys(this.toPoints), null, aspectsList, this.settings)
+    grid.draw(options?.elementId)
+
+    return grid
+  }
+
+  /**
+   * Essential dignities of the planets, the sect is given by the Sun
+   *
+   * @return {Object} {"Sun":{"dignities":["rulership"], "score":5, ...}, "Moon":{...}}
+   */
+  getEssentialDignities(): Record<string, EssentialDignities> {
+    const zodiac = new Zodiac(this.data.cusps, this.settings)
+    const sun = this.data.planets[this.settings.SYMBOL_SUN]
+    const isDayChart = sun != null ? zodiac.isDayChart(sun[0]) : true
+
+    const result: Record<string, EssentialDignities> = {}
+    for (const planet in this.data.planets) {
+      if (this.data.planets.hasOwnProperty(planet)) {
+        result[planet] = zodiac.getEssentialDignities({ name: planet, position: this.data.planets[planet][0] }, isDayChart)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Dispositors of the planets by the selected rulership scheme
+   *
+   * @return {Object} @see findDispositors()
+   */
+  getDispositors(): Dispositors {
+    return findDispositors(this.data, this.settings)
+  }
+
+  /**
+   * Draw dispositor tree of the planets
+   * @param {Object | undefined} options, {elementId:"dispositors"}
+   * @return {DispositorTree} tree
+   */
+  dispositors(options?: DispositorTreeOptions): DispositorTree {
+    const tree = new DispositorTree(this.paper, this.settings.ID_RADIX + '-' + this.settings.ID_DISPOSITORS, this.getDispositors(), this.settings)
+    tree.draw(options?.elementId)
+
+    return tree
+  }
+
+  /**
+   * Draw declination strip of the planets beside the wheel
+   * @param {Object | undefined} options, {elementId:"declinations"}
+   * @return {DeclinationStrip} strip
+   */
+  declinations(options?: DeclinationStripOptions): DeclinationStrip {
+    const strip = new DeclinationStrip(this.paper, this.settings.ID_RADIX + '-' + this.settings.ID_DECLINATIONS, this.data.planets, this.settings)
+    strip.draw(options?.elementId)
+
+    return strip
+  }
+
   /**
    * Add points of interest for aspects calculation
    * @param {Obect} points, {"As":[0],"Ic":[90],"Ds":[180],"Mc":[270]}
    * @see (this.settings.AspectCalculator( toPoints) )
    */
   addPointsOfInterest(points: Points): Radix {
+    points = toZodiacPoints(points, this.settings)
     for (const point in points) {
       if (points.hasOwnProperty(point)) {
         this.toPoints[point] = points[point]
@@ -381,14 +567,12 @@ class Radix {
 
     rays.forEach(function (ray) {
       const line = this.paper.line(ray.startX, ray.startY, ray.endX, ray.endY)
-      line.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-      line.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+      this.paper.renderer.setStyle(line, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
       wrapper.appendChild(line)
     }, this)
 
     const circle = this.paper.circle(this.cx, this.cy, startRadius)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
   }
 
@@ -401,20 +585,17 @@ class Radix {
 
     // indoor circle
     let circle = this.paper.circle(this.cx, this.cy, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
 
     // outdoor circle
     circle = this.paper.circle(this.cx, this.cy, this.radius)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
 
     // inner circle
     circle = this.paper.circle(this.cx, this.cy, this.radius - this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
   }
 
@@ -431,16 +612,156 @@ class Radix {
    * @return {Transit} transit
    */
   transit(data: AstroData): Transit {
+    return this.ring(data, { index: 0 })
+  }
+
+  /**
+   * Display next ring around the radix
+   *
+   * The radix keeps its size, a radix of the whole paper has space for one ring and a ring out of the paper throws.
+   * Chart.rings() is the only supported way to draw more rings, it shrinks the radix for them.
+   *
+   * @param {Object} data
+   * @param {Object | undefined} options, {index:1, id:"progressed", label:"Progressed", settings:{POINTS_COLOR:"#00f"}}
+   *
+   * @return {Transit} ring
+   */
+  ring(data: AstroData, options?: RingOptions): Transit {
+    const index = options?.index ?? this.rings.length
+    if (getRingRadius(this.radius, index, this.settings) > this.paper.height / 2 - this.settings.MARGIN + 0.000001) {
+      throw new Error('Ring ' + index + ' does not fit the paper. Use Chart.rings() to draw more rings.')
+    }
+
     // remove axis (As, Ds, Mc, Ic) from radix
     getEmptyWrapper(this.universe, this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_AXIS, this.paper.root.id)
-    const transit = new Transit(this.context, data, this.settings)
+    const transit = new Transit(this.context, data, this.settings, { ...options, index })
     transit.drawBg()
     transit.drawPoints()
     transit.drawCusps()
     transit.drawRuler()
     transit.drawCircles()
+    transit.drawLabel()
+    this.rings[transit.index] = transit
     return transit
   }
+
+  /**
+   * Display ring of directed points, it has to fit the paper, @see ring()
+   *
+   * @param {Date} birthDate - UTC instant of the birth
+   * @param {Date} targetDate
+   * @param {Object | undefined} options, {method:"naibod"}, {method:"solarArc", arc:34.5}
+   *
+   * @return {Transit} ring, its aspects() use settings.DIRECTION_ASPECTS
+   */
+  directions(birthDate: Date, targetDate: Date, options?: DirectionOptions): Transit {
+    // the ring converts the tropical positions to the zodiac of the chart again
+    const arc = getDirectionArc(birthDate, targetDate, options) + getZodiacOffset(this.settings)
+    const directed = direct(this.data, birthDate, targetDate, { arc })
+
+    return this.ring(directed, {
+      id: this.settings.ID_DIRECTIONS,
+      label: DIRECTION_LABELS[options?.method ?? 'solarArc'],
+      settings: { ASPECTS: this.settings.DIRECTION_ASPECTS, TRANSIT_ORBS: null }
+    })
+  }
+
+  /**
+   * Display ring of the secondary progressions, it has to fit the paper, @see ring()
+   *
+   * @param {Date} birthDate - UTC instant of the birth
+   * @param {Date} targetDate
+   * @param {ProgressionMethod} method - progression of the MC, 'solarArc' by default
+   * @param {Object | undefined} options, {location:{latitude:50.08, longitude:14.42}, provider:(date, location) => data}
+   *
+   * @return {Transit} ring, its aspects() use settings.DIRECTION_ASPECTS
+   */
+  progressions(birthDate: Date, targetDate: Date, method?: ProgressionMethod, options?: ProgressionOptions): Transit {
+    // the progressed angles are calculated from the tropical natal MC, the ring uses the ayanamsa of the progressed instant
+    const offset = getZodiacOffset(this.settings)
+    const natal = { ...this.data, cusps: this.data.cusps.map(cusp => (cusp + offset) % 360) }
+    const progressed = progress(natal, birthDate, targetDate, method, options)
+
+    return this.ring(progressed, {
+      id: this.settings.ID_PROGRESSIONS,
+      label: 'Pr',
+      settings: { ASPECTS: this.settings.DIRECTION_ASPECTS, TRANSIT_ORBS: null, AYANAMSA_YEAR: getDecimalYear(getProgressedDate(birthDate, targetDate)) }
+    })
+  }
+
+  /**
+   * Annual and monthly profections, the sign of the profected year is highlighted on the wheel
+   * @see settings.PROFECTION_COLOR
+   *
+   * @param {Date} birthDate - UTC instant of the birth
+   * @param {Date} date
+   *
+   * @return {Object} @see getProfections()
+   */
+  profections(birthDate: Date, date: Date): Profections {
+    const result = getProfections(this.data, birthDate, date, this.settings)
+
+    for (let i = 0, len = this.settings.COLORS_SIGNS.length; i < len; i++) {
+      const segment = this.paper.document.getElementById(this.paper.root.id + '-' + this.settings.ID_RADIX + '-' + this.settings.ID_SIGNS + '-' + i)
+      if (segment != null) {
+        const fill = i === result.annual.sign - 1
+          ? this.settings.PROFECTION_COLOR
+          : (this.settings.STROKE_ONLY ? 'none' : this.settings.COLORS_SIGNS[i])
+        this.paper.renderer.setStyle(segment, { fill })
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Zodiacal releasing from the Lot of Spirit or Fortune
+   *
+   * @param {Date} birthDate - UTC instant of the birth
+   * @param {Object | undefined} options, {lot:"fortune", levels:3}
+   *
+   * @return {Array<Object>} @see getZodiacalReleasing()
+   */
+  getZodiacalReleasing(birthDate: Date, options?: ReleasingOptions): ReleasingPeriod[] {
+    return getZodiacalReleasing(this.data, birthDate, options, this.settings)
+  }
+
+  /**
+   * Firdaria by the sect of the chart
+   *
+   * @param {Date} birthDate - UTC instant of the birth
+   * @param {Object | undefined} options, {end:Date}
+   *
+   * @return {Array<Object>} @see getFirdaria()
+   */
+  getFirdaria(birthDate: Date, options?: FirdariaOptions): TimeLordPeriod[] {
+    return getFirdaria(this.data, birthDate, options, this.settings)
+  }
+
+  /**
+   * Draw linear timeline of the periods
+   * @param {Array<Object>} periods - @see getZodiacalReleasing(), getFirdaria()
+   * @param {Object | undefined} options, {elementId:"timeline"}
+   * @return {Timeline} timeline
+   */
+  timeline(periods: TimeLordPeriod[], options?: TimelineOptions): Timeline {
+    const timeline = new Timeline(this.paper, this.settings.ID_RADIX + '-' + this.settings.ID_TIMELINE, periods, this.settings)
+    timeline.draw(options?.elementId)
+
+    return timeline
+  }
+
+  /**
+   * Display rings around the radix, from the innermost one
+   * The radix has to be shrunk for them, @see Chart.rings()
+   *
+   * @param {Array<Object>} rings, [{data:{...}, label:"Progressed"}, {data:{...}, label:"Transit"}]
+   *
+   * @return {Array<Transit>} rings
+   */
+  drawRings(rings: RingData[]): Transit[] {
+    return rings.map((ring, index) => this.ring(ring.data, { ...ring, index }))
+  }
 }
 
 export default Radix
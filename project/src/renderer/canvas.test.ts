@@ -0,0 +1,166 @@
+import CanvasRenderer from './canvas'
+import Chart from '../chart'
+
+const data = {
+  planets: { Sun: [0], Moon: [90], Mercury: [120], Venus: [180], Mars: [240, -0.5], Jupiter: [300] },
+  cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+}
+
+const createContextMock = (): any => ({
+  save: jest.fn(),
+  restore: jest.fn(),
+  clearRect: jest.fn(),
+  translate: jest.fn(),
+  scale: jest.fn(),
+  rotate: jest.fn(),
+  beginPath: jest.fn(),
+  moveTo: jest.fn(),
+  lineTo: jest.fn(),
+  arc: jest.fn(),
+  rect: jest.fn(),
+  fill: jest.fn(),
+  stroke: jest.fn(),
+  setLineDash: jest.fn(),
+  fillText: jest.fn(),
+  globalAlpha: 1
+})
+
+describe('CanvasRenderer', () => {
+  let context: any
+  let getContext: jest.SpyInstance
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="paper"></div>'
+    context = createContextMock()
+    getContext = jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => context)
+    ;(global as any).Path2D = jest.fn().mockImplementation((d: string) => ({ d }))
+  })
+
+  afterEach(() => {
+    getContext.mockRestore()
+    delete (global as any).Path2D
+  })
+
+  test('should mount canvas instead of svg', () => {
+    const renderer = new CanvasRenderer(document)
+    renderer.mount(document.getElementById('paper')!, 300, 200)
+
+    const canvas = document.querySelector('#paper > canvas')
+    expect(canvas).not.toBeNull()
+    expect(canvas!.getAttribute('width')).toBe('300')
+    expect(document.querySelector('svg')).toBeNull()
+  })
+
+  test('should throw when 2D context is not available', () => {
+    getContext.mockImplementation(() => null)
+    const renderer = new CanvasRenderer(document)
+
+    expect(() => {
+      renderer.mount(document.getElementById('paper')!, 300, 200)
+    }).toThrow('Canvas 2D context is not available.')
+  })
+
+  test('should keep elements out of the DOM', () => {
+    const renderer = new CanvasRenderer(document)
+    const root = renderer.mount(document.getElementById('paper')!, 300, 200)
+    const group = renderer.group()
+    group.setAttribute('id', 'group')
+    root.appendChild(group)
+
+    expect(document.getElementById('group')).toBeNull()
+    expect(renderer.document.getElementById('group')).toBe(group)
+  })
+
+  test('should repaint once on the next frame after in-place changes', () => {
+    const frames: FrameRequestCallback[] = []
+    const requestAnimationFrame = jest.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => frames.push(callback))
+    const renderer = new CanvasRenderer(document)
+    const root = renderer.mount(document.getElementById('paper')!, 300, 200)
+    const line = renderer.line(0, 0, 10, 10)
+    root.appendChild(line)
+    frames.splice(0).forEach(callback => { callback(0) })
+    context.clearRect.mockClear()
+
+    line.setAttribute('x2', '20')
+    renderer.invalidate()
+    renderer.invalidate()
+
+    expect(frames.length).toBe(1)
+    frames[0](0)
+    expect(context.clearRect).toHaveBeenCalledTimes(1)
+    requestAnimationFrame.mockRestore()
+  })
+
+  test('should paint primitives with inherited style', () => {
+    const renderer = new CanvasRenderer(document)
+    const root = renderer.mount(document.getElementById('paper')!, 300, 200)
+
+    const group = renderer.group()
+    renderer.setStyle(group, { stroke: '#f00', strokeWidth: 2, fill: 'none', transform: 'translate(10,20) scale(2)' })
+    root.appendChild(group)
+
+    group.appendChild(renderer.path('M 0 0 L 10 10'))
+    group.appendChild(renderer.line(0, 0, 5, 5))
+
+    const text = renderer.text('R', 1, 2)
+    renderer.setStyle(text, { fontSize: 8, fill: '#000', fontFamily: 'serif', dominantBaseline: 'central' })
+    root.appendChild(text)
+
+    renderer.render()
+
+    expect(context.clearRect).toHaveBeenCalledWith(0, 0, 300, 200)
+    expect(context.translate).toHaveBeenCalledWith(10, 20)
+    expect(context.scale).toHaveBeenCalledWith(2, 2)
+    expect(context.stroke).toHaveBeenCalledTimes(2)
+    expect(context.stroke).toHaveBeenCalledWith({ d: 'M 0 0 L 10 10' })
+    expect(context.fill).not.toHaveBeenCalled()
+    expect(context.lineWidth).toBe(2)
+    expect(context.fillText).toHaveBeenCalledWith('R', 1, 2)
+    expect(context.font).toBe('8px serif')
+    expect(context.textBaseline).toBe('middle')
+  })
+
+  test('should inherit dash pattern of the stroke', () => {
+    const renderer = new CanvasRenderer(document)
+    const root = renderer.mount(document.getElementById('paper')!, 300, 200)
+
+    const group = renderer.group()
+    renderer.setStyle(group, { stroke: '#f00', strokeDasharray: '4,2' })
+    root.appendChild(group)
+    group.appendChild(renderer.line(0, 0, 5, 5))
+    root.appendChild(renderer.line(0, 0, 5, 5))
+    renderer.setStyle(root.lastChild as Element, { stroke: '#f00' })
+
+    renderer.render()
+
+    expect(context.stroke).toHaveBeenCalledTimes(2)
+    expect(context.setLineDash).toHaveBeenCalledTimes(1)
+    expect(context.setLineDash).toHaveBeenCalledWith([4, 2])
+  })
+
+  test('should fill with black by default', () => {
+    const renderer = new CanvasRenderer(document)
+    const root = renderer.mount(document.getElementById('paper')!, 300, 200)
+    root.appendChild(renderer.circle(5, 5, 5))
+
+    renderer.render()
+
+    expect(context.arc).toHaveBeenCalledWith(5, 5, 5, 0, 2 * Math.PI)
+    expect(context.fillStyle).toBe('#000')
+    expect(context.fill).toHaveBeenCalledTimes(1)
+    expect(context.stroke).not.toHaveBeenCalled()
+  })
+
+  test('should render chart with the same element tree as svg', () => {
+    const svgChart = new Chart('paper', 500, 500)
+    svgChart.radix(data).aspects()
+
+    const canvasChart = new Chart('canvas-paper', 500, 500, { RENDERER: 'canvas' })
+    canvasChart.radix(data).aspects()
+    canvasChart.paper.renderer.render()
+
+    expect(document.querySelector('#canvas-paper > canvas')).not.toBeNull()
+    expect(canvasChart.toSVGString().replace(/canvas-paper/g, 'paper')).toBe(svgChart.toSVGString())
+    expect(context.fillText).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,287 @@
+import type { Renderer, Style } from './renderer'
+import { SVG_NAMESPACE, createSVGElement, setStyleAttributes } from './svg'
+import { createDocument } from '../headless'
+
+interface PaintStyle {
+  stroke: string
+  strokeWidth: number
+  strokeDasharray: string
+  fill: string
+  fontSize: number
+  fontFamily: string
+  dominantBaseline: string
+}
+
+const DEFAULT_PAINT_STYLE: PaintStyle = {
+  stroke: 'none',
+  strokeWidth: 1,
+  strokeDasharray: 'none',
+  fill: '#000',
+  fontSize: 16,
+  fontFamily: 'serif',
+  dominantBaseline: 'auto'
+}
+
+const isPaintable = (color: string): boolean => color !== 'none' && color !== 'transparent'
+
+const getNumber = (element: Element, name: string): number => parseFloat(element.getAttribute(name) ?? '0')
+
+/**
+   * Canvas 2D renderer.
+   *
+   * Keeps the drawn elements in an in-memory tree instead of the DOM
+   * and paints the tree on a <canvas> element.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {Document} doc - document of the chart container
+   */
+class CanvasRenderer implements Renderer {
+  document: Document
+  pageDocument: Document
+  canvas: HTMLCanvasElement | null
+  context2D: CanvasRenderingContext2D | null
+  root: Element | null
+  width: number
+  height: number
+  isRenderScheduled: boolean
+  constructor (doc: Document) {
+    this.pageDocument = doc
+    this.document = createDocument()
+    this.canvas = null
+    this.context2D = null
+    this.root = null
+    this.width = 0
+    this.height = 0
+    this.isRenderScheduled = false
+  }
+
+  mount (container: Element, width: number, height: number): Element {
+    const canvas = this.pageDocument.createElement('canvas') as HTMLCanvasElement
+    canvas.setAttribute('width', width.toString())
+    canvas.setAttribute('height', height.toString())
+    container.appendChild(canvas)
+
+    const context2D = typeof canvas.getContext === 'function' ? canvas.getContext('2d') : null
+    if (context2D == null) {
+      throw new Error('Canvas 2D context is not available.')
+    }
+
+    this.canvas = canvas
+    this.context2D = context2D
+    this.width = width
+    this.height = height
+
+    this.root = createSVGElement(this.document, width, height)
+    this.document.body.appendChild(this.root)
+
+    return this.root
+  }
+
+  group (): Element {
+    return this.create('g')
+  }
+
+  path (d: string): Element {
+    const path = this.create('path')
+    path.setAttribute('d', d)
+    return path
+  }
+
+  line (x1: number, y1: number, x2: number, y2: number): Element {
+    const line = this.create('line')
+    line.setAttribute('x1', x1.toString())
+    line.setAttribute('y1', y1.toString())
+    line.setAttribute('x2', x2.toString())
+    line.setAttribute('y2', y2.toString())
+    return line
+  }
+
+  circle (cx: number, cy: number, radius: number): Element {
+    const circle = this.create('circle')
+    circle.setAttribute('cx', cx.toString())
+    circle.setAttribute('cy', cy.toString())
+    circle.setAttribute('r', radius.toString())
+    return circle
+  }
+
+  rect (x: number, y: number, width: number | string, height: number | string): Element {
+    const rect = this.create('rect')
+    rect.setAttribute('x', x.toString())
+    rect.setAttribute('y', y.toString())
+    rect.setAttribute('width', width.toString())
+    rect.setAttribute('height', height.toString())
+    return rect
+  }
+
+  text (txt: string, x: number, y: number): Element {
+    const text = this.create('text')
+    text.setAttribute('x', x.toString())
+    text.setAttribute('y', y.toString())
+    text.appendChild(this.document.createTextNode(txt))
+    return text
+  }
+
+  setStyle (element: Element, style: Style): void {
+    setStyleAttributes(element, style)
+    this.invalidate()
+  }
+
+  /**
+   * Paint the whole element tree on the canvas.
+   */
+  render (): void {
+    this.isRenderScheduled = false
+    if (this.context2D == null || this.root == null) {
+      return
+    }
+
+    this.context2D.clearRect(0, 0, this.width, this.height)
+    this.paint(this.root, DEFAULT_PAINT_STYLE)
+  }
+
+  /*
+   * @private
+   */
+  create (name: string): Element {
+    this.invalidate()
+    return this.document.createElementNS(SVG_NAMESPACE, name)
+  }
+
+  /**
+   * Schedule painting on the next animation frame, elements changed in place have to call it.
+   * Without animation frames the render() has to be called manually.
+   */
+  invalidate (): void {
+    if (this.isRenderScheduled || typeof requestAnimationFrame !== 'function') {
+      return
+    }
+
+    this.isRenderScheduled = true
+    requestAnimationFrame(() => { this.render() })
+  }
+
+  /*
+   * @private
+   * @param {Element} element
+   * @param {Object} inherited - style of the parent element
+   */
+  paint (element: Element, inherited: PaintStyle): void {
+    const ctx = this.context2D as CanvasRenderingContext2D
+    const style: PaintStyle = {
+      stroke: element.getAttribute('stroke') ?? inherited.stroke,
+      strokeWidth: element.hasAttribute('stroke-width') ? getNumber(element, 'stroke-width') : inherited.strokeWidth,
+      strokeDasharray: element.getAttribute('stroke-dasharray') ?? inherited.strokeDasharray,
+      fill: element.getAttribute('fill') ?? inherited.fill,
+      fontSize: element.hasAttribute('font-size') ? getNumber(element, 'font-size') : inherited.fontSize,
+      fontFamily: element.getAttribute('font-family') ?? inherited.fontFamily,
+      dominantBaseline: element.getAttribute('dominant-baseline') ?? inherited.dominantBaseline
+    }
+
+    ctx.save()
+    this.applyTransform(element.getAttribute('transform'))
+    if (element.hasAttribute('opacity')) {
+      ctx.globalAlpha *= getNumber(element, 'opacity')
+    }
+
+    switch (element.localName) {
+      case 'svg':
+      case 'g':
+        for (let i = 0, ln = element.children.length; i < ln; i++) {
+          this.paint(element.children[i], style)
+        }
+        break
+      case 'path':
+        this.fillAndStroke(new Path2D(element.getAttribute('d') ?? ''), style)
+        break
+      case 'line':
+        ctx.beginPath()
+        ctx.moveTo(getNumber(element, 'x1'), getNumber(element, 'y1'))
+        ctx.lineTo(getNumber(element, 'x2'), getNumber(element, 'y2'))
+        this.fillAndStroke(null, { ...style, fill: 'none' })
+        break
+      case 'circle':
+        ctx.beginPath()
+        ctx.arc(getNumber(element, 'cx'), getNumber(element, 'cy'), getNumber(element, 'r'), 0, 2 * Math.PI)
+        this.fillAndStroke(null, style)
+        break
+      case 'rect':
+        ctx.beginPath()
+        ctx.rect(getNumber(element, 'x'), getNumber(element, 'y'), getNumber(element, 'width'), getNumber(element, 'height'))
+        this.fillAndStroke(null, style)
+        break
+      case 'text':
+        if (isPaintable(style.fill)) {
+          ctx.font = style.fontSize + 'px ' + style.fontFamily
+          ctx.textBaseline = style.dominantBaseline === 'central' ? 'middle' : 'alphabetic'
+          ctx.fillStyle = style.fill
+          ctx.fillText(element.textContent ?? '', getNumber(element, 'x'), getNumber(element, 'y'))
+        }
+        break
+      default:
+        break
+    }
+
+    ctx.restore()
+  }
+
+  /*
+   * @private
+   * @param {Path2D | null} path - null for the current path
+   * @param {Object} style
+   */
+  fillAndStroke (path: Path2D | null, style: PaintStyle): void {
+    const ctx = this.context2D as CanvasRenderingContext2D
+    if (isPaintable(style.fill)) {
+      ctx.fillStyle = style.fill
+      if (path != null) ctx.fill(path)
+      else ctx.fill()
+    }
+
+    if (isPaintable(style.stroke) && style.strokeWidth > 0) {
+      ctx.strokeStyle = style.stroke
+      ctx.lineWidth = style.strokeWidth
+      if (style.strokeDasharray !== 'none') {
+        ctx.setLineDash(style.strokeDasharray.trim().split(/[\s,]+/).map(parseFloat))
+      }
+      if (path != null) ctx.stroke(path)
+      else ctx.stroke()
+    }
+  }
+
+  /*
+   * Apply SVG transform list: translate, scale, rotate.
+   * @private
+   * @param {String | null} transform
+   */
+  applyTransform (transform: string | null): void {
+    if (transform == null) {
+      return
+    }
+
+    const ctx = this.context2D as CanvasRenderingContext2D
+    const functions = /(\w+)\s*\(([^)]*)\)/g
+    let match
+    while ((match = functions.exec(transform)) != null) {
+      const args = match[2].trim().split(/[\s,]+/).map(parseFloat)
+      switch (match[1]) {
+        case 'translate':
+          ctx.translate(args[0], args[1] ?? 0)
+          break
+        case 'scale':
+          ctx.scale(args[0], args[1] ?? args[0])
+          break
+        case 'rotate':
+          ctx.translate(args[1] ?? 0, args[2] ?? 0)
+          ctx.rotate(args[0] * Math.PI / 180)
+          ctx.translate(-(args[1] ?? 0), -(args[2] ?? 0))
+          break
+        default:
+          break
+      }
+    }
+  }
+}
+
+export default CanvasRenderer
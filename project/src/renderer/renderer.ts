@@ -0,0 +1,36 @@
+/**
+ * Style properties understood by every renderer.
+ */
+export interface Style {
+  stroke?: string
+  strokeWidth?: number | string
+  strokeDasharray?: string
+  fill?: string
+  opacity?: number | string
+  fontSize?: number | string
+  fontFamily?: string
+  dominantBaseline?: string
+  transform?: string
+}
+
+/**
+ * Drawing backend used by the SVG paper.
+ *
+ * Primitives are returned as elements of an element tree, so the drawing code can
+ * group them and find them by ID regardless of the backend.
+ */
+export interface Renderer {
+  // document owning the drawn elements
+  document: Document
+  mount: (container: Element, width: number, height: number) => Element
+  group: () => Element
+  path: (d: string) => Element
+  line: (x1: number, y1: number, x2: number, y2: number) => Element
+  circle: (cx: number, cy: number, radius: number) => Element
+  rect: (x: number, y: number, width: number | string, height: number | string) => Element
+  text: (txt: string, x: number, y: number) => Element
+  setStyle: (element: Element, style: Style) => void
+  render: () => void
+  // repaint after elements were changed in place, e.g. by setAttribute() or appendChild()
+  invalidate: () => void
+}
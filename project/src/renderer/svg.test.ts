@@ -0,0 +1,38 @@
+import SVGRenderer from './svg'
+
+describe('SVGRenderer', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="paper"></div>'
+  })
+
+  test('should mount svg element into container', () => {
+    const renderer = new SVGRenderer(document)
+    const svg = renderer.mount(document.getElementById('paper')!, 300, 200)
+
+    expect(svg.namespaceURI).toBe('http://www.w3.org/2000/svg')
+    expect(svg.getAttribute('viewBox')).toBe('0 0 300 200')
+    expect(document.querySelector('#paper > svg')).toBe(svg)
+  })
+
+  test('should create primitives', () => {
+    const renderer = new SVGRenderer(document)
+
+    expect(renderer.group().tagName).toBe('g')
+    expect(renderer.path('M 0 0 L 1 1').getAttribute('d')).toBe('M 0 0 L 1 1')
+    expect(renderer.line(1, 2, 3, 4).getAttribute('y2')).toBe('4')
+    expect(renderer.circle(1, 2, 3).getAttribute('r')).toBe('3')
+    expect(renderer.rect(1, 2, '20px', 5).getAttribute('width')).toBe('20px')
+    expect(renderer.text('abc', 1, 2).textContent).toBe('abc')
+  })
+
+  test('should set style as SVG attributes', () => {
+    const renderer = new SVGRenderer(document)
+    const line = renderer.line(0, 0, 1, 1)
+    renderer.setStyle(line, { stroke: 'red', strokeWidth: 2, fill: undefined, dominantBaseline: 'central' })
+
+    expect(line.getAttribute('stroke')).toBe('red')
+    expect(line.getAttribute('stroke-width')).toBe('2')
+    expect(line.hasAttribute('fill')).toBe(false)
+    expect(line.getAttribute('dominant-baseline')).toBe('central')
+  })
+})
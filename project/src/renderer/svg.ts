@@ -0,0 +1,135 @@
+import type { Renderer, Style } from './renderer'
+
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+
+const STYLE_ATTRIBUTES: Record<keyof Style, string> = {
+  stroke: 'stroke',
+  strokeWidth: 'stroke-width',
+  strokeDasharray: 'stroke-dasharray',
+  fill: 'fill',
+  opacity: 'opacity',
+  fontSize: 'font-size',
+  fontFamily: 'font-family',
+  dominantBaseline: 'dominant-baseline',
+  transform: 'transform'
+}
+
+/**
+ * Set SVG attributes of the element
+ * in the order of the style properties.
+ *
+ * @param {Element} element
+ * @param {Object} style
+ */
+export const setStyleAttributes = (element: Element, style: Style): void => {
+  for (const property in style) {
+    if (style.hasOwnProperty(property)) {
+      const value = style[property as keyof Style]
+      if (value != null) {
+        element.setAttribute(STYLE_ATTRIBUTES[property as keyof Style], value.toString())
+      }
+    }
+  }
+}
+
+/**
+ * Create the root <svg> element.
+ *
+ * @param {Document} doc
+ * @param {int} width
+ * @param {int} height
+ * @return {Element}
+ */
+export const createSVGElement = (doc: Document, width: number, height: number): Element => {
+  const svg = doc.createElementNS(SVG_NAMESPACE, 'svg')
+  svg.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:xlink', 'http://www.w3.org/1999/xlink')
+  svg.setAttribute('style', 'position: relative; overflow: hidden;')
+  svg.setAttribute('version', '1.1')
+  svg.setAttribute('width', width.toString())
+  svg.setAttribute('height', height.toString())
+  svg.setAttribute('viewBox', '0 0 ' + width + ' ' + height)
+  return svg
+}
+
+/**
+   * SVG renderer.
+   *
+   * Draws the chart as SVG elements of the document.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {Document} doc
+   */
+class SVGRenderer implements Renderer {
+  document: Document
+  constructor (doc: Document) {
+    this.document = doc
+  }
+
+  mount (container: Element, width: number, height: number): Element {
+    const svg = createSVGElement(this.document, width, height)
+    container.appendChild(svg)
+    return svg
+  }
+
+  group (): Element {
+    return this.document.createElementNS(SVG_NAMESPACE, 'g')
+  }
+
+  path (d: string): Element {
+    const path = this.document.createElementNS(SVG_NAMESPACE, 'path')
+    path.setAttribute('d', d)
+    return path
+  }
+
+  line (x1: number, y1: number, x2: number, y2: number): Element {
+    const line = this.document.createElementNS(SVG_NAMESPACE, 'line')
+    line.setAttribute('x1', x1.toString())
+    line.setAttribute('y1', y1.toString())
+    line.setAttribute('x2', x2.toString())
+    line.setAttribute('y2', y2.toString())
+    return line
+  }
+
+  circle (cx: number, cy: number, radius: number): Element {
+    const circle = this.document.createElementNS(SVG_NAMESPACE, 'circle')
+    circle.setAttribute('cx', cx.toString())
+    circle.setAttribute('cy', cy.toString())
+    circle.setAttribute('r', radius.toString())
+    return circle
+  }
+
+  rect (x: number, y: number, width: number | string, height: number | string): Element {
+    const rect = this.document.createElementNS(SVG_NAMESPACE, 'rect')
+    rect.setAttribute('x', x.toString())
+    rect.setAttribute('y', y.toString())
+    rect.setAttribute('width', width.toString())
+    rect.setAttribute('height', height.toString())
+    return rect
+  }
+
+  text (txt: string, x: number, y: number): Element {
+    const text = this.document.createElementNS(SVG_NAMESPACE, 'text')
+    text.setAttribute('x', x.toString())
+    text.setAttribute('y', y.toString())
+    text.appendChild(this.document.createTextNode(txt))
+    return text
+  }
+
+  setStyle (element: Element, style: Style): void {
+    setStyleAttributes(element, style)
+  }
+
+  /**
+   * The browser draws SVG elements itself.
+   */
+  render (): void {}
+
+  /**
+   * The browser repaints changed SVG elements itself.
+   */
+  invalidate (): void {}
+}
+
+export default SVGRenderer
@@ -1,14 +1,53 @@
 import type SVG from './svg'
+import { SIGN_DIGNITIES, TRADITIONAL_RULERSHIPS, MODERN_RULERSHIPS, MODERN_DIGNITY_RULERSHIPS, TRIPLICITIES, EGYPTIAN_TERMS, CHALDEAN_FACES, LILLY_SCORES } from './dignities'
 
-export interface AspectData { degree: number; orbit: number; color: string }
+export interface AspectData {
+  degree: number
+  orbit: number
+  color: string
+  // SVG dash pattern of the line, e.g. "4,2"
+  dash?: string
+  // width of the line for SYMBOL_SCALE : 1, CUSPS_STROKE by default
+  lineWidth?: number
+  opacity?: number
+  // "major" by default
+  class?: 'major' | 'minor'
+}
 export type Aspect = Record<string, AspectData>
+export interface OrbTable {
+  // Lilly-style moieties (halves of orbs) of bodies, the orb of the aspect is the sum of both moieties
+  moieties?: Record<string, number>
+  // multipliers of the moieties for aspects, e.g. {"sextile":0.75}
+  aspects?: Record<string, number>
+  // multipliers of the aspect orbit for bodies without moieties, e.g. luminaries 1.25, angles 0.5
+  bodies?: Record<string, number>
+}
 export interface Dignity {
   name: string
   position: number
   orbit: number
 }
+// signs 1 - 12
+export interface SignDignities {
+  exaltation: number[]
+  fall: number[]
+}
+export interface Triplicity { day: string; night: string; participating: string }
+// [RULER, END DEGREE OF THE TERM]
+export type Term = [string, number]
+export type EssentialDignity = 'rulership' | 'exaltation' | 'triplicity' | 'participating' | 'term' | 'face' | 'detriment' | 'fall' | 'peregrine'
+export type DignityScores = Record<EssentialDignity, number>
+export interface Ayanamsa {
+  // ayanamsa at the epoch, degree
+  value: number
+  // decimal year, e.g. 2000
+  epoch: number
+  // change per year, 50.29" of the precession by default
+  rate?: number
+}
 
 export interface Settings {
+  RENDERER: 'svg' | 'canvas'
   SYMBOL_SCALE: number
   COLOR_BACKGROUND: string
   POINTS_COLOR: string
@@ -21,14 +60,27 @@ export interface Settings {
   ID_CHART: string
   ID_RADIX: string
   ID_TRANSIT: string
+  ID_PERSON_A: string
+  ID_PERSON_B: string
   ID_ASPECTS: string
   ID_POINTS: string
   ID_SIGNS: string
+  ID_TROPICAL: string
   ID_CIRCLES: string
   ID_AXIS: string
   ID_CUSPS: string
   ID_RULER: string
   ID_BG: string
+  ID_LABEL: string
+  ID_DIAL: string
+  ID_POINTER: string
+  ID_ASPECTARIAN: string
+  ID_PATTERNS: string
+  ID_DECLINATIONS: string
+  ID_DISPOSITORS: string
+  ID_DIRECTIONS: string
+  ID_PROGRESSIONS: string
+  ID_TIMELINE: string
   CIRCLE_COLOR: string
   CIRCLE_STRONG: number
   LINE_COLOR: string
@@ -68,6 +120,18 @@ export interface Settings {
   SYMBOL_CUSP_10: string
   SYMBOL_CUSP_11: string
   SYMBOL_CUSP_12: string
+  SYMBOL_CONJUNCTION: string
+  SYMBOL_OPPOSITION: string
+  SYMBOL_SQUARE: string
+  SYMBOL_TRINE: string
+  SYMBOL_SEXTILE: string
+  SYMBOL_QUINCUNX: string
+  SYMBOL_SEMISEXTILE: string
+  SYMBOL_SEMISQUARE: string
+  SYMBOL_SESQUIQUADRATE: string
+  SYMBOL_QUINTILE: string
+  SYMBOL_BIQUINTILE: string
+  SYMBOL_SEPTILE: string
   CUSPS_STROKE: number
   CUSPS_FONT_COLOR: string
   SYMBOL_ARIES: string
@@ -96,12 +160,43 @@ export interface Settings {
   COLOR_AQUARIUS: string
   COLOR_PISCES: string
   COLORS_SIGNS: string[]
+  COLORS_MODALITIES: string[]
+  SYMBOL_MODALITIES: string[]
+  DIAL_POINTER_COLOR: string
   CUSTOM_SYMBOL_FN: null | ((name: string, x: number, y: number, context: SVG) => Element)
   SHIFT_IN_DEGREES: number
+  ZODIAC: 'tropical' | 'sidereal'
+  AYANAMSAS: Record<string, Ayanamsa>
+  AYANAMSA: string | Ayanamsa
+  AYANAMSA_YEAR: number
+  SHOW_TROPICAL_RING: boolean
   STROKE_ONLY: boolean
   ADD_CLICK_AREA: boolean
   COLLISION_RADIUS: number
   ASPECTS: Aspect
+  SYNASTRY_ASPECTS: Aspect
+  ORBS: OrbTable | null
+  TRANSIT_ORBS: OrbTable | null
+  SYNASTRY_ORBS: OrbTable | null
+  PARALLEL_ASPECTS: Aspect
+  OBLIQUITY: number
+  HARMONIC_ASPECTS: Aspect
+  DIRECTION_ASPECTS: Aspect
+  PATTERNS_ASPECTS: Aspect
+  PATTERNS_COLORS: Record<string, string>
+  PATTERNS_OPACITY: number
+  PROFECTION_COLOR: string
+  ASPECTARIAN_CELL_SIZE: number
+  ASPECTARIAN_POSITION: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  DECLINATION_STRIP_WIDTH: number
+  DECLINATION_STRIP_POSITION: 'left' | 'right'
+  DECLINATION_RANGE: number
+  DECLINATION_OUT_OF_BOUNDS_COLOR: string
+  DISPOSITORS_CELL_SIZE: number
+  DISPOSITORS_POSITION: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  TIMELINE_ROW_HEIGHT: number
+  TIMELINE_PEAK_COLOR: string
+  TIMELINE_LOOSING_OF_THE_BOND_COLOR: string
   SHOW_DIGNITIES_TEXT: boolean
   DIGNITIES_RULERSHIP: string
   DIGNITIES_DETRIMENT: string
@@ -109,12 +204,28 @@ export interface Settings {
   DIGNITIES_EXACT_EXALTATION: string
   DIGNITIES_FALL: string
   DIGNITIES_EXACT_EXALTATION_DEFAULT: Dignity[]
+  RULERSHIP_SCHEMES: Record<string, string[][]>
+  RULERSHIP_SCHEME: string
+  DIGNITIES_RULERSHIP_SCHEMES: Record<string, string[][]>
+  TIME_LORDS_RULERSHIP_SCHEME: string
+  FIRDARIA_NODES: 'end' | 'afterMars'
+  DIGNITIES_SIGNS: Record<string, SignDignities>
+  DIGNITIES_TRIPLICITIES: Triplicity[]
+  DIGNITIES_TERMS: Term[][]
+  DIGNITIES_FACES: string[][]
+  DIGNITIES_SCORES: DignityScores
   ANIMATION_CUSPS_ROTATION_SPEED: number
+  SKY_CLOCK_INTERVAL: number
+  SKY_CLOCK_ANIMATION_DURATION: number
+  SKY_CLOCK_CUSPS_ROTATION_SPEED: number
   DEBUG: boolean
 }
 
 const settings: Settings = {
 
+  // Drawing backend: 'svg' or 'canvas'
+  RENDERER: 'svg',
+
   // Scale of symbols
   SYMBOL_SCALE: 1,
 
@@ -151,6 +262,10 @@ const settings: Settings = {
   // Transit chart element ID
   ID_TRANSIT: 'transit',
 
+  // Synastry chart element IDs of the inner and outer person
+  ID_PERSON_A: 'person-a',
+  ID_PERSON_B: 'person-b',
+
   // Aspects wrapper element ID
   ID_ASPECTS: 'aspects',
 
@@ -160,6 +275,9 @@ const settings: Settings = {
   // Signs wrapper element ID
   ID_SIGNS: 'signs',
 
+  // Tropical signs ring wrapper element ID
+  ID_TROPICAL: 'tropical',
+
   // Circles wrapper element ID
   ID_CIRCLES: 'circles',
 
@@ -175,6 +293,36 @@ const settings: Settings = {
   // Background wrapper element ID
   ID_BG: 'bg',
 
+  // Ring label wrapper element ID
+  ID_LABEL: 'label',
+
+  // Uranian dial element ID
+  ID_DIAL: 'dial',
+
+  // Dial pointer wrapper element ID
+  ID_POINTER: 'pointer',
+
+  // Aspect grid wrapper element ID
+  ID_ASPECTARIAN: 'aspectarian',
+
+  // Aspect patterns wrapper element ID
+  ID_PATTERNS: 'patterns',
+
+  // Declination strip wrapper element ID
+  ID_DECLINATIONS: 'declinations',
+
+  // Dispositor tree wrapper element ID
+  ID_DISPOSITORS: 'dispositors',
+
+  // Ring of directed points
+  ID_DIRECTIONS: 'directions',
+
+  // Ring of progressed points
+  ID_PROGRESSIONS: 'progressions',
+
+  // Timeline of time lords wrapper element ID
+  ID_TIMELINE: 'timeline',
+
   // Color of circles in charts
   CIRCLE_COLOR: '#333',
 
@@ -233,6 +381,20 @@ const settings: Settings = {
   SYMBOL_CUSP_11: '11',
   SYMBOL_CUSP_12: '12',
 
+  // Aspects, names are keys of settings.ASPECTS
+  SYMBOL_CONJUNCTION: 'conjunction',
+  SYMBOL_OPPOSITION: 'opposition',
+  SYMBOL_SQUARE: 'square',
+  SYMBOL_TRINE: 'trine',
+  SYMBOL_SEXTILE: 'sextile',
+  SYMBOL_QUINCUNX: 'quincunx',
+  SYMBOL_SEMISEXTILE: 'semisextile',
+  SYMBOL_SEMISQUARE: 'semisquare',
+  SYMBOL_SESQUIQUADRATE: 'sesquiquadrate',
+  SYMBOL_QUINTILE: 'quintile',
+  SYMBOL_BIQUINTILE: 'biquintile',
+  SYMBOL_SEPTILE: 'septile',
+
   // Cusps strength of lines
   CUSPS_STROKE: 1,
   CUSPS_FONT_COLOR: '#000',
@@ -267,11 +429,39 @@ const settings: Settings = {
   COLOR_PISCES: '#27AE60',
   COLORS_SIGNS: ['#FF4500', '#8B4513', '#87CEEB', '#27AE60', '#FF4500', '#8B4513', '#87CEEB', '#27AE60', '#FF4500', '#8B4513', '#87CEEB', '#27AE60'],
 
+  // Uranian dial markers of cardinal, fixed and mutable signs
+  COLORS_MODALITIES: ['#FF4500', '#8B4513', '#87CEEB'],
+  SYMBOL_MODALITIES: ['Aries', 'Taurus', 'Gemini'],
+
+  // Color of the Uranian dial pointer
+  DIAL_POINTER_COLOR: '#FF4500',
+
   CUSTOM_SYMBOL_FN: null,
 
   // 0 degree is on the West
   SHIFT_IN_DEGREES: 180,
 
+  // Zodiac of the drawn chart, data are always tropical
+  ZODIAC: 'tropical',
+
+  // Ayanamsas at J2000
+  AYANAMSAS: {
+    lahiri: { value: 23.853, epoch: 2000 },
+    faganBradley: { value: 24.736, epoch: 2000 },
+    raman: { value: 22.411, epoch: 2000 },
+    krishnamurti: { value: 23.757, epoch: 2000 }
+  },
+
+  // Name from AYANAMSAS or own value, e.g. { value: 24, epoch: 1950 }
+  AYANAMSA: 'lahiri',
+
+  // Decimal year of the chart for the sidereal zodiac, e.g. 1990.5.
+  // Set it for each chart drawn from own data, Chart.radixAt(), the sky clock and progressions take it from their instant
+  AYANAMSA_YEAR: 2000,
+
+  // Thin ring of the tropical signs around the sidereal chart
+  SHOW_TROPICAL_RING: false,
+
   // No fill, only stroke
   STROKE_ONLY: false,
 
@@ -281,7 +471,8 @@ const settings: Settings = {
   // Scaling changes the collision radius
   COLLISION_RADIUS: 10, // px
 
-  // Aspects
+  // Aspects, only the major ones for backward compatibility.
+  // Set ASPECTS_CATALOGUE from aspect.ts to draw the minor aspects too
   ASPECTS: {
     conjunction: { degree: 0, orbit: 10, color: 'transparent' },
     square: { degree: 90, orbit: 8, color: '#FF4500' },
@@ -289,6 +480,99 @@ const settings: Settings = {
     opposition: { degree: 180, orbit: 10, color: '#27AE60' }
   },
 
+  // Aspects between two charts of synastry
+  SYNASTRY_ASPECTS: {
+    conjunction: { degree: 0, orbit: 8, color: 'transparent' },
+    square: { degree: 90, orbit: 6, color: '#FF4500' },
+    trine: { degree: 120, orbit: 6, color: '#27AE60' },
+    opposition: { degree: 180, orbit: 8, color: '#27AE60' }
+  },
+
+  // Orbs of bodies for radix, transit and synastry aspects, null for orbits of the aspects only
+  ORBS: null,
+  TRANSIT_ORBS: null,
+  SYNASTRY_ORBS: null,
+
+  // Aspects in declination, the orbit is the whole width of the orb as well
+  PARALLEL_ASPECTS: {
+    parallel: { degree: 0, orbit: 2, color: '#27AE60' },
+    contraparallel: { degree: 0, orbit: 2, color: '#FF4500' }
+  },
+
+  // Obliquity of the ecliptic, bodies with greater declination are out of bounds
+  OBLIQUITY: 23.4392911, // degree, J2000
+
+  // Aspects of harmonic charts, other aspects are given by the harmonic itself
+  HARMONIC_ASPECTS: {
+    conjunction: { degree: 0, orbit: 10, color: '#27AE60' }
+  },
+
+  // Aspects of directed points to the radix, tight orbs of one degree to both sides
+  DIRECTION_ASPECTS: {
+    conjunction: { degree: 0, orbit: 2, color: 'transparent' },
+    sextile: { degree: 60, orbit: 2, color: '#27AE60' },
+    square: { degree: 90, orbit: 2, color: '#FF4500' },
+    trine: { degree: 120, orbit: 2, color: '#27AE60' },
+    opposition: { degree: 180, orbit: 2, color: '#27AE60' }
+  },
+
+  // Aspects searched for patterns by Radix.patterns(), Yod and Kite need the sextile and quincunx
+  PATTERNS_ASPECTS: {
+    conjunction: { degree: 0, orbit: 10, color: 'transparent' },
+    sextile: { degree: 60, orbit: 6, color: '#27AE60' },
+    square: { degree: 90, orbit: 8, color: '#FF4500' },
+    trine: { degree: 120, orbit: 8, color: '#27AE60' },
+    quincunx: { degree: 150, orbit: 4, color: '#8B4513' },
+    opposition: { degree: 180, orbit: 10, color: '#27AE60' }
+  },
+
+  // Fill of aspect patterns, @see findPatterns()
+  PATTERNS_COLORS: {
+    grandTrine: '#27AE60',
+    tSquare: '#FF4500',
+    yod: '#8B4513',
+    kite: '#87CEEB',
+    grandCross: '#FF4500',
+    stellium: '#333'
+  },
+  PATTERNS_OPACITY: 0.2,
+
+  // Fill of the sign of the profected year, @see Radix.profections()
+  PROFECTION_COLOR: '#F4D03F',
+
+  // Aspect grid cell size for SYMBOL_SCALE : 1
+  ASPECTARIAN_CELL_SIZE: 30, // px
+
+  // Corner of the paper for the aspect grid drawn into the chart
+  ASPECTARIAN_POSITION: 'bottom-left',
+
+  // Declination strip width for SYMBOL_SCALE : 1
+  DECLINATION_STRIP_WIDTH: 50, // px
+
+  // Side of the paper for the declination strip drawn into the chart
+  DECLINATION_STRIP_POSITION: 'right',
+
+  // Minimal declination shown by the strip
+  DECLINATION_RANGE: 30, // degree
+
+  // Color of out-of-bounds markers
+  DECLINATION_OUT_OF_BOUNDS_COLOR: '#FF4500',
+
+  // Dispositor tree cell size for SYMBOL_SCALE : 1
+  DISPOSITORS_CELL_SIZE: 40, // px
+
+  // Corner of the paper for the dispositor tree drawn into the chart
+  DISPOSITORS_POSITION: 'top-left',
+
+  // Timeline row height of one level of periods for SYMBOL_SCALE : 1
+  TIMELINE_ROW_HEIGHT: 30, // px
+
+  // Fill of the peak periods of the zodiacal releasing
+  TIMELINE_PEAK_COLOR: '#F4D03F',
+
+  // Mark of the loosing of the bond
+  TIMELINE_LOOSING_OF_THE_BOND_COLOR: '#FF4500',
+
   // Dignities
   SHOW_DIGNITIES_TEXT: true,
   DIGNITIES_RULERSHIP: 'r',
@@ -309,9 +593,56 @@ const settings: Settings = {
     { name: 'NNode', position: 63, orbit: 2 } // 3 Geminy
   ],
 
+  // Named schemes of rulers of the signs from Aries to Pisces, the first one is the main ruler.
+  // Add own scheme to use custom rulerships.
+  RULERSHIP_SCHEMES: {
+    traditional: TRADITIONAL_RULERSHIPS,
+    modern: MODERN_RULERSHIPS
+  },
+
+  // Rulership scheme of dignities, dispositors and house rulers
+  RULERSHIP_SCHEME: 'modern',
+
+  // Rulers of the signs for rulership and detriment of dignities by the scheme name.
+  // Schemes without own table use the rulers of RULERSHIP_SCHEMES
+  DIGNITIES_RULERSHIP_SCHEMES: {
+    modern: MODERN_DIGNITY_RULERSHIPS
+  },
+
+  // Rulership scheme of the time lords, the hellenistic techniques use the traditional rulers
+  TIME_LORDS_RULERSHIP_SCHEME: 'traditional',
+
+  // Nodes in the nocturnal firdaria, 'end' after all planets (Bonatti) or 'afterMars' (Abu Ma'shar).
+  // The diurnal sequence ends with Mars and the nodes in both conventions
+  FIRDARIA_NODES: 'end',
+
+  // Exaltation and fall by signs of the planets, detriment is opposite to the rulership
+  DIGNITIES_SIGNS: SIGN_DIGNITIES,
+
+  // Triplicity rulers of fire, earth, air and water signs
+  DIGNITIES_TRIPLICITIES: TRIPLICITIES,
+
+  // Terms (bounds) of the signs, @see PTOLEMAIC_TERMS
+  DIGNITIES_TERMS: EGYPTIAN_TERMS,
+
+  // Faces (decans) of the signs
+  DIGNITIES_FACES: CHALDEAN_FACES,
+
+  // Essential dignity score, points of each dignity and debility
+  DIGNITIES_SCORES: LILLY_SCORES,
+
   // 0 - 4
   ANIMATION_CUSPS_ROTATION_SPEED: 2,
 
+  // Seconds between two ticks of the live sky clock
+  SKY_CLOCK_INTERVAL: 60,
+
+  // Seconds of the transit animation on each tick of the sky clock
+  SKY_CLOCK_ANIMATION_DURATION: 1,
+
+  // Whole turns of the cusps on each tick of the sky clock, @see ANIMATION_CUSPS_ROTATION_SPEED
+  SKY_CLOCK_CUSPS_ROTATION_SPEED: 0,
+
   DEBUG: false
 }
 
@@ -85,6 +85,24 @@ describe('SVG', () => {
     )
   })
 
+  describe('getSymbol - aspects', () => {
+    test.each(['conjunction', 'opposition', 'square', 'trine', 'sextile', 'quincunx', 'semisextile', 'semisquare', 'sesquiquadrate'])('should render %s aspect symbol', (aspect) => {
+      const svg = createSVG()
+      const symbol = svg.getSymbol(aspect, 100, 100)
+      expect(symbol.tagName).toBe('g')
+      expect(symbol.querySelector('path')).not.toBeNull()
+    })
+  })
+
+  describe('getSymbol - harmonic aspects', () => {
+    test.each([['quintile', 'Q'], ['biquintile', 'bQ'], ['septile', 'S7']])('should render %s aspect as text', (aspect, label) => {
+      const svg = createSVG()
+      const symbol = svg.getSymbol(aspect, 100, 100)
+      expect(symbol.tagName).toBe('text')
+      expect(symbol.textContent).toBe(label)
+    })
+  })
+
   describe('getSymbol - unknown symbol', () => {
     test('should render a colored circle for unknown symbols', () => {
       const svg = createSVG()
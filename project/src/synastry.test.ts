@@ -0,0 +1,93 @@
+import Chart from './chart'
+import default_settings from './settings'
+
+const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
+
+const personA = {
+  planets: { Sun: [10], Moon: [100], Venus: [200] } as Record<string, number[]>,
+  cusps: [...cusps]
+}
+
+const personB = {
+  planets: { Sun: [13], Moon: [280, -1], Mars: [45] } as Record<string, number[]>,
+  cusps: [15, 45, 75, 105, 135, 165, 195, 225, 255, 285, 315, 345]
+}
+
+describe('Synastry', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  test('should draw both persons with own IDs', () => {
+    const chart = new Chart('chart', 800, 800)
+    chart.synastry(personA, personB)
+
+    expect(document.getElementById('chart-astrology-person-a-planets-Sun')).not.toBeNull()
+    expect(document.getElementById('chart-astrology-person-b-planets-Sun')).not.toBeNull()
+    expect(document.getElementById('chart-astrology-transit')).toBeNull()
+    expect(document.getElementById('chart-astrology-radix')).toBeNull()
+  })
+
+  test('should use custom IDs from settings', () => {
+    const chart = new Chart('chart', 800, 800, { ID_PERSON_A: 'anna', ID_PERSON_B: 'bob' })
+    chart.synastry(personA, personB)
+
+    expect(document.getElementById('chart-astrology-anna-planets-Moon')).not.toBeNull()
+    expect(document.getElementById('chart-astrology-bob-planets-Moon')).not.toBeNull()
+  })
+
+  test('should calculate cross aspects without direction', () => {
+    const chart = new Chart('chart', 800, 800)
+    const aspects = chart.synastry(personA, personB).getAspects()
+
+    const sunSun = aspects.find(aspect => aspect.point.name === 'Sun' && aspect.toPoint.name === 'Sun')
+    expect(sunSun).toBeDefined()
+    expect(sunSun!.aspect.name).toBe('conjunction')
+    expect(sunSun!.precision).toBe('3.0000')
+
+    // Moon(B) 280 - Sun(A) 10 is square, retrograde Moon does not change the sign
+    const moonSquare = aspects.find(aspect => aspect.point.name === 'Moon' && aspect.toPoint.name === 'Sun')
+    expect(moonSquare!.aspect.name).toBe('square')
+    expect(moonSquare!.precision).toBe('0.0000')
+    aspects.forEach(aspect => expect(parseFloat(aspect.precision)).toBeGreaterThanOrEqual(0))
+  })
+
+  test('should not apply or separate between natal charts', () => {
+    const aspects = new Chart('chart', 800, 800).synastry(personA, { ...personB, planets: { Sun: [13, 1], Moon: [280, -1] } }).getAspects()
+
+    const sunSun = aspects.find(aspect => aspect.point.name === 'Sun' && aspect.toPoint.name === 'Sun')!
+    expect(sunSun.orb).toBe(3)
+    expect(sunSun.isOutOfSign).toBe(false)
+    aspects.forEach(aspect => {
+      expect(aspect.applying).toBe(false)
+      expect(aspect.exactIn).toBeNull()
+    })
+  })
+
+  test('should use synastry orbs', () => {
+    const chart = new Chart('chart', 800, 800, {
+      SYNASTRY_ASPECTS: { conjunction: { degree: 0, orbit: 4, color: 'red' } }
+    })
+    const aspects = chart.synastry(personA, personB).getAspects()
+
+    // Sun-Sun is 3° apart, out of 2° orb
+    expect(aspects).toHaveLength(0)
+  })
+
+  test('should draw aspects', () => {
+    const chart = new Chart('chart', 800, 800)
+    chart.synastry(personA, personB).aspects()
+
+    const lines = document.querySelectorAll('#chart-astrology-aspects > line')
+    expect(lines.length).toBeGreaterThan(0)
+    expect(lines[0].getAttribute('stroke')).toBe(default_settings.SYNASTRY_ASPECTS.square.color)
+  })
+
+  test('should report house overlays both ways', () => {
+    const chart = new Chart('chart', 800, 800)
+    const overlays = chart.synastry(personA, personB).getHouseOverlays()
+
+    expect(overlays.bInA).toStrictEqual({ Sun: 1, Moon: 10, Mars: 2 })
+    expect(overlays.aInB).toStrictEqual({ Sun: 12, Moon: 3, Venus: 7 })
+  })
+})
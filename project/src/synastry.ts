@@ -0,0 +1,115 @@
+import Zodiac from './zodiac'
+import AspectCalculator from './aspect'
+import type { FormedAspect } from './aspect'
+import Aspectarian from './aspectarian'
+import type { AspectarianOptions } from './aspectarian'
+import type { AstroData, Points } from './radix'
+import type Radix from './radix'
+import type Transit from './transit'
+import type { Settings } from './settings'
+
+export interface HouseOverlays {
+  // houses of the person A occupied by points of the person B
+  bInA: Record<string, number>
+  // houses of the person B occupied by points of the person A
+  aInB: Record<string, number>
+}
+
+/**
+   * Synastry charts.
+   *
+   * Bi-wheel of two persons. The person A is drawn as radix,
+   * the person B as the ring around it.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {Radix} radix - chart of the person A
+   * @param {Transit} ring - chart of the person B
+   * @param {Object} settings
+   */
+class Synastry {
+  radix: Radix
+  ring: Transit
+  settings: Settings
+  context: this
+  constructor (radix: Radix, ring: Transit, settings: Settings) {
+    this.radix = radix
+    this.ring = ring
+    this.settings = settings
+
+    this.context = this
+  }
+
+  /**
+   * Aspects between planets of the person B and points of the person A
+   *
+   * @return {Array<Object>} [{"aspect":{"name":"conjunction", "degree":120}"", "point":{"name":"Sun", "position":123}, "toPoint":{"name":"Moon", "position":345}, "precision":0.5}]]
+   */
+  getAspects (): FormedAspect[] {
+    return new AspectCalculator(this.radix.toPoints, { ...this.settings }).synastry(this.ring.data.planets)
+  }
+
+  /**
+   * Draw aspects
+   * @param{Array<Object> | null} customAspects - posible custom aspects to draw;
+   */
+  aspects (customAspects?: FormedAspect[] | null): Synastry {
+    const aspectsList = customAspects != null && Array.isArray(customAspects)
+      ? customAspects
+      : this.getAspects()
+
+    this.ring.aspects(aspectsList)
+
+    return this.context
+  }
+
+  /**
+   * Draw aspect grid, points of the person A in rows and of the person B in columns
+   * @param {Object | undefined} options, {elementId:"grid", aspects:[...]}
+   * @return {Aspectarian} grid
+   */
+  aspectarian (options?: AspectarianOptions): Aspectarian {
+    const aspectsList = options?.aspects != null && Array.isArray(options.aspects)
+      ? options.aspects
+      : this.getAspects()
+
+    const grid = new Aspectarian(this.ring.paper, this.ring.id + '-' + this.settings.ID_ASPECTARIAN, Object.keys(this.radix.toPoints), Object.keys(this.ring.data.planets), aspectsList, this.settings)
+    grid.draw(options?.elementId)
+
+    return grid
+  }
+
+  /**
+   * Houses where the points of one person fall in the chart of the other one
+   *
+   * @return {Object} {"bInA":{"Sun":1, "Moon":7}, "aInB":{"Sun":4, "Moon":12}}
+   */
+  getHouseOverlays (): HouseOverlays {
+    return {
+      bInA: this.getHouses(this.ring.data.planets, this.radix.data),
+      aInB: this.getHouses(this.radix.data.planets, this.ring.data)
+    }
+  }
+
+  /*
+   * @private
+   * @param {Object} points
+   * @param {Object} data - chart with houses
+   * @return {Object}
+   */
+  getHouses (points: Points, data: AstroData): Record<string, number> {
+    const result: Record<string, number> = {}
+    const zodiac = new Zodiac(data.cusps, this.settings)
+
+    for (const point in points) {
+      if (points.hasOwnProperty(point)) {
+        result[point] = zodiac.getHouseNumber(points[point][0])
+      }
+    }
+
+    return result
+  }
+}
+
+export default Synastry
@@ -0,0 +1,106 @@
+import {
+  toJulianDay, fromJulianDay, dateToJulianDay, julianDayToDate, getInstant, getDeltaT, toTerrestrialTime,
+  getNutation, getObliquity, getGreenwichSiderealTime, getLocalSiderealTime, getDecimalYear, J2000
+} from './time'
+
+describe('toJulianDay', () => {
+  test.each([
+    [{ year: 2000, month: 1, day: 1.5 }, 2451545.0],
+    [{ year: 1957, month: 10, day: 4.81 }, 2436116.31],
+    [{ year: 1987, month: 6, day: 19, hour: 12 }, 2446966.0],
+    [{ year: 1988, month: 1, day: 27 }, 2447187.5],
+    [{ year: 1600, month: 12, day: 31 }, 2305812.5]
+  ])('should convert the gregorian date %o', (date, julianDay) => {
+    expect(toJulianDay(date)).toBeCloseTo(julianDay, 6)
+  })
+
+  test.each([
+    [{ year: 333, month: 1, day: 27, hour: 12 }, 1842713.0],
+    [{ year: -1000, month: 7, day: 12.5 }, 1356001.0],
+    [{ year: 1582, month: 10, day: 4 }, 2299159.5]
+  ])('should convert the julian date %o', (date, julianDay) => {
+    expect(toJulianDay(date, 'julian')).toBeCloseTo(julianDay, 6)
+  })
+
+  test('should continue the julian calendar by the gregorian one', () => {
+    expect(toJulianDay({ year: 1582, month: 10, day: 15 }) - toJulianDay({ year: 1582, month: 10, day: 4 }, 'julian')).toBe(1)
+  })
+})
+
+describe('fromJulianDay', () => {
+  test('should convert to the gregorian date', () => {
+    expect(fromJulianDay(2436116.31)).toEqual({ year: 1957, month: 10, day: 4, hour: 19, minute: 26, second: 24 })
+    expect(fromJulianDay(J2000)).toEqual({ year: 2000, month: 1, day: 1, hour: 12, minute: 0, second: 0 })
+  })
+
+  test('should convert to the julian date', () => {
+    expect(fromJulianDay(1842713.0, 'julian')).toEqual({ year: 333, month: 1, day: 27, hour: 12, minute: 0, second: 0 })
+    expect(fromJulianDay(1507900.13, 'julian')).toMatchObject({ year: -584, month: 5, day: 28 })
+  })
+
+  test('should be inverse to toJulianDay', () => {
+    const date = { year: 1990, month: 2, day: 28, hour: 23, minute: 59, second: 30 }
+    expect(fromJulianDay(toJulianDay(date))).toEqual(date)
+  })
+})
+
+describe('instants', () => {
+  test('should convert dates to Julian days and back', () => {
+    expect(dateToJulianDay(new Date('2000-01-01T12:00:00Z'))).toBe(J2000)
+    expect(julianDayToDate(2446895.5).toISOString()).toBe('1987-04-10T00:00:00.000Z')
+  })
+
+  test('should convert the instant to the decimal year', () => {
+    expect(getDecimalYear(new Date('2000-01-01T12:00:00Z'))).toBe(2000)
+    expect(getDecimalYear(new Date('1950-07-02T12:00:00Z'))).toBeCloseTo(1950.5, 2)
+  })
+
+  test('should throw on invalid date', () => {
+    expect(() => dateToJulianDay(new Date('invalid'))).toThrow('Param \'date\' has to be a valid date.')
+  })
+
+  test('should convert the local civil time to the instant', () => {
+    expect(getInstant({ year: 1990, month: 6, day: 15, hour: 14, minute: 30 }, 2).toISOString()).toBe('1990-06-15T12:30:00.000Z')
+    expect(getInstant({ year: 1990, month: 12, day: 31, hour: 22 }, -5).toISOString()).toBe('1991-01-01T03:00:00.000Z')
+    expect(getInstant({ year: 2000, month: 1, day: 1, hour: 5, minute: 30 }, 5.5).toISOString()).toBe('2000-01-01T00:00:00.000Z')
+  })
+})
+
+describe('time scales', () => {
+  test('should estimate delta T', () => {
+    expect(getDeltaT(2000)).toBeCloseTo(63.9, 0)
+    expect(getDeltaT(1950)).toBeCloseTo(29.1, 0)
+    expect(getDeltaT(1900)).toBeCloseTo(-2.8, 0)
+    expect(getDeltaT(2020)).toBeGreaterThan(68)
+  })
+
+  test('should convert the universal time to the terrestrial time', () => {
+    expect((toTerrestrialTime(J2000) - J2000) * 86400).toBeCloseTo(63.9, 0)
+  })
+})
+
+describe('earth rotation', () => {
+  test('should calculate the nutation and obliquity of the Meeus example', () => {
+    const julianDay = 2446895.5
+    const nutation = getNutation(julianDay)
+    expect(nutation.longitude * 3600).toBeCloseTo(-3.788, 0)
+    expect(nutation.obliquity * 3600).toBeCloseTo(9.443, 0)
+    expect(getObliquity(julianDay, false)).toBeCloseTo(23.440946, 5)
+    expect(getObliquity(julianDay)).toBeCloseTo(23.443569, 3)
+  })
+
+  test('should return the mean obliquity of J2000', () => {
+    expect(getObliquity(J2000, false)).toBe(23.4392911)
+  })
+
+  test('should calculate the sidereal time of the Meeus examples', () => {
+    expect(getGreenwichSiderealTime(2446895.5)).toBeCloseTo(197.693195, 5)
+    expect(getGreenwichSiderealTime(dateToJulianDay(new Date('1987-04-10T19:21:00Z')))).toBeCloseTo(128.7378734, 4)
+  })
+
+  test('should add the east longitude to the local sidereal time', () => {
+    expect(getLocalSiderealTime(2446895.5, 14.42)).toBeCloseTo(212.113195, 5)
+    expect(getLocalSiderealTime(2446895.5, -77)).toBeCloseTo(120.693195, 5)
+    expect(getLocalSiderealTime(2446895.5, 170)).toBeCloseTo(7.693195, 5)
+  })
+})
@@ -0,0 +1,236 @@
+import { degreeToRadians } from './utils'
+
+export type Calendar = 'gregorian' | 'julian'
+
+export interface CalendarDate {
+  year: number
+  // 1 - January, ... , 12 - December
+  month: number
+  day: number
+  hour?: number
+  minute?: number
+  second?: number
+}
+
+// Julian day of 2000-01-01T12:00:00 TT
+export const J2000 = 2451545.0
+
+// Julian day of 1970-01-01T00:00:00Z
+const UNIX_EPOCH = 2440587.5
+const MILLISECONDS_PER_DAY = 86400000
+const SECONDS_PER_DAY = 86400
+const DAYS_PER_CENTURY = 36525
+const DAYS_PER_YEAR = 365.25
+
+const normalize = (angle: number): number => ((angle % 360) + 360) % 360
+
+/**
+ * Julian day of the calendar date, Jean Meeus, Astronomical Algorithms, chapter 7
+ *
+ * @param {Object} date - {year:2000, month:1, day:1, hour:12}, astronomical numbering of years, 0 = 1 BC
+ * @param {Calendar} calendar - 'gregorian' by default
+ * @return {double}
+ */
+export const toJulianDay = (date: CalendarDate, calendar: Calendar = 'gregorian'): number => {
+  let year = date.year
+  let month = date.month
+  if (month <= 2) {
+    year -= 1
+    month += 12
+  }
+
+  const day = date.day + ((date.hour ?? 0) + (date.minute ?? 0) / 60 + (date.second ?? 0) / 3600) / 24
+  const century = Math.floor(year / 100)
+  const correction = calendar === 'gregorian' ? 2 - century + Math.floor(century / 4) : 0
+
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + correction - 1524.5
+}
+
+/**
+ * Calendar date of the Julian day
+ *
+ * @param {double} julianDay
+ * @param {Calendar} calendar - 'gregorian' by default
+ * @return {Object} {year, month, day, hour, minute, second}
+ */
+export const fromJulianDay = (julianDay: number, calendar: Calendar = 'gregorian'): CalendarDate => {
+  const Z = Math.floor(julianDay + 0.5)
+  const F = julianDay + 0.5 - Z
+
+  let A = Z
+  if (calendar === 'gregorian') {
+    const alpha = Math.floor((Z - 1867216.25) / 36524.25)
+    A = Z + 1 + alpha - Math.floor(alpha / 4)
+  }
+
+  const B = A + 1524
+  const C = Math.floor((B - 122.1) / 365.25)
+  const D = Math.floor(365.25 * C)
+  const E = Math.floor((B - D) / 30.6001)
+
+  const month = E < 14 ? E - 1 : E - 13
+  const seconds = Math.min(Math.round(F * SECONDS_PER_DAY * 1000) / 1000, SECONDS_PER_DAY - 0.001)
+
+  return {
+    year: month > 2 ? C - 4716 : C - 4715,
+    month,
+    day: B - D - Math.floor(30.6001 * E),
+    hour: Math.floor(seconds / 3600),
+    minute: Math.floor((seconds % 3600) / 60),
+    second: seconds % 60
+  }
+}
+
+/**
+ * Julian day of the instant
+ *
+ * @param {Date} date
+ * @return {double} universal time
+ */
+export const dateToJulianDay = (date: Date): number => {
+  if (isNaN(date.getTime())) {
+    throw new Error('Param \'date\' has to be a valid date.')
+  }
+  return date.getTime() / MILLISECONDS_PER_DAY + UNIX_EPOCH
+}
+
+/**
+ * Instant of the Julian day
+ *
+ * @param {double} julianDay - universal time
+ * @return {Date}
+ */
+export const julianDayToDate = (julianDay: number): Date => {
+  return new Date(Math.round((julianDay - UNIX_EPOCH) * MILLISECONDS_PER_DAY))
+}
+
+/**
+ * Instant of the local civil time
+ *
+ * @param {Object} local - {year:1990, month:6, day:15, hour:14, minute:30}
+ * @param {double} utcOffset - hours east of Greenwich including the daylight saving time, e.g. 2 for CEST, -5 for EST
+ * @param {Calendar} calendar - 'gregorian' by default
+ * @return {Date} UTC instant
+ */
+export const getInstant = (local: CalendarDate, utcOffset: number, calendar: Calendar = 'gregorian'): Date => {
+  return julianDayToDate(toJulianDay(local, calendar) - utcOffset / 24)
+}
+
+/**
+ * Julian centuries from J2000
+ *
+ * @param {double} julianDay
+ * @return {double}
+ */
+export const getJulianCenturies = (julianDay: number): number => (julianDay - J2000) / DAYS_PER_CENTURY
+
+/**
+ * Decimal year of the instant, e.g. 1990.5
+ *
+ * @param {Date} date
+ * @return {double}
+ */
+export const getDecimalYear = (date: Date): number => 2000 + (dateToJulianDay(date) - J2000) / DAYS_PER_YEAR
+
+/**
+ * Estimation of the difference between the terrestrial and universal time,
+ * polynomials of Espenak and Meeus
+ *
+ * @param {double} year - decimal year
+ * @return {double} seconds
+ */
+export const getDeltaT = (year: number): number => {
+  if (year >= 1900 && year < 1920) {
+    const t = year - 1900
+    return -2.79 + 1.494119 * t - 0.0598939 * t * t + 0.0061966 * t * t * t - 0.000197 * t * t * t * t
+  }
+  if (year >= 1920 && year < 1941) {
+    const t = year - 1920
+    return 21.20 + 0.84493 * t - 0.076100 * t * t + 0.0020936 * t * t * t
+  }
+  if (year >= 1941 && year < 1961) {
+    const t = year - 1950
+    return 29.07 + 0.407 * t - t * t / 233 + t * t * t / 2547
+  }
+  if (year >= 1961 && year < 1986) {
+    const t = year - 1975
+    return 45.45 + 1.067 * t - t * t / 260 - t * t * t / 718
+  }
+  if (year >= 1986 && year < 2005) {
+    const t = year - 2000
+    return 63.86 + 0.3345 * t - 0.060374 * t * t + 0.0017275 * t * t * t + 0.000651814 * t * t * t * t + 0.00002373599 * t * t * t * t * t
+  }
+  if (year >= 2005 && year < 2050) {
+    const t = year - 2000
+    return 62.92 + 0.32217 * t + 0.005589 * t * t
+  }
+
+  const u = (year - 1820) / 100
+  if (year >= 2050 && year < 2150) {
+    return -20 + 32 * u * u - 0.5628 * (2150 - year)
+  }
+  return -20 + 32 * u * u
+}
+
+/**
+ * Terrestrial time of the universal time
+ *
+ * @param {double} julianDay - universal time
+ * @return {double} Julian day of the terrestrial time
+ */
+export const toTerrestrialTime = (julianDay: number): number => {
+  const year = 2000 + (julianDay - J2000) / DAYS_PER_YEAR
+  return julianDay + getDeltaT(year) / SECONDS_PER_DAY
+}
+
+/**
+ * Nutation in longitude and obliquity, the main terms
+ *
+ * @param {double} julianDay - terrestrial time
+ * @return {Object} {longitude, obliquity}, degree
+ */
+export const getNutation = (julianDay: number): { longitude: number; obliquity: number } => {
+  const T = getJulianCenturies(julianDay)
+  const node = degreeToRadians(125.04452 - 1934.136261 * T)
+  const sun = degreeToRadians(280.4665 + 36000.7698 * T)
+  const moon = degreeToRadians(218.3165 + 481267.8813 * T)
+  return {
+    longitude: (-17.20 * Math.sin(node) - 1.32 * Math.sin(2 * sun) - 0.23 * Math.sin(2 * moon) + 0.21 * Math.sin(2 * node)) / 3600,
+    obliquity: (9.20 * Math.cos(node) + 0.57 * Math.cos(2 * sun) + 0.10 * Math.cos(2 * moon) - 0.09 * Math.cos(2 * node)) / 3600
+  }
+}
+
+/**
+ * Obliquity of the ecliptic
+ *
+ * @param {double} julianDay - terrestrial time
+ * @param {boolean} isTrue - with the nutation, true by default
+ * @return {double} degree
+ */
+export const getObliquity = (julianDay: number, isTrue: boolean = true): number => {
+  const T = getJulianCenturies(julianDay)
+  const mean = 23.4392911 - (46.8150 * T + 0.00059 * T * T - 0.001813 * T * T * T) / 3600
+  return isTrue ? mean + getNutation(julianDay).obliquity : mean
+}
+
+/**
+ * Greenwich mean sidereal time
+ *
+ * @param {double} julianDay - universal time
+ * @return {double} degree, 15 degrees per hour
+ */
+export const getGreenwichSiderealTime = (julianDay: number): number => {
+  const T = getJulianCenturies(julianDay)
+  return normalize(280.46061837 + 360.98564736629 * (julianDay - J2000) + 0.000387933 * T * T - T * T * T / 38710000)
+}
+
+/**
+ * Local mean sidereal time, the right ascension of the MC
+ *
+ * @param {double} julianDay - universal time
+ * @param {double} longitude - geographic longitude, east is positive, degree
+ * @return {double} degree, 15 degrees per hour
+ */
+export const getLocalSiderealTime = (julianDay: number, longitude: number): number => {
+  return normalize(getGreenwichSiderealTime(julianDay) + longitude)
+}
@@ -0,0 +1,71 @@
+import Chart from './chart'
+import Timeline from './timeline'
+import default_settings from './settings'
+
+const data = {
+  planets: { Sun: [280.5], Moon: [130] } as Record<string, number[]>,
+  cusps: [250, 280, 310, 340, 10, 40, 70, 100, 130, 160, 190, 220]
+}
+
+const birthDate = new Date('1990-03-15T08:00:00Z')
+const wrapperId = 'chart-astrology-' + default_settings.ID_RADIX + '-' + default_settings.ID_TIMELINE
+
+describe('Timeline', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div><div id="timeline"></div>'
+  })
+
+  test('should draw a row for each level of the periods', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    const timeline = radix.timeline(radix.getZodiacalReleasing(birthDate))
+    expect(timeline.getLevels()).toBe(2)
+
+    const wrapper = document.getElementById(wrapperId)!
+    const levels = Array.from(wrapper.querySelectorAll('g[data-level]')).map(group => group.getAttribute('data-level'))
+    expect(levels.filter(level => level === '1').length).toBe(radix.getZodiacalReleasing(birthDate).length)
+    expect(levels.filter(level => level === '2').length).toBeGreaterThan(12)
+  })
+
+  test('should place the periods by their dates', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    const periods = radix.getFirdaria(birthDate)
+    radix.timeline(periods)
+
+    const padding = default_settings.PADDING * default_settings.SYMBOL_SCALE
+    const rects = document.querySelectorAll('#' + wrapperId + ' g[data-level="1"] > rect')
+    expect(parseFloat(rects[0].getAttribute('x')!)).toBeCloseTo(padding, 6)
+    const last = rects[rects.length - 1]
+    expect(parseFloat(last.getAttribute('x')!) + parseFloat(last.getAttribute('width')!)).toBeCloseTo(800 - padding, 6)
+    expect(parseFloat(last.getAttribute('y')!)).toBeCloseTo(800 - padding - 2 * default_settings.TIMELINE_ROW_HEIGHT, 6)
+  })
+
+  test('should mark the peaks and the loosing of the bond', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    radix.timeline(radix.getZodiacalReleasing(birthDate))
+
+    const peak = document.querySelector('#' + wrapperId + ' g[data-level="1"][data-peak="true"]')!
+    expect(peak.getAttribute('data-sign')).toBe('5')
+    expect(peak.querySelector('rect')?.getAttribute('fill')).toBe(default_settings.TIMELINE_PEAK_COLOR)
+    expect(document.querySelectorAll('#' + wrapperId + ' g[data-loosing-of-the-bond="true"]').length).toBeGreaterThan(0)
+  })
+
+  test('should draw the glyphs of the lords of firdaria', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    radix.timeline(radix.getFirdaria(birthDate))
+    const moon = document.querySelector('#' + wrapperId + ' g[data-level="1"][data-lord="Moon"]')!
+    expect(moon.getAttribute('data-sign')).toBeNull()
+    expect(moon.children.length).toBe(2)
+  })
+
+  test('should draw into separate container', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    radix.timeline(radix.getFirdaria(birthDate), { elementId: 'timeline' })
+    expect(document.querySelector('#timeline svg')).not.toBeNull()
+    expect(document.querySelectorAll('#timeline g[data-level="1"]').length).toBe(9)
+  })
+
+  test('should throw on empty periods', () => {
+    const radix = new Chart('chart', 800, 800).radix(data)
+    expect(() => new Timeline(radix.paper, 'timeline', [], radix.settings)).toThrow('Param \'periods\' must not be empty.')
+  })
+})
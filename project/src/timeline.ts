@@ -0,0 +1,147 @@
+import SVG from './svg'
+import type { Settings } from './settings'
+import type { TimeLordPeriod, ReleasingPeriod } from './timelords'
+import { getEmptyWrapper } from './utils'
+
+export interface TimelineOptions {
+  // ID of a separate container, the timeline is drawn into the chart paper by default
+  elementId?: string
+}
+
+/**
+   * Timeline of time lords.
+   *
+   * Linear timeline of periods, one row for each level of the sub-periods.
+   * The periods of the signs show the sign, the other ones the lord.
+   * Peak periods are filled, loosing of the bond is marked by a dashed line.
+   *
+   * @class
+   * @public
+   * @constructor
+   * @param {SVG} paper - paper of the chart
+   * @param {String} id - element ID of the timeline
+   * @param {Array<Object>} periods - @see getZodiacalReleasing(), getFirdaria()
+   * @param {Object} settings
+   */
+class Timeline {
+  paper: SVG
+  id: string
+  periods: TimeLordPeriod[]
+  settings: Settings
+  rowHeight: number
+  context: this
+  constructor (paper: SVG, id: string, periods: TimeLordPeriod[], settings: Settings) {
+    if (periods.length === 0) {
+      throw new Error('Param \'periods\' must not be empty.')
+    }
+
+    this.paper = paper
+    this.id = id
+    this.periods = periods
+    this.settings = settings
+    this.rowHeight = this.settings.TIMELINE_ROW_HEIGHT * this.settings.SYMBOL_SCALE
+
+    this.context = this
+  }
+
+  /**
+   * Number of levels of the periods
+   *
+   * @return {int}
+   */
+  getLevels (): number {
+    const depth = (periods: TimeLordPeriod[]): number => periods.reduce((max, period) => Math.max(max, 1 + depth(period.periods)), 0)
+    return depth(this.periods)
+  }
+
+  /**
+   * Draw the timeline into the chart paper or into a separate container
+   *
+   * @param {String | undefined} elementId - ID of a separate container
+   * @return {Element} wrapper of the timeline
+   */
+  draw (elementId?: string): Element {
+    const padding = this.settings.PADDING * this.settings.SYMBOL_SCALE
+    const height = this.getLevels() * this.rowHeight
+
+    if (elementId != null) {
+      const paper = new SVG(elementId, this.paper.width, height + 2 * padding, this.settings, this.paper.pageDocument)
+      return this.drawInto(paper, padding, padding, this.paper.width - 2 * padding)
+    }
+
+    return this.drawInto(this.paper, padding, this.paper.height - padding - height, this.paper.width - 2 * padding)
+  }
+
+  /*
+   * @private
+   * @param {SVG} paper
+   * @param {Number} x - left
+   * @param {Number} y - top
+   * @param {Number} width
+   */
+  drawInto (paper: SVG, x: number, y: number, width: number): Element {
+    const wrapper = getEmptyWrapper(paper.root, paper.root.id + '-' + this.id, paper.root.id)
+
+    const start = this.periods[0].start.getTime()
+    const end = this.periods[this.periods.length - 1].end.getTime()
+    const toX = (date: Date): number => x + (date.getTime() - start) / (end - start) * width
+
+    this.drawPeriods(paper, wrapper, this.periods, y, toX)
+
+    return wrapper
+  }
+
+  /*
+   * Periods of one level, their sub-periods in the next row
+   * @private
+   */
+  drawPeriods (paper: SVG, wrapper: Element, periods: TimeLordPeriod[], y: number, toX: (date: Date) => number): void {
+    const size = 2 * this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE
+
+    for (let i = 0; i < periods.length; i++) {
+      const period = periods[i] as Partial<ReleasingPeriod> & TimeLordPeriod
+      const left = toX(period.start)
+      const right = toX(period.end)
+
+      const group = paper.renderer.group()
+      group.setAttribute('data-level', period.level.toString())
+      group.setAttribute('data-lord', period.lord)
+      group.setAttribute('data-start', period.start.toISOString())
+      group.setAttribute('data-end', period.end.toISOString())
+
+      const rect = paper.renderer.rect(left, y, right - left, this.rowHeight)
+      paper.renderer.setStyle(rect, {
+        stroke: this.settings.LINE_COLOR,
+        strokeWidth: this.settings.CUSPS_STROKE,
+        fill: period.isPeak === true && !this.settings.STROKE_ONLY ? this.settings.TIMELINE_PEAK_COLOR : 'none'
+      })
+      group.appendChild(rect)
+
+      if (period.sign != null) {
+        group.setAttribute('data-sign', period.sign.toString())
+        group.setAttribute('data-peak', String(period.isPeak))
+      }
+
+      if (period.isLoosingOfTheBond === true) {
+        group.setAttribute('data-loosing-of-the-bond', 'true')
+        const line = paper.line(left, y, left, y + this.rowHeight)
+        paper.renderer.setStyle(line, { stroke: this.settings.TIMELINE_LOOSING_OF_THE_BOND_COLOR, strokeWidth: 2 * this.settings.CUSPS_STROKE, strokeDasharray: '4,2' })
+        group.appendChild(line)
+      }
+
+      // no glyph in too narrow periods
+      if (right - left >= size) {
+        const name = period.sign != null ? this.settings.SYMBOL_SIGNS[period.sign - 1] : period.lord
+        group.appendChild(paper.getSymbol(name, (left + right) / 2, y + this.rowHeight / 2, this.settings))
+      }
+
+      wrapper.appendChild(group)
+
+      if (period.periods.length > 0) {
+        this.drawPeriods(paper, wrapper, period.periods, y + this.rowHeight, toX)
+      }
+    }
+  }
+}
+
+export default Timeline
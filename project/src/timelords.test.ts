@@ -0,0 +1,225 @@
+import { profect, getProfections, getAge, getLots, getZodiacalReleasing, getFirdaria, RELEASING_YEARS } from './timelords'
+import Chart from './chart'
+import default_settings from './settings'
+
+const natal = {
+  planets: { Sun: [280.5], Moon: [100] } as Record<string, number[]>,
+  cusps: [250, 280, 310, 340, 10, 40, 70, 100, 130, 160, 190, 220]
+}
+
+const birthDate = new Date('1990-03-15T08:00:00Z')
+
+describe('getAge', () => {
+  test('should count the completed years', () => {
+    expect(getAge(birthDate, birthDate)).toBe(0)
+    expect(getAge(birthDate, new Date('2020-03-15T07:59:59Z'))).toBe(29)
+    expect(getAge(birthDate, new Date('2020-03-15T08:00:00Z'))).toBe(30)
+    expect(getAge(birthDate, new Date('2021-01-01T00:00:00Z'))).toBe(30)
+  })
+
+  test('should throw before the birth', () => {
+    expect(() => getAge(birthDate, new Date('1989-01-01T00:00:00Z'))).toThrow('Param \'date\' must not be before the birth.')
+    expect(() => getAge(birthDate, new Date('invalid'))).toThrow('Params \'birthDate\' and \'date\' have to be valid dates.')
+  })
+})
+
+describe('profect', () => {
+  test.each([
+    [0, 1, 9, 'Jupiter'],
+    [1, 2, 10, 'Saturn'],
+    [2, 3, 11, 'Saturn'],
+    [5, 6, 2, 'Venus'],
+    [12, 1, 9, 'Jupiter'],
+    [30, 7, 3, 'Mercury']
+  ])('should profect the Ascendant for the age %i', (age, house, sign, lord) => {
+    expect(profect(natal, age)).toEqual({ house, sign, lord })
+  })
+
+  test('should continue by the months of the year', () => {
+    expect(profect(natal, 30, 3)).toEqual({ house: 10, sign: 6, lord: 'Mercury' })
+    expect(profect(natal, 30, 11)).toEqual({ house: 6, sign: 2, lord: 'Venus' })
+  })
+
+  test('should use the rulership scheme of the time lords', () => {
+    expect(profect(natal, 2, 0, { ...default_settings, TIME_LORDS_RULERSHIP_SCHEME: 'modern' }).lord).toBe('Uranus')
+    expect(profect(natal, 2, 0, { ...default_settings, RULERSHIP_SCHEME: 'modern' }).lord).toBe('Saturn')
+  })
+
+  test('should throw on invalid params', () => {
+    expect(() => profect(natal, -1)).toThrow('Param \'age\' has to be a non-negative integer.')
+    expect(() => profect(natal, 1.5)).toThrow('Param \'age\' has to be a non-negative integer.')
+    expect(() => profect(natal, 1, 12)).toThrow('Param \'month\' has to be an integer from 0 to 11.')
+  })
+})
+
+describe('getProfections', () => {
+  test('should return the profected year from the birthday', () => {
+    const { annual } = getProfections(natal, birthDate, new Date('2020-06-01T00:00:00Z'))
+    expect(annual).toEqual({
+      age: 30,
+      month: 0,
+      house: 7,
+      sign: 3,
+      lord: 'Mercury',
+      start: new Date('2020-03-15T08:00:00Z'),
+      end: new Date('2021-03-15T08:00:00Z')
+    })
+  })
+
+  test('should return the month of the profected year', () => {
+    const { monthly } = getProfections(natal, birthDate, new Date('2020-06-01T00:00:00Z'))
+    expect(monthly.month).toBe(2)
+    expect(monthly.sign).toBe(5)
+    expect(monthly.lord).toBe('Sun')
+    expect(monthly.start.getTime()).toBe(new Date('2020-03-15T08:00:00Z').getTime() + 2 * 365 * 86400000 / 12)
+    expect(monthly.end.getTime() - monthly.start.getTime()).toBe(365 * 86400000 / 12)
+  })
+})
+
+describe('Radix.profections', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="chart"></div>'
+  })
+
+  const segment = (i: number): Element | null => document.getElementById('chart-astrology-' + default_settings.ID_RADIX + '-' + default_settings.ID_SIGNS + '-' + i)
+
+  test('should highlight the sign of the profected year', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    const result = radix.profections(birthDate, new Date('2020-06-01T00:00:00Z'))
+    expect(result.annual.sign).toBe(3)
+    expect(segment(2)?.getAttribute('fill')).toBe(default_settings.PROFECTION_COLOR)
+    expect(segment(1)?.getAttribute('fill')).toBe(default_settings.COLORS_SIGNS[1])
+  })
+
+  test('should restore the previous sign', () => {
+    const radix = new Chart('chart', 800, 800).radix(natal)
+    radix.profections(birthDate, new Date('2020-06-01T00:00:00Z'))
+    radix.profections(birthDate, new Date('2021-06-01T00:00:00Z'))
+    expect(segment(2)?.getAttribute('fill')).toBe(default_settings.COLORS_SIGNS[2])
+    expect(segment(3)?.getAttribute('fill')).toBe(default_settings.PROFECTION_COLOR)
+  })
+})
+
+// night chart, the Sun under the horizon
+const nightChart = {
+  planets: { Sun: [280.5], Moon: [130] } as Record<string, number[]>,
+  cusps: natal.cusps
+}
+
+// day chart, the Sun in the 11th house
+const dayChart = {
+  planets: { Sun: [200], Moon: [130] } as Record<string, number[]>,
+  cusps: natal.cusps
+}
+
+const DAY = 86400000
+
+describe('getLots', () => {
+  test('should calculate the lots of the day chart', () => {
+    const lots = getLots(dayChart)
+    expect(lots.fortune).toBeCloseTo(180, 6)
+    expect(lots.spirit).toBeCloseTo(320, 6)
+  })
+
+  test('should reverse the lots in the night chart', () => {
+    const lots = getLots(nightChart)
+    expect(lots.fortune).toBeCloseTo(40.5, 6)
+    expect(lots.spirit).toBeCloseTo(99.5, 6)
+  })
+
+  test('should throw without the lights', () => {
+    expect(() => getLots({ planets: { Sun: [0] }, cusps: natal.cusps })).toThrow('The chart has to contain the Sun and the Moon.')
+  })
+})
+
+describe('getZodiacalReleasing', () => {
+  test('should release the signs from the Lot of Spirit', () => {
+    const periods = getZodiacalReleasing(nightChart, birthDate)
+    expect(periods.slice(0, 4).map(period => period.sign)).toEqual([4, 5, 6, 7])
+    expect(periods.slice(0, 4).map(period => period.lord)).toEqual(['Moon', 'Sun', 'Mercury', 'Venus'])
+    expect(periods[0].start).toEqual(birthDate)
+    expect(periods[0].end.getTime() - birthDate.getTime()).toBe(25 * 360 * DAY)
+    expect(periods[1].start).toEqual(periods[0].end)
+    expect(periods[periods.length - 1].end.getTime()).toBeGreaterThanOrEqual(new Date('2090-03-15T08:00:00Z').getTime())
+  })
+
+  test('should release the signs from the Lot of Fortune', () => {
+    const periods = getZodiacalReleasing(nightChart, birthDate, { lot: 'fortune', levels: 1 })
+    expect(periods[0].sign).toBe(2)
+    expect(periods[0].end.getTime() - birthDate.getTime()).toBe(RELEASING_YEARS[1] * 360 * DAY)
+    expect(periods[0].periods).toEqual([])
+  })
+
+  test('should mark the signs angular to the Lot of Fortune as peaks', () => {
+    const periods = getZodiacalReleasing(nightChart, birthDate, { levels: 1 })
+    expect(periods.filter(period => period.isPeak).map(period => period.sign)).toEqual([5, 8])
+  })
+
+  test('should loose the bond after a whole cycle of the signs', () => {
+    const subPeriods = getZodiacalReleasing(nightChart, birthDate)[0].periods
+    expect(subPeriods.map(period => period.sign)).toEqual([4, 5, 6, 7, 8, 9, 10, 11, 12, 1, 2, 3, 10, 11, 12, 1, 2])
+    expect(subPeriods.filter(period => period.isLoosingOfTheBond).map(period => period.sign)).toEqual([10])
+    expect(subPeriods[0].end.getTime() - birthDate.getTime()).toBe(25 * 30 * DAY)
+  })
+
+  test('should cut the last sub-period by the end of the period', () => {
+    const period = getZodiacalReleasing(nightChart, birthDate)[0]
+    const last = period.periods[period.periods.length - 1]
+    expect(last.end).toEqual(period.end)
+    expect(last.end.getTime() - last.start.getTime()).toBe(150 * DAY)
+  })
+
+  test('should release the deeper levels only within the range', () => {
+    const start = new Date('2020-01-01T00:00:00Z')
+    const periods = getZodiacalReleasing(nightChart, birthDate, { levels: 4, start, end: new Date('2020-02-01T00:00:00Z') })
+    expect(periods[0].periods.length).toBe(0)
+    const current = periods[1].periods.find(period => period.periods.length > 0)
+    expect(current?.start.getTime()).toBeLessThanOrEqual(start.getTime())
+    const level3 = current!.periods.find(period => period.periods.length > 0)!
+    expect(level3.level).toBe(3)
+    expect(level3.periods[0].level).toBe(4)
+    expect(level3.periods[0].end.getTime() - level3.periods[0].start.getTime()).toBe(RELEASING_YEARS[level3.sign - 1] * 5 / 24 * DAY)
+  })
+
+  test('should throw on invalid levels', () => {
+    expect(() => getZodiacalReleasing(nightChart, birthDate, { levels: 5 })).toThrow('Param \'levels\' has to be an integer from 1 to 4.')
+  })
+})
+
+describe('getFirdaria', () => {
+  test('should follow the diurnal sequence', () => {
+    const periods = getFirdaria(dayChart, birthDate)
+    expect(periods.map(period => period.lord)).toEqual(['Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter', 'Mars', 'NNode', 'SNode'])
+    expect(periods[1].start).toEqual(new Date('2000-03-15T08:00:00Z'))
+    expect(periods[8].end).toEqual(new Date('2065-03-15T08:00:00Z'))
+  })
+
+  test('should follow the nocturnal sequence', () => {
+    const periods = getFirdaria(nightChart, birthDate)
+    expect(periods.map(period => period.lord)).toEqual(['Moon', 'Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'NNode', 'SNode'])
+  })
+
+  test('should put the nodes after Mars in the night by Abu Ma\'shar', () => {
+    const settings = { ...default_settings, FIRDARIA_NODES: 'afterMars' as const }
+    const night = getFirdaria(nightChart, birthDate, undefined, settings)
+    expect(night.map(period => period.lord)).toEqual(['Moon', 'Saturn', 'Jupiter', 'Mars', 'NNode', 'SNode', 'Sun', 'Venus', 'Mercury'])
+    expect(night[4].start).toEqual(new Date('2029-03-15T08:00:00Z'))
+    expect(night[6].start).toEqual(new Date('2034-03-15T08:00:00Z'))
+    expect(getFirdaria(dayChart, birthDate, undefined, settings).map(period => period.lord)).toEqual(['Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter', 'Mars', 'NNode', 'SNode'])
+  })
+
+  test('should divide the periods of the planets to seven sub-periods', () => {
+    const periods = getFirdaria(nightChart, birthDate)
+    expect(periods[0].periods.map(period => period.lord)).toEqual(['Moon', 'Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury'])
+    expect(periods[4].periods.map(period => period.lord)).toEqual(['Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter', 'Mars'])
+    expect(periods[0].periods[6].end).toEqual(periods[0].end)
+    expect(periods[7].periods).toEqual([])
+  })
+
+  test('should repeat the sequence until the end', () => {
+    const periods = getFirdaria(dayChart, birthDate, { end: new Date('2080-01-01T00:00:00Z') })
+    expect(periods.length).toBe(11)
+    expect(periods[9].lord).toBe('Sun')
+    expect(periods[9].start).toEqual(new Date('2065-03-15T08:00:00Z'))
+  })
+})
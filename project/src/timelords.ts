@@ -0,0 +1,341 @@
+import Zodiac from './zodiac'
+import type { AstroData } from './radix'
+import default_settings from './settings'
+import type { Settings } from './settings'
+
+export interface ProfectedSign {
+  // whole sign house counted from the sign of the Ascendant, 1 - 12
+  house: number
+  // 1 - Aries, ... , 12 - Pisces
+  sign: number
+  // main ruler of the sign, @see settings.TIME_LORDS_RULERSHIP_SCHEME
+  lord: string
+}
+
+export interface Profection extends ProfectedSign {
+  // completed years of life
+  age: number
+  // month of the profected year, 0 - 11, the annual profection starts with the month 0
+  month: number
+  start: Date
+  end: Date
+}
+
+export interface Profections {
+  annual: Profection
+  monthly: Profection
+}
+
+export type ReleasingLot = 'spirit' | 'fortune'
+
+export interface Lots {
+  fortune: number
+  spirit: number
+}
+
+export interface TimeLordPeriod {
+  // 1 - major period, 2 - sub-period, ...
+  level: number
+  lord: string
+  start: Date
+  end: Date
+  periods: TimeLordPeriod[]
+}
+
+export interface ReleasingPeriod extends TimeLordPeriod {
+  // 1 - Aries, ... , 12 - Pisces
+  sign: number
+  // the sequence jumped to the opposite sign after a whole cycle of the signs
+  isLoosingOfTheBond: boolean
+  // sign angular to the Lot of Fortune, the 10th sign from it is the highest peak
+  isPeak: boolean
+  periods: ReleasingPeriod[]
+}
+
+export interface ReleasingOptions {
+  // 'spirit' by default
+  lot?: ReleasingLot
+  // depth of the sub-periods, 1 - 4, 2 by default
+  levels?: number
+  // periods out of the range have no sub-periods, the range is the first 100 years of life by default
+  start?: Date
+  end?: Date
+}
+
+export interface FirdariaOptions {
+  // end of the timeline, the first cycle of 75 years by default
+  end?: Date
+}
+
+// minor years of the signs by the traditional rulers, Aries to Pisces
+export const RELEASING_YEARS = [15, 8, 20, 25, 19, 20, 8, 15, 12, 27, 30, 12]
+
+// days of one year of the sign period on the levels 1 - 4, years of 360 days
+const RELEASING_DAYS = [360, 30, 2.5, 5 / 24]
+
+// diurnal and nocturnal sequences of the major periods, years.
+// The nodes close both sequences as in Bonatti, @see settings.FIRDARIA_NODES
+export const FIRDARIA_DIURNAL: Array<[string, number]> = [['Sun', 10], ['Venus', 8], ['Mercury', 13], ['Moon', 9], ['Saturn', 11], ['Jupiter', 12], ['Mars', 7], ['NNode', 3], ['SNode', 2]]
+export const FIRDARIA_NOCTURNAL: Array<[string, number]> = [['Moon', 9], ['Saturn', 11], ['Jupiter', 12], ['Mars', 7], ['Sun', 10], ['Venus', 8], ['Mercury', 13], ['NNode', 3], ['SNode', 2]]
+
+// order of the sub-periods of the firdaria
+const CHALDEAN_ORDER = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon']
+
+const MILLISECONDS_PER_DAY = 86400000
+
+/*
+ * Sequence of the major periods by the sect, Abu Ma'shar puts the nodes after Mars in the night
+ * @private
+ */
+const getFirdariaSequence = (isDay: boolean, settings?: Settings): Array<[string, number]> => {
+  if (isDay) {
+    return FIRDARIA_DIURNAL
+  }
+
+  if ((settings ?? default_settings).FIRDARIA_NODES === 'afterMars') {
+    const planets = FIRDARIA_NOCTURNAL.filter(([lord]) => lord !== 'NNode' && lord !== 'SNode')
+    const nodes = FIRDARIA_NOCTURNAL.filter(([lord]) => lord === 'NNode' || lord === 'SNode')
+    const mars = planets.findIndex(([lord]) => lord === 'Mars')
+    return [...planets.slice(0, mars + 1), ...nodes, ...planets.slice(mars + 1)]
+  }
+
+  return FIRDARIA_NOCTURNAL
+}
+
+/*
+ * Anniversary of the birth
+ * @private
+ */
+const getBirthday = (birthDate: Date, age: number): Date => {
+  const birthday = new Date(birthDate.getTime())
+  birthday.setUTCFullYear(birthDate.getUTCFullYear() + age)
+  return birthday
+}
+
+/*
+ * Time lords use the traditional rulers by default
+ * @private
+ */
+const getZodiac = (data: AstroData, settings?: Settings): Zodiac => {
+  const current = settings ?? default_settings
+  return new Zodiac(data.cusps, { ...current, RULERSHIP_SCHEME: current.TIME_LORDS_RULERSHIP_SCHEME })
+}
+
+/**
+ * Completed years of life
+ *
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} date
+ * @return {int}
+ */
+export const getAge = (birthDate: Date, date: Date): number => {
+  if (isNaN(birthDate.getTime()) || isNaN(date.getTime())) {
+    throw new Error('Params \'birthDate\' and \'date\' have to be valid dates.')
+  }
+  if (date.getTime() < birthDate.getTime()) {
+    throw new Error('Param \'date\' must not be before the birth.')
+  }
+
+  let age = date.getUTCFullYear() - birthDate.getUTCFullYear()
+  if (getBirthday(birthDate, age).getTime() > date.getTime()) {
+    age--
+  }
+  return age
+}
+
+/**
+ * Profected sign, one sign for each year of life (or each month of the year) from the Ascendant
+ *
+ * @param {Object} data - natal data, the Ascendant is the first cusp
+ * @param {int} age - completed years of life
+ * @param {int} month - month of the profected year, 0 - 11
+ * @param {Object | undefined} settings
+ * @return {Object} {"house":5, "sign":9, "lord":"Jupiter"}
+ */
+export const profect = (data: AstroData, age: number, month: number = 0, settings?: Settings): ProfectedSign => {
+  if (!Number.isInteger(age) || age < 0) {
+    throw new Error('Param \'age\' has to be a non-negative integer.')
+  }
+  if (!Number.isInteger(month) || month < 0 || month > 11) {
+    throw new Error('Param \'month\' has to be an integer from 0 to 11.')
+  }
+
+  const zodiac = getZodiac(data, settings)
+  const ascendant = zodiac.getSign(((data.cusps[0] % 360) + 360) % 360)
+  const steps = (age + month) % 12
+
+  const sign = ((ascendant - 1 + steps) % 12) + 1
+  return { house: steps + 1, sign, lord: zodiac.getRulers(sign)[0] }
+}
+
+/**
+ * Annual and monthly profections of the date
+ *
+ * The profected year starts on the birthday, its months are twelfths of the year.
+ *
+ * @param {Object} data - natal data
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Date} date
+ * @param {Object | undefined} settings
+ * @return {Object} {"annual":{"age":40, "month":0, "house":5, "sign":9, "lord":"Jupiter", "start":Date, "end":Date}, "monthly":{...}}
+ */
+export const getProfections = (data: AstroData, birthDate: Date, date: Date, settings?: Settings): Profections => {
+  const age = getAge(birthDate, date)
+  const start = getBirthday(birthDate, age)
+  const end = getBirthday(birthDate, age + 1)
+
+  const monthLength = (end.getTime() - start.getTime()) / 12
+  const month = Math.min(Math.floor((date.getTime() - start.getTime()) / monthLength), 11)
+  const monthStart = new Date(start.getTime() + month * monthLength)
+
+  return {
+    annual: { ...profect(data, age, 0, settings), age, month: 0, start, end },
+    monthly: { ...profect(data, age, month, settings), age, month, start: monthStart, end: new Date(monthStart.getTime() + monthLength) }
+  }
+}
+
+/*
+ * @private
+ */
+const isDayChart = (data: AstroData, settings?: Settings): boolean => {
+  const sun = data.planets[(settings ?? default_settings).SYMBOL_SUN]
+  if (sun == null) {
+    throw new Error('The chart has to contain the Sun.')
+  }
+  return getZodiac(data, settings).isDayChart(sun[0])
+}
+
+/**
+ * Lots of Fortune and Spirit, reversed in the night charts
+ *
+ * @param {Object} data - natal data with the Sun and the Moon
+ * @param {Object | undefined} settings
+ * @return {Object} {"fortune":120.5, "spirit":20.1}
+ */
+export const getLots = (data: AstroData, settings?: Settings): Lots => {
+  const current = settings ?? default_settings
+  const sun = data.planets[current.SYMBOL_SUN]
+  const moon = data.planets[current.SYMBOL_MOON]
+  if (sun == null || moon == null) {
+    throw new Error('The chart has to contain the Sun and the Moon.')
+  }
+
+  const distance = isDayChart(data, settings) ? moon[0] - sun[0] : sun[0] - moon[0]
+  return {
+    fortune: (((data.cusps[0] + distance) % 360) + 360) % 360,
+    spirit: (((data.cusps[0] - distance) % 360) + 360) % 360
+  }
+}
+
+/**
+ * Zodiacal releasing from the Lot of Spirit or Fortune
+ *
+ * Each sign rules its minor years on the first level, months of 30 days on the second one,
+ * 2.5 days on the third one and 5 hours on the fourth one. The sub-periods start in the sign of the period,
+ * after a whole cycle of the signs they continue from the opposite sign (loosing of the bond).
+ *
+ * @param {Object} data - natal data with the Sun and the Moon
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Object | undefined} options, {lot:"fortune", levels:3, start:Date, end:Date}
+ * @param {Object | undefined} settings
+ * @return {Array<Object>} periods of the first level with their sub-periods
+ */
+export const getZodiacalReleasing = (data: AstroData, birthDate: Date, options?: ReleasingOptions, settings?: Settings): ReleasingPeriod[] => {
+  const levels = options?.levels ?? 2
+  if (!Number.isInteger(levels) || levels < 1 || levels > RELEASING_DAYS.length) {
+    throw new Error('Param \'levels\' has to be an integer from 1 to ' + RELEASING_DAYS.length + '.')
+  }
+  if (isNaN(birthDate.getTime())) {
+    throw new Error('Param \'birthDate\' has to be a valid date.')
+  }
+
+  const zodiac = getZodiac(data, settings)
+  const lots = getLots(data, settings)
+  const fortune = zodiac.getSign(lots.fortune)
+  const rangeStart = (options?.start ?? birthDate).getTime()
+  const rangeEnd = (options?.end ?? getBirthday(birthDate, 100)).getTime()
+
+  const release = (first: number, level: number, start: number, end: number): ReleasingPeriod[] => {
+    const periods: ReleasingPeriod[] = []
+    let cycleStart = first
+    let sign = first
+    for (let time = start, count = 0; time < end; count++) {
+      const isLoosingOfTheBond = count > 0 && count % 12 === 0
+      if (isLoosingOfTheBond) {
+        sign = ((cycleStart + 5) % 12) + 1
+        cycleStart = sign
+      }
+
+      const length = RELEASING_YEARS[sign - 1] * RELEASING_DAYS[level - 1] * MILLISECONDS_PER_DAY
+      // the first level is not cut by the end of the range
+      const periodEnd = level === 1 ? time + length : Math.min(time + length, end)
+      const hasPeriods = level < levels && periodEnd > rangeStart && time < rangeEnd
+
+      periods.push({
+        level,
+        sign,
+        lord: zodiac.getRulers(sign)[0],
+        start: new Date(time),
+        end: new Date(periodEnd),
+        isLoosingOfTheBond,
+        isPeak: (sign - fortune + 12) % 3 === 0,
+        periods: hasPeriods ? release(sign, level + 1, time, periodEnd) : []
+      })
+
+      time = periodEnd
+      sign = (sign % 12) + 1
+    }
+    return periods
+  }
+
+  return release(zodiac.getSign(options?.lot === 'fortune' ? lots.fortune : lots.spirit), 1, birthDate.getTime(), rangeEnd)
+}
+
+/**
+ * Firdaria, major periods of the planets and nodes by the sect of the chart
+ *
+ * The major periods of the planets have seven equal sub-periods in the Chaldean order
+ * from the lord of the period, the periods of the nodes are not divided.
+ * The nodes follow the planets in both sequences by default, @see settings.FIRDARIA_NODES.
+ *
+ * @param {Object} data - natal data with the Sun
+ * @param {Date} birthDate - UTC instant of the birth
+ * @param {Object | undefined} options, {end:Date}
+ * @param {Object | undefined} settings
+ * @return {Array<Object>} major periods with their sub-periods
+ */
+export const getFirdaria = (data: AstroData, birthDate: Date, options?: FirdariaOptions, settings?: Settings): TimeLordPeriod[] => {
+  if (isNaN(birthDate.getTime())) {
+    throw new Error('Param \'birthDate\' has to be a valid date.')
+  }
+
+  const sequence = getFirdariaSequence(isDayChart(data, settings), settings)
+  const end = (options?.end ?? getBirthday(birthDate, 75)).getTime()
+
+  const periods: TimeLordPeriod[] = []
+  for (let i = 0, age = 0; getBirthday(birthDate, age).getTime() < end; i++) {
+    const [lord, years] = sequence[i % sequence.length]
+    const start = getBirthday(birthDate, age).getTime()
+    const periodEnd = getBirthday(birthDate, age + years).getTime()
+
+    const subPeriods: TimeLordPeriod[] = []
+    const index = CHALDEAN_ORDER.indexOf(lord)
+    if (index !== -1) {
+      const length = (periodEnd - start) / CHALDEAN_ORDER.length
+      for (let j = 0; j < CHALDEAN_ORDER.length; j++) {
+        subPeriods.push({
+          level: 2,
+          lord: CHALDEAN_ORDER[(index + j) % CHALDEAN_ORDER.length],
+          start: new Date(start + j * length),
+          end: new Date(j === CHALDEAN_ORDER.length - 1 ? periodEnd : start + (j + 1) * length),
+          periods: []
+        })
+      }
+    }
+
+    periods.push({ level: 1, lord, start: new Date(start), end: new Date(periodEnd), periods: subPeriods })
+    age += years
+  }
+
+  return periods
+}
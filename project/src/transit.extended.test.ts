@@ -163,4 +163,105 @@ describe('Transit - extended coverage', () => {
       expect(result).toBe(transit)
     })
   })
+
+  describe('rings', () => {
+    test('should stack rings with own IDs outward', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.rings(makeRadixData(), [
+        { data: makeTransitData(), label: 'Progressed' },
+        { data: makeTransitData(), label: 'Transit' },
+      ])
+
+      expect(radix.rings).toHaveLength(2)
+      expect(radix.rings[0].id).toBe('transit')
+      expect(radix.rings[1].id).toBe('transit-1')
+      expect(radix.rings[1].ringRadius).toBeGreaterThan(radix.rings[0].pointRadius)
+      expect(document.getElementById('chart-astrology-transit-planets')).not.toBeNull()
+      expect(document.getElementById('chart-astrology-transit-1-planets')).not.toBeNull()
+      expect(document.getElementById('chart-astrology-transit-1-cusps')!.querySelectorAll('line')).toHaveLength(12)
+    })
+
+    test('should fit the paper', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.rings(makeRadixData(), [
+        { data: makeTransitData() },
+        { data: makeTransitData() },
+        { data: makeTransitData() },
+      ])
+
+      const outerRing = radix.rings[2]
+      expect(radix.radius).toBeLessThan(chart.radius)
+      expect(outerRing.ringRadius).toBeCloseTo(chart.radius)
+    })
+
+    test('should draw own background of each ring', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      chart.rings(makeRadixData(), [
+        { data: makeTransitData() },
+        { data: makeTransitData(), settings: { COLOR_BACKGROUND: '#eee' } },
+        { data: makeTransitData() },
+      ])
+
+      const ids = ['transit', 'transit-1', 'transit-2'].map(id => 'chart-astrology-' + id + '-' + default_settings.ID_BG)
+      ids.forEach(id => {
+        expect(document.getElementById(id)!.querySelectorAll('path')).toHaveLength(1)
+      })
+      expect(document.getElementById(ids[1])!.querySelector('path')!.getAttribute('fill')).toBe('#eee')
+    })
+
+    test('should draw labels', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      chart.rings(makeRadixData(), [
+        { data: makeTransitData(), label: 'Progressed' },
+        { data: makeTransitData() },
+      ])
+
+      expect(document.getElementById('chart-astrology-transit-label')!.textContent).toBe('Progressed')
+      expect(document.getElementById('chart-astrology-transit-1-label')).toBeNull()
+    })
+
+    test('should use own id and styling', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.radix(makeRadixData())
+      const ring = radix.ring(makeTransitData(), { id: 'progressed', settings: { POINTS_COLOR: '#00f', CIRCLE_COLOR: '#0f0' } })
+
+      expect(ring.settings.POINTS_COLOR).toBe('#00f')
+      expect(chart.settings.POINTS_COLOR).toBe(default_settings.POINTS_COLOR)
+
+      const sun = document.getElementById('chart-astrology-progressed-planets-Sun')
+      expect(sun!.querySelector('path')!.getAttribute('stroke')).toBe('#00f')
+      expect(document.getElementById('chart-astrology-progressed-circles')!.querySelector('circle')!.getAttribute('stroke')).toBe('#0f0')
+    })
+
+    test('should throw when the ring does not fit the paper', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.radix(makeRadixData())
+      radix.ring(makeTransitData(), { id: 'progressed' })
+
+      expect(() => radix.ring(makeTransitData(), { id: 'directed' })).toThrow('Ring 1 does not fit the paper. Use Chart.rings() to draw more rings.')
+      expect(radix.rings).toHaveLength(1)
+    })
+
+    test('should replace the first ring of the radix', () => {
+      document.body.innerHTML = '<div id="chart"></div>'
+      const chart = new Chart('chart', 800, 800)
+      const radix = chart.radix(makeRadixData())
+      radix.transit(makeTransitData())
+
+      expect(() => radix.transit(makeTransitData())).not.toThrow()
+    })
+
+    test('should keep transit as the first ring', () => {
+      const transit = createTransit()
+      expect(transit.index).toBe(0)
+      expect(transit.ringRadius).toBe(transit.radius)
+    })
+  })
 })
+
@@ -175,6 +175,13 @@ describe('Transit', () => {
     })
   })
 
+  describe('sidereal zodiac', () => {
+    test('should convert transit data like the radix', () => {
+      const transit = createTransit(undefined, { planets: { Sun: [30] }, cusps: makeTransitData().cusps }, { ZODIAC: 'sidereal', AYANAMSA: { value: 20, epoch: 2000 } })
+      expect(transit.data.planets.Sun[0]).toBe(10)
+    })
+  })
+
   describe('aspects', () => {
     test('should draw transit aspect lines with custom aspects', () => {
       const transit = createTransit()
@@ -184,6 +191,11 @@ describe('Transit', () => {
           point: { name: 'Sun', position: 45 },
           toPoint: { name: 'Moon', position: 135 },
           precision: '0.0000',
+          orb: 0,
+          applying: false,
+          exactIn: null,
+          isOutOfSign: false,
+          orbRule: 'aspect' as const,
         },
       ]
       const result = transit.aspects(customAspects)
@@ -198,6 +210,11 @@ describe('Transit', () => {
           point: { name: 'Sun', position: 45 },
           toPoint: { name: 'Mercury', position: 165 },
           precision: '0.0000',
+          orb: 0,
+          applying: false,
+          exactIn: null,
+          isOutOfSign: false,
+          orbRule: 'aspect' as const,
         },
       ]
       transit.aspects(customAspects)
@@ -208,6 +225,29 @@ describe('Transit', () => {
       expect(line!.getAttribute('data-degree')).toBe('120')
     })
 
+    test('should draw lines in the style of the aspect', () => {
+      const transit = createTransit()
+      const customAspects = [
+        {
+          aspect: { name: 'quintile', degree: 72, orbit: 2, color: '#87CEEB', dash: '2,2', lineWidth: 0.5, opacity: 0.6, class: 'minor' as const },
+          point: { name: 'Sun', position: 45 },
+          toPoint: { name: 'Moon', position: 117 },
+          precision: '0.0000',
+          orb: 0,
+          applying: false,
+          exactIn: null,
+          isOutOfSign: false,
+          orbRule: 'aspect' as const,
+        },
+      ]
+      transit.aspects(customAspects)
+      const line = document.getElementById('chart-astrology-aspects')!.querySelector('line')!
+      expect(line.getAttribute('stroke-dasharray')).toBe('2,2')
+      expect(line.getAttribute('stroke-width')).toBe((0.5 * transit.settings.SYMBOL_SCALE).toString())
+      expect(line.getAttribute('opacity')).toBe('0.6')
+      expect(line.getAttribute('data-class')).toBe('minor')
+    })
+
     test('should use LINE_COLOR when STROKE_ONLY is true', () => {
       const transit = createTransit(undefined, undefined, { STROKE_ONLY: true })
       const customAspects = [
@@ -216,6 +256,11 @@ describe('Transit', () => {
           point: { name: 'Sun', position: 45 },
           toPoint: { name: 'Moon', position: 135 },
           precision: '0.0000',
+          orb: 0,
+          applying: false,
+          exactIn: null,
+          isOutOfSign: false,
+          orbRule: 'aspect' as const,
         },
       ]
       transit.aspects(customAspects)
@@ -2,20 +2,38 @@ import Zodiac from './zodiac'
 import AspectCalculator from './aspect'
 import type { FormedAspect } from './aspect'
 import Animator from './animation/animator'
-import { validate, getEmptyWrapper, getPointPosition, getRulerPositions, getDescriptionPosition, assemble, radiansToDegree } from './utils'
+import Aspectarian from './aspectarian'
+import type { AspectarianOptions } from './aspectarian'
+import { validate, getEmptyWrapper, getPointPosition, getRulerPositions, getDescriptionPosition, assemble, radiansToDegree, getRingRadius, toZodiac } from './utils'
 import type { AstroData, LocatedPoint, Points } from './radix'
 import type Radix from './radix'
 import type SVG from './svg'
 import type { Settings } from './settings'
 
+export interface RingOptions {
+  // 0 is the ring next to the radix
+  index?: number
+  id?: string
+  label?: string
+  settings?: Partial<Settings>
+}
+
+export interface RingData extends RingOptions {
+  data: AstroData
+}
+
 /**
    * Transit charts.
    *
+   * Draws the ring around the radix, more rings can be stacked one over another.
+   *
    * @class
    * @public
    * @constructor
     * @param {this.settings.Radix} radix
    * @param {Object} data
+   * @param {Object} settings
+   * @param {Object | undefined} options, {index:1, id:"progressed", label:"Progressed", settings:{POINTS_COLOR:"#00f"}}
    */
 class Transit {
   data: AstroData
@@ -25,34 +43,46 @@ class Transit {
   toPoints: Points
   radius: number
   settings: Settings
+  index: number
+  id: string
+  label: string
+  ringRadius: number
   rulerRadius: number
   pointRadius: number
   shift: number
   universe: Element
   context: this
   locatedPoints: LocatedPoint[]
-  constructor(radix: Radix, data: AstroData, settings: Settings) {
+  constructor(radix: Radix, data: AstroData, settings: Settings, options?: RingOptions) {
     // Validate data
     const status = validate(data)
     if (status.hasError) {
       throw new Error(status.messages.join(' | '))
     }
 
-    this.data = data
     this.paper = radix.paper
     this.cx = radix.cx
     this.cy = radix.cy
     this.toPoints = radix.toPoints
     this.radius = radix.radius
-    this.settings = settings
+    this.settings = options?.settings != null ? { ...settings, ...options.settings } : settings
+
+    // positions in the zodiac of the chart, the ring can have own year of the ayanamsa, @see settings.ZODIAC
+    this.data = toZodiac(data, this.settings)
 
+    this.index = options?.index ?? 0
+    this.id = options?.id ?? (this.index === 0 ? this.settings.ID_TRANSIT : this.settings.ID_TRANSIT + '-' + this.index)
+    this.label = options?.label ?? ''
+
+    // inner radius of the ring
+    this.ringRadius = getRingRadius(this.radius, this.index, this.settings)
     this.rulerRadius = ((this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO) / this.settings.RULER_RADIUS)
-    this.pointRadius = this.radius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO + (this.settings.PADDING * this.settings.SYMBOL_SCALE))
+    this.pointRadius = this.ringRadius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO + (this.settings.PADDING * this.settings.SYMBOL_SCALE))
 
     this.shift = radix.shift
 
-    this.universe = document.createElementNS(this.paper.root.namespaceURI, 'g')
-    this.universe.setAttribute('id', this.paper._paperElementId + '-' + this.settings.ID_TRANSIT)
+    this.universe = this.paper.renderer.group()
+    this.universe.setAttribute('id', this.paper._paperElementId + '-' + this.id)
     this.paper.root.appendChild(this.universe)
 
     this.context = this
@@ -64,13 +94,13 @@ class Transit {
   drawBg(): void {
     const universe = this.universe
 
-    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.settings.ID_BG, this.paper._paperElementId)
+    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.id + '-' + this.settings.ID_BG, this.paper._paperElementId)
 
     const LARGE_ARC_FLAG = 1
     const start = 0 // degree
     const end = 359.99 // degree
-    const hemisphere = this.paper.segment(this.cx, this.cy, this.radius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO, start, end, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, LARGE_ARC_FLAG)
-    hemisphere.setAttribute('fill', this.settings.STROKE_ONLY ? 'none' : this.settings.COLOR_BACKGROUND)
+    const hemisphere = this.paper.segment(this.cx, this.cy, this.ringRadius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO, start, end, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, LARGE_ARC_FLAG)
+    this.paper.renderer.setStyle(hemisphere, { fill: this.settings.STROKE_ONLY ? 'none' : this.settings.COLOR_BACKGROUND })
     wrapper.appendChild(hemisphere)
   }
 
@@ -86,9 +116,9 @@ class Transit {
     }
 
     const universe = this.universe
-    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_POINTS, this.paper._paperElementId)
+    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.id + '-' + this.settings.ID_POINTS, this.paper._paperElementId)
 
-    const pointerRadius = this.radius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
+    const pointerRadius = this.ringRadius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO)
     let startPosition
     let endPosition
 
@@ -109,8 +139,7 @@ class Transit {
       startPosition = getPointPosition(this.cx, this.cy, pointerRadius, planets[point.name][0] + this.shift, this.settings)
       endPosition = getPointPosition(this.cx, this.cy, pointerRadius + this.rulerRadius / 2, planets[point.name][0] + this.shift, this.settings)
       const pointer = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-      pointer.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-      pointer.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+      this.paper.renderer.setStyle(pointer, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
       wrapper.appendChild(pointer)
 
       // draw pointer line
@@ -118,14 +147,13 @@ class Transit {
         startPosition = endPosition
         endPosition = getPointPosition(this.cx, this.cy, this.pointRadius - (this.settings.COLLISION_RADIUS * this.settings.SYMBOL_SCALE), point.angle, this.settings)
         const line = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-        line.setAttribute('stroke', this.settings.LINE_COLOR)
-        line.setAttribute('stroke-width', 0.5 * (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+        this.paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR, strokeWidth: 0.5 * (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
         wrapper.appendChild(line)
       }
 
       // draw symbol
-      const symbol = this.paper.getSymbol(point.name, point.x, point.y)
-      symbol.setAttribute('id', this.paper.root.id + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_POINTS + '-' + point.name)
+      const symbol = this.paper.getSymbol(point.name, point.x, point.y, this.settings)
+      symbol.setAttribute('id', this.paper.root.id + '-' + this.id + '-' + this.settings.ID_POINTS + '-' + point.name)
       wrapper.appendChild(symbol)
 
       // draw point descriptions
@@ -151,13 +179,37 @@ class Transit {
  */
   drawCircles(): void {
     const universe = this.universe
-    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_CIRCLES, this.paper._paperElementId)
-    const radius = this.radius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO
+    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.id + '-' + this.settings.ID_CIRCLES, this.paper._paperElementId)
+    const radius = this.ringRadius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO
 
     const circle = this.paper.circle(this.cx, this.cy, radius)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
+
+    // the first ring shares the inner circle with the radix
+    if (this.index > 0) {
+      const innerCircle = this.paper.circle(this.cx, this.cy, this.ringRadius)
+      this.paper.renderer.setStyle(innerCircle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CIRCLE_STRONG * this.settings.SYMBOL_SCALE).toString() })
+      wrapper.appendChild(innerCircle)
+    }
+  }
+
+  /**
+   * Draw label of the ring
+   */
+  drawLabel(): void {
+    if (this.label === '') {
+      return
+    }
+
+    const universe = this.universe
+    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.id + '-' + this.settings.ID_LABEL, this.paper._paperElementId)
+
+    // labels are listed in the top left corner from the innermost ring
+    const x = this.settings.PADDING * this.settings.SYMBOL_SCALE
+    const y = x + this.index * 2 * this.settings.POINTS_TEXT_SIZE * this.settings.SYMBOL_SCALE
+    const text = this.paper.text(this.label, x, y, this.settings.POINTS_TEXT_SIZE.toString(), this.settings.POINTS_COLOR)
+    wrapper.appendChild(text)
   }
 
   /**
@@ -171,8 +223,8 @@ class Transit {
     }
 
     const universe = this.universe
-    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_CUSPS, this.paper._paperElementId)
-    const numbersRadius = this.radius + ((this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO - this.rulerRadius) / 2)
+    const wrapper = getEmptyWrapper(universe, this.paper._paperElementId + '-' + this.id + '-' + this.settings.ID_CUSPS, this.paper._paperElementId)
+    const numbersRadius = this.ringRadius + ((this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO - this.rulerRadius) / 2)
 
     const AS = 0
     const IC = 3
@@ -183,15 +235,15 @@ class Transit {
     // Cusps
     for (let i = 0, ln = cusps.length; i < ln; i++) {
       // Lines
-      const startPosition = getPointPosition(this.cx, this.cy, this.radius, cusps[i] + this.shift, this.settings)
-      const endPosition = getPointPosition(this.cx, this.cy, this.radius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO - this.rulerRadius, cusps[i] + this.shift, this.settings)
+      const startPosition = getPointPosition(this.cx, this.cy, this.ringRadius, cusps[i] + this.shift, this.settings)
+      const endPosition = getPointPosition(this.cx, this.cy, this.ringRadius + this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO - this.rulerRadius, cusps[i] + this.shift, this.settings)
       const line = this.paper.line(startPosition.x, startPosition.y, endPosition.x, endPosition.y)
-      line.setAttribute('stroke', this.settings.LINE_COLOR)
+      this.paper.renderer.setStyle(line, { stroke: this.settings.LINE_COLOR })
 
       if (mainAxis.includes(i)) {
-        line.setAttribute('stroke-width', (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE).toString())
+        this.paper.renderer.setStyle(line, { strokeWidth: (this.settings.SYMBOL_AXIS_STROKE * this.settings.SYMBOL_SCALE).toString() })
       } else {
-        line.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString())
+        this.paper.renderer.setStyle(line, { strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString() })
       }
 
       wrapper.appendChild(line)
@@ -202,27 +254,25 @@ class Transit {
       const endOfCusp = cusps[(i + 1) % 12]
       const gap = endOfCusp - startOfCusp > 0 ? endOfCusp - startOfCusp : endOfCusp - startOfCusp + deg360
       const textPosition = getPointPosition(this.cx, this.cy, numbersRadius, ((startOfCusp + gap / 2) % deg360) + this.shift, this.settings)
-      wrapper.appendChild(this.paper.getSymbol((i + 1).toString(), textPosition.x, textPosition.y))
+      wrapper.appendChild(this.paper.getSymbol((i + 1).toString(), textPosition.x, textPosition.y, this.settings))
     }
   }
 
   drawRuler(): void {
     const universe = this.universe
-    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.settings.ID_TRANSIT + '-' + this.settings.ID_RULER, this.paper._paperElementId)
+    const wrapper = getEmptyWrapper(universe, this.paper.root.id + '-' + this.id + '-' + this.settings.ID_RULER, this.paper._paperElementId)
 
-    const startRadius = (this.radius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO))
+    const startRadius = (this.ringRadius + (this.radius / this.settings.INNER_CIRCLE_RADIUS_RATIO))
     const rays = getRulerPositions(this.cx, this.cy, startRadius, startRadius - this.rulerRadius, this.shift, this.settings)
 
     rays.forEach(function (ray) {
       const line = this.paper.line(ray.startX, ray.startY, ray.endX, ray.endY)
-      line.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-      line.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE))
+      this.paper.renderer.setStyle(line, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE) })
       wrapper.appendChild(line)
     }, this)
 
     const circle = this.paper.circle(this.cx, this.cy, startRadius - this.rulerRadius)
-    circle.setAttribute('stroke', this.settings.CIRCLE_COLOR)
-    circle.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString())
+    this.paper.renderer.setStyle(circle, { stroke: this.settings.CIRCLE_COLOR, strokeWidth: (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString() })
     wrapper.appendChild(circle)
   }
 
@@ -230,7 +280,7 @@ class Transit {
  * Draw aspects
  * @param{Array<Object> | null} customAspects - posible custom aspects to draw;
  */
-  aspects(customAspects: FormedAspect[]): Transit {
+  aspects(customAspects?: FormedAspect[] | null): Transit {
     const aspectsList = customAspects != null && Array.isArray(customAspects)
       ? customAspects
       : new AspectCalculator(this.toPoints, this.settings).transit(this.data.planets)
@@ -243,11 +293,11 @@ class Transit {
       const endPoint = getPointPosition(this.cx, this.cy, this.radius / this.settings.INDOOR_CIRCLE_RADIUS_RATIO, aspectsList[i].point.position + this.shift, this.settings)
 
       const line = this.paper.line(startPoint.x, startPoint.y, endPoint.x, endPoint.y)
-      line.setAttribute('stroke', this.settings.STROKE_ONLY ? this.settings.LINE_COLOR : aspectsList[i].aspect.color)
-      line.setAttribute('stroke-width', (this.settings.CUSPS_STROKE * this.settings.SYMBOL_SCALE).toString())
+      this.paper.renderer.setStyle(line, { stroke: this.settings.STROKE_ONLY ? this.settings.LINE_COLOR : aspectsList[i].aspect.color, strokeWidth: ((aspectsList[i].aspect.lineWidth ?? this.settings.CUSPS_STROKE) * this.settings.SYMBOL_SCALE).toString(), strokeDasharray: aspectsList[i].aspect.dash, opacity: aspectsList[i].aspect.opacity })
 
       line.setAttribute('data-name', aspectsList[i].aspect.name)
       line.setAttribute('data-degree', aspectsList[i].aspect.degree.toString())
+      line.setAttribute('data-class', aspectsList[i].aspect.class ?? 'major')
       line.setAttribute('data-point', aspectsList[i].point.name)
       line.setAttribute('data-toPoint', aspectsList[i].toPoint.name)
       line.setAttribute('data-precision', aspectsList[i].precision.toString())
@@ -259,6 +309,22 @@ class Transit {
     return this.context
   }
 
+  /**
+   * Draw aspect grid, radix points in rows and ring points in columns
+   * @param {Object | undefined} options, {elementId:"grid", aspects:[...]}
+   * @return {Aspectarian} grid
+   */
+  aspectarian(options?: AspectarianOptions): Aspectarian {
+    const aspectsList = options?.aspects != null && Array.isArray(options.aspects)
+      ? options.aspects
+      : new AspectCalculator(this.toPoints, this.settings).transit(this.data.planets)
+
+    const grid = new Aspectarian(this.paper, this.id + '-' + this.settings.ID_ASPECTARIAN, Object.keys(this.toPoints), Object.keys(this.data.planets), aspectsList, this.settings)
+    grid.draw(options?.elementId)
+
+    return grid
+  }
+
   /**
  * Moves points to another position.
  *
@@ -274,6 +340,8 @@ class Transit {
       throw new Error(status.messages.join(' | '))
     }
 
+    data = toZodiac(data, this.settings)
+
     // remove aspects
     getEmptyWrapper(this.universe, this.paper._paperElementId + '-' + this.settings.ID_ASPECTS, this.paper._paperElementId)
 
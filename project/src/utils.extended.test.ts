@@ -14,6 +14,13 @@ import {
   comparePoints,
   placePointsInCollision,
   assemble,
+  getRingRadius,
+  getRadiusForRings,
+  getMidpoint,
+  getDeclination,
+  getPointDeclination,
+  getAyanamsa,
+  toZodiac,
 } from './utils'
 import type { LocatedPoint } from './radix'
 
@@ -274,6 +281,19 @@ describe('getRulerPositions', () => {
     // Positions should be different when shifted
     expect(noShift[0].startX).not.toBeCloseTo(withShift[0].startX)
   })
+
+  test('should place rays by the given step', () => {
+    const result = getRulerPositions(400, 400, 300, 320, 0, default_settings, 4, 5)
+    expect(result).toHaveLength(90)
+  })
+
+  test('should draw every n-th ray long', () => {
+    const result = getRulerPositions(400, 400, 300, 320, 0, default_settings, 4, 5)
+    const length = (pos: { startX: number; startY: number; endX: number; endY: number }): number => Math.hypot(pos.endX - pos.startX, pos.endY - pos.startY)
+    expect(length(result[0])).toBeCloseTo(20)
+    expect(length(result[1])).toBeCloseTo(10)
+    expect(length(result[5])).toBeCloseTo(20)
+  })
 })
 
 describe('getPointPosition - extended', () => {
@@ -362,3 +382,96 @@ describe('assemble - extended', () => {
     expect(points.find((p) => p.name === 'B')!.angle).toBe(180)
   })
 })
+
+describe('getRingRadius', () => {
+  test('should start the first ring on the radix circle', () => {
+    expect(getRingRadius(400, 0, default_settings)).toBe(400)
+  })
+
+  test('should place next rings behind the points of previous ring', () => {
+    const ringWidth = 400 / default_settings.INNER_CIRCLE_RADIUS_RATIO + 2 * (default_settings.PADDING + default_settings.COLLISION_RADIUS)
+    expect(getRingRadius(400, 2, default_settings)).toBeCloseTo(400 + 2 * ringWidth)
+  })
+})
+
+describe('getRadiusForRings', () => {
+  test('should keep radius for one ring', () => {
+    expect(getRadiusForRings(400, 1, default_settings)).toBe(400)
+  })
+
+  test('should shrink radius so the last ring starts where the only ring would', () => {
+    const radius = getRadiusForRings(400, 3, default_settings)
+    expect(radius).toBeLessThan(400)
+    expect(getRingRadius(radius, 2, default_settings)).toBeCloseTo(400)
+  })
+
+  test('should throw when rings do not fit', () => {
+    expect(() => getRadiusForRings(50, 10, default_settings)).toThrow('Rings do not fit the paper.')
+  })
+})
+
+describe('getMidpoint', () => {
+  test.each([
+    [10, 50, 30],
+    [50, 10, 30],
+    [350, 10, 0],
+    [10, 350, 0],
+    [340, 30, 5],
+    [170, 190, 180],
+    [-10, 30, 10],
+    [370, 30, 20],
+  ])('midpoint of %s and %s should be %s', (a, b, expected) => {
+    expect(getMidpoint(a, b)).toBeCloseTo(expected)
+  })
+})
+
+
+describe('getDeclination', () => {
+  test.each([
+    [0, 0, 0],
+    [90, 0, 23.4392911],
+    [180, 0, 0],
+    [270, 0, -23.4392911],
+    [90, 5, 28.4392911],
+    [0, 5, 4.5865],
+  ])('declination of %s with latitude %s should be %s', (longitude, latitude, expected) => {
+    expect(getDeclination(longitude, latitude, 23.4392911)).toBeCloseTo(expected, 3)
+  })
+
+  test('should prefer given declination of the point', () => {
+    expect(getPointDeclination([90, 1, 0, 10], 23.4392911)).toBe(10)
+    expect(getPointDeclination([90], 23.4392911)).toBeCloseTo(23.4392911, 6)
+  })
+})
+
+describe('sidereal zodiac', () => {
+  const sidereal = { ...default_settings, ZODIAC: 'sidereal' as const }
+
+  test('should move ayanamsa by the precession', () => {
+    expect(getAyanamsa('lahiri', 2000, default_settings.AYANAMSAS)).toBe(23.853)
+    expect(getAyanamsa('lahiri', 2100, default_settings.AYANAMSAS)).toBeCloseTo(23.853 + 1.397, 3)
+    expect(getAyanamsa({ value: 24, epoch: 1950, rate: 0.01 }, 2000, default_settings.AYANAMSAS)).toBeCloseTo(24.5, 10)
+  })
+
+  test('should throw for unknown ayanamsa', () => {
+    expect(() => getAyanamsa('unknown', 2000, default_settings.AYANAMSAS)).toThrow('Unknown ayanamsa \'unknown\'.')
+  })
+
+  test('should keep tropical data', () => {
+    const data = { planets: { Sun: [10] }, cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330] }
+    expect(toZodiac(data, default_settings)).toBe(data)
+  })
+
+  test('should subtract ayanamsa from planets and cusps', () => {
+    const data = { planets: { Sun: [10, 1], Moon: [100, 13, 5] }, cusps: [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330] }
+    const result = toZodiac(data, { ...sidereal, AYANAMSA: 'faganBradley' })
+
+    expect(result.planets.Sun[0]).toBeCloseTo(345.264, 10)
+    expect(result.planets.Sun[1]).toBe(1)
+    expect(result.planets.Moon[0]).toBeCloseTo(75.264, 10)
+    expect(result.planets.Moon.slice(1)).toEqual([13, 5])
+    expect(result.cusps[0]).toBeCloseTo(335.264, 10)
+    // source data stay tropical
+    expect(data.planets.Sun[0]).toBe(10)
+  })
+})
@@ -1,5 +1,5 @@
-import type { AstroData, LocatedPoint } from './radix'
-import type { Settings } from './settings'
+import type { AstroData, LocatedPoint, Points } from './radix'
+import type { Ayanamsa, Settings } from './settings'
 
 /**
    * Calculate position of the point on the circle.
@@ -96,15 +96,16 @@ export const validate = (data: AstroData): { hasError: boolean; messages: string
    * @return {DOMElement}
    */
 export const getEmptyWrapper = (parent: Element, elementID: string, _paperElementId: string): Element => {
-  const element = document.getElementById(elementID)
+  const doc = parent.ownerDocument
+  const element = doc.getElementById(elementID)
   if (element != null) {
     removeChilds(element)
     return element
   }
-  const paper = document.getElementById(_paperElementId)
+  const paper = doc.getElementById(_paperElementId)
   if (paper == null) throw new Error('Paper element should exist')
 
-  const wrapper = document.createElementNS(paper.namespaceURI, 'g')
+  const wrapper = doc.createElementNS(paper.namespaceURI, 'g')
   wrapper.setAttribute('id', elementID)
   parent.appendChild(wrapper)
 
@@ -311,19 +312,21 @@ export const getDashedLinesPositions = (centerX: number, centerY: number, angle:
    * @param {Double} startRadius
    * @param {Double} endRadius
    * @param {Boolean} startAngle
+   * @param {Double} step - degrees between rays
+   * @param {int} longRayEvery - every n-th ray is long
    *
    * @return {Array<Object>} [ {startX:1,startY:2, endX:3, endX:4 }, ...]
    */
-export const getRulerPositions = (centerX: number, centerY: number, startRadius: number, endRadius: number, startAngle: number, astrology: { SHIFT_IN_DEGREES: number }): InitialEndPosition[] => {
+export const getRulerPositions = (centerX: number, centerY: number, startRadius: number, endRadius: number, startAngle: number, astrology: { SHIFT_IN_DEGREES: number }, step: number = 5, longRayEvery: number = 2): InitialEndPosition[] => {
   const result = []
 
   const rayRadius = endRadius
   const halfRayRadius = (startRadius <= endRadius) ? rayRadius - (Math.abs(endRadius - startRadius) / 2) : rayRadius + (Math.abs(endRadius - startRadius) / 2)
 
-  for (let i = 0, start = 0, step = 5; i < 72; i++) {
+  for (let i = 0, start = 0, count = Math.round(360 / step); i < count; i++) {
     const angle = start + startAngle
     const startPos = getPointPosition(centerX, centerY, startRadius, angle, astrology)
-    const endPos = getPointPosition(centerX, centerY, (i % 2 === 0 ? rayRadius : halfRayRadius), angle, astrology)
+    const endPos = getPointPosition(centerX, centerY, (i % longRayEvery === 0 ? rayRadius : halfRayRadius), angle, astrology)
     result.push({ startX: startPos.x, startY: startPos.y, endX: endPos.x, endY: endPos.y })
 
     start += step
@@ -342,3 +345,165 @@ export const getRulerPositions = (centerX: number, centerY: number, startRadius:
 export const comparePoints = (pointA: { angle: number }, pointB: { angle: number }): number => {
   return pointA.angle - pointB.angle
 }
+
+/**
+   * Calculate inner radius of the ring around the radix.
+   *
+   * Every ring takes the band for cusps and the track for its points.
+   *
+   * @param {Double} radius - radix radius
+   * @param {Integer} index - 0 is the ring next to the radix
+   * @return {Double}
+   */
+export const getRingRadius = (radius: number, index: number, astrology: { INNER_CIRCLE_RADIUS_RATIO: number; PADDING: number; COLLISION_RADIUS: number; SYMBOL_SCALE: number }): number => {
+  const ringWidth = radius / astrology.INNER_CIRCLE_RADIUS_RATIO + 2 * (astrology.PADDING + astrology.COLLISION_RADIUS) * astrology.SYMBOL_SCALE
+  return radius + index * ringWidth
+}
+
+/**
+   * Calculate radix radius so the radix with all its rings fits the space
+   * the radix with a single ring would take.
+   *
+   * @param {Double} maxRadius - radix radius for one ring
+   * @param {Integer} count - count of rings
+   * @return {Double}
+   */
+export const getRadiusForRings = (maxRadius: number, count: number, astrology: { INNER_CIRCLE_RADIUS_RATIO: number; PADDING: number; COLLISION_RADIUS: number; SYMBOL_SCALE: number }): number => {
+  if (count <= 1) {
+    return maxRadius
+  }
+
+  const ringPadding = 2 * (astrology.PADDING + astrology.COLLISION_RADIUS) * astrology.SYMBOL_SCALE
+  const radius = (maxRadius - (count - 1) * ringPadding) / (1 + (count - 1) / astrology.INNER_CIRCLE_RADIUS_RATIO)
+  if (radius <= 0) {
+    throw new Error('Rings do not fit the paper. Try change SYMBOL_SCALE or paper size.')
+  }
+
+  return radius
+}
+
+/**
+   * Calculate midpoint of two angles on the shorter arc.
+   *
+   * @param {double} angle1 - degree
+   * @param {double} angle2 - degree
+   * @return {double} degree in <0, 360)
+   */
+export const getMidpoint = (angle1: number, angle2: number): number => {
+  const deg360 = radiansToDegree(2 * Math.PI)
+  let adjustedAngle1 = ((angle1 % deg360) + deg360) % deg360
+  let adjustedAngle2 = ((angle2 % deg360) + deg360) % deg360
+
+  // solving problems with zero crossing
+  if (Math.abs(adjustedAngle1 - adjustedAngle2) > radiansToDegree(Math.PI)) {
+    adjustedAngle1 = (adjustedAngle1 + 180) % deg360
+    adjustedAngle2 = (adjustedAngle2 + 180) % deg360
+    return ((adjustedAngle1 + adjustedAngle2) / 2 + 180) % deg360
+  }
+
+  return (adjustedAngle1 + adjustedAngle2) / 2
+}
+
+
+/**
+ * Declination of the ecliptic position
+ *
+ * @param {double} longitude - degree
+ * @param {double} latitude - degree
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+export const getDeclination = (longitude: number, latitude: number, obliquity: number): number => {
+  const latitudeRadians = degreeToRadians(latitude)
+  const obliquityRadians = degreeToRadians(obliquity)
+  const sinDeclination = Math.sin(latitudeRadians) * Math.cos(obliquityRadians) +
+    Math.cos(latitudeRadians) * Math.sin(obliquityRadians) * Math.sin(degreeToRadians(longitude))
+
+  return radiansToDegree(Math.asin(sinDeclination))
+}
+
+/**
+ * Declination of the point, calculated from the longitude and latitude when it is not given
+ *
+ * @param {Array<double>} point - [LONGITUDE, SPEED, LATITUDE, DECLINATION]
+ * @param {double} obliquity - degree
+ * @return {double} degree
+ */
+export const getPointDeclination = (point: number[], obliquity: number): number => {
+  return point[3] ?? getDeclination(point[0], point[2] ?? 0, obliquity)
+}
+
+// precession of the equinoxes, 50.29" per year
+const PRECESSION_RATE = 50.29 / 3600
+
+/**
+ * Ayanamsa of the year
+ *
+ * @param {String | Object} ayanamsa - name from the table or own value, { value: 24, epoch: 1950 }
+ * @param {double} year - decimal year, e.g. 1990.5
+ * @param {Object} ayanamsas - table of named ayanamsas
+ * @return {double} degree
+ */
+export const getAyanamsa = (ayanamsa: string | Ayanamsa, year: number, ayanamsas: Record<string, Ayanamsa>): number => {
+  const data = typeof ayanamsa === 'string' ? ayanamsas[ayanamsa] : ayanamsa
+  if (data == null) {
+    throw new Error('Unknown ayanamsa \'' + String(ayanamsa) + '\'.')
+  }
+
+  return data.value + (year - data.epoch) * (data.rate ?? PRECESSION_RATE)
+}
+
+/**
+ * Offset of the chart zodiac from the tropical one, 0 for the tropical zodiac
+ *
+ * @param {Object} settings
+ * @return {double} degree
+ */
+export const getZodiacOffset = (settings: Settings): number => {
+  return settings.ZODIAC === 'sidereal'
+    ? getAyanamsa(settings.AYANAMSA, settings.AYANAMSA_YEAR, settings.AYANAMSAS)
+    : 0
+}
+
+/**
+ * Tropical points in the zodiac of the chart, @see settings.ZODIAC
+ *
+ * @param {Object} points - {"Sun":[0, 1], "Moon":[90]}
+ * @param {Object} settings
+ * @return {Object} new points, the same points for the tropical zodiac
+ */
+export const toZodiacPoints = (points: Points, settings: Settings): Points => {
+  const offset = getZodiacOffset(settings)
+  if (offset === 0) {
+    return points
+  }
+
+  const result: Points = {}
+  for (const point in points) {
+    if (points.hasOwnProperty(point)) {
+      result[point] = points[point].slice()
+      result[point][0] = (((points[point][0] - offset) % 360) + 360) % 360
+    }
+  }
+  return result
+}
+
+/**
+ * Tropical chart data in the zodiac of the chart, @see settings.ZODIAC
+ *
+ * @param {Object} data - {"planets":{"Sun":[0]}, "cusps":[...]}
+ * @param {Object} settings
+ * @return {Object} new data, the same data for the tropical zodiac
+ */
+export const toZodiac = (data: AstroData, settings: Settings): AstroData => {
+  const offset = getZodiacOffset(settings)
+  if (offset === 0) {
+    return data
+  }
+
+  return {
+    ...data,
+    planets: toZodiacPoints(data.planets, settings),
+    cusps: data.cusps != null ? data.cusps.map(cusp => (((cusp - offset) % 360) + 360) % 360) : data.cusps
+  }
+}
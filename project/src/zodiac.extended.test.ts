@@ -1,5 +1,6 @@
 import default_settings from './settings'
 import Zodiac from './zodiac'
+import { EGYPTIAN_TERMS, PTOLEMAIC_TERMS } from './dignities'
 
 describe('Zodiac - extended', () => {
   const cusps = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330]
@@ -209,4 +210,153 @@ describe('Zodiac - extended', () => {
       expect(zodiac.hasConjunction(100, 100, 2)).toBe(true)
     })
   })
+
+  describe('getDignities - tables', () => {
+    test('should use custom table of sign dignities', () => {
+      const settings = { ...default_settings, DIGNITIES_SIGNS: { Sun: { exaltation: [5], fall: [11] } } }
+      const zodiac = new Zodiac(cusps, settings)
+      expect(zodiac.getDignities({ name: 'Sun', position: 130 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP, default_settings.DIGNITIES_EXALTATION])
+      expect(zodiac.getDignities({ name: 'Sun', position: 10 })).toStrictEqual([])
+      expect(zodiac.getDignities({ name: 'Moon', position: 40 })).toStrictEqual([])
+    })
+
+    test.each([['Egyptian', EGYPTIAN_TERMS], ['Ptolemaic', PTOLEMAIC_TERMS]])('%s terms should cover whole signs', (_name, terms) => {
+      expect(terms.length).toBe(12)
+      for (let i = 0; i < terms.length; i++) {
+        expect(terms[i].length).toBe(5)
+        expect(terms[i][4][1]).toBe(30)
+      }
+    })
+
+    test('should give 79 degrees of the Egyptian terms to Jupiter', () => {
+      let degrees = 0
+      for (let i = 0; i < EGYPTIAN_TERMS.length; i++) {
+        for (let j = 0; j < EGYPTIAN_TERMS[i].length; j++) {
+          if (EGYPTIAN_TERMS[i][j][0] === 'Jupiter') {
+            degrees += EGYPTIAN_TERMS[i][j][1] - (j > 0 ? EGYPTIAN_TERMS[i][j - 1][1] : 0)
+          }
+        }
+      }
+      expect(degrees).toBe(79)
+    })
+  })
+
+  describe('getEssentialDignities', () => {
+    const zodiac = new Zodiac(cusps)
+
+    test('should score domicile, triplicity and face', () => {
+      // Sun at 5 Leo by day: ruler, day triplicity ruler, Jupiter term, Saturn face
+      expect(zodiac.getEssentialDignities({ name: 'Sun', position: 125 }, true)).toStrictEqual({
+        dignities: ['rulership', 'triplicity'],
+        score: 8,
+        isPeregrine: false,
+        termRuler: 'Jupiter',
+        faceRuler: 'Saturn'
+      })
+    })
+
+    test('should give triplicity to the ruler of the sect', () => {
+      const night = zodiac.getEssentialDignities({ name: 'Jupiter', position: 125 }, false)
+      expect(night.dignities).toStrictEqual(['triplicity', 'term'])
+      expect(night.score).toBe(5)
+
+      const day = zodiac.getEssentialDignities({ name: 'Jupiter', position: 125 }, true)
+      expect(day.dignities).toStrictEqual(['term'])
+      expect(day.score).toBe(2)
+
+      // participating ruler of the fire triplicity counts 0 points of Lilly
+      const saturn = zodiac.getEssentialDignities({ name: 'Saturn', position: 5 }, true)
+      expect(saturn.dignities).toStrictEqual(['participating', 'fall', 'peregrine'])
+      expect(saturn.score).toBe(-9)
+    })
+
+    test('should detect peregrine planet with debility', () => {
+      // Venus at 15 Scorpio by night: detriment, no dignity, term of Mercury, face of Sun
+      const venus = zodiac.getEssentialDignities({ name: 'Venus', position: 225 }, false)
+      expect(venus.isPeregrine).toBe(true)
+      expect(venus.dignities).toStrictEqual(['detriment', 'peregrine'])
+      expect(venus.score).toBe(-10)
+      expect(venus.termRuler).toBe('Mercury')
+      expect(venus.faceRuler).toBe('Sun')
+    })
+
+    test('should use configured terms and scores', () => {
+      const settings = { ...default_settings, DIGNITIES_TERMS: PTOLEMAIC_TERMS, DIGNITIES_SCORES: { ...default_settings.DIGNITIES_SCORES, peregrine: 0 } }
+      const ptolemaic = new Zodiac(cusps, settings)
+      // 13 Aries is the term of Venus by Ptolemy and of Mercury by Egyptians
+      expect(ptolemaic.getEssentialDignities({ name: 'Venus', position: 13 }).termRuler).toBe('Venus')
+      expect(zodiac.getEssentialDignities({ name: 'Venus', position: 13 }).termRuler).toBe('Mercury')
+      expect(ptolemaic.getEssentialDignities({ name: 'Mars', position: 200 }).score).toBe(-5)
+    })
+
+    test('should wrap position and use the last face at 29 degrees', () => {
+      const result = zodiac.getEssentialDignities({ name: 'Venus', position: 389.9 })
+      expect(result.faceRuler).toBe('Venus')
+      expect(result.termRuler).toBe('Saturn')
+    })
+
+    test('should tell day chart by the Sun above horizon', () => {
+      expect(zodiac.isDayChart(200)).toBe(true)
+      expect(zodiac.isDayChart(100)).toBe(false)
+    })
+  })
+
+  describe('rulership schemes', () => {
+    const traditional = { ...default_settings, RULERSHIP_SCHEME: 'traditional' }
+
+    test('should mark co-rulers of the modern scheme', () => {
+      const zodiac = new Zodiac(cusps)
+      expect(zodiac.getDignities({ name: 'Uranus', position: 310 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP])
+      expect(zodiac.getDignities({ name: 'Saturn', position: 310 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP])
+      expect(zodiac.getRulers(11)).toStrictEqual(['Uranus', 'Saturn'])
+    })
+
+    test('should leave out outer planets in the traditional scheme', () => {
+      const zodiac = new Zodiac(cusps, traditional)
+      expect(zodiac.getDignities({ name: 'Uranus', position: 310 })).toStrictEqual([])
+      expect(zodiac.getDignities({ name: 'Uranus', position: 130 })).toStrictEqual([])
+      expect(zodiac.getDignities({ name: 'Saturn', position: 310 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP])
+      expect(zodiac.getRulers(11)).toStrictEqual(['Saturn'])
+    })
+
+    test('should give Mercury rulership in Virgo only in the traditional scheme', () => {
+      const zodiac = new Zodiac(cusps, traditional)
+      expect(zodiac.getDignities({ name: 'Mercury', position: 150 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP, default_settings.DIGNITIES_EXALTATION])
+      expect(zodiac.getDignities({ name: 'Mercury', position: 330 })).toStrictEqual([default_settings.DIGNITIES_DETRIMENT, default_settings.DIGNITIES_FALL])
+      expect(zodiac.getEssentialDignities({ name: 'Mercury', position: 150 }).dignities).toContain('rulership')
+    })
+
+    test('should keep Mercury without rulership in Virgo in the modern scheme', () => {
+      const zodiac = new Zodiac(cusps)
+      expect(zodiac.getDignities({ name: 'Mercury', position: 150 })).toStrictEqual([default_settings.DIGNITIES_EXALTATION])
+      expect(zodiac.getEssentialDignities({ name: 'Mercury', position: 150 }).dignities).not.toContain('rulership')
+      expect(zodiac.getDispositor(150)).toBe('Mercury')
+    })
+
+    test('should score rulership by the scheme', () => {
+      expect(new Zodiac(cusps).getEssentialDignities({ name: 'Pluto', position: 215 }).dignities).toContain('rulership')
+      expect(new Zodiac(cusps, traditional).getEssentialDignities({ name: 'Pluto', position: 215 }).dignities).toStrictEqual(['peregrine'])
+    })
+
+    test('should give dispositor and house ruler by the main ruler', () => {
+      const modern = new Zodiac(cusps)
+      expect(modern.getDispositor(215)).toBe('Pluto')
+      expect(modern.getDispositor(-1)).toBe('Neptune')
+      expect(modern.getHouseRuler(11)).toBe('Uranus')
+      expect(new Zodiac(cusps, traditional).getDispositor(215)).toBe('Mars')
+      expect(new Zodiac(cusps, traditional).getHouseRuler(11)).toBe('Saturn')
+    })
+
+    test('should use custom scheme', () => {
+      const RULERSHIP_SCHEMES = { ...default_settings.RULERSHIP_SCHEMES, esoteric: [['Mercury'], ['Vulcan'], ['Venus'], ['Neptune'], ['Sun'], ['Moon'], ['Uranus'], ['Mars'], ['Earth'], ['Saturn'], ['Jupiter'], ['Pluto']] }
+      const zodiac = new Zodiac(cusps, { ...default_settings, RULERSHIP_SCHEMES, RULERSHIP_SCHEME: 'esoteric' })
+      expect(zodiac.getDispositor(0)).toBe('Mercury')
+      expect(zodiac.getDignities({ name: 'Vulcan', position: 40 })).toStrictEqual([default_settings.DIGNITIES_RULERSHIP])
+    })
+
+    test('should throw for unknown scheme', () => {
+      const zodiac = new Zodiac(cusps, { ...default_settings, RULERSHIP_SCHEME: 'unknown' })
+      expect(() => zodiac.getDispositor(0)).toThrow('Unknown rulership scheme \'unknown\'.')
+    })
+  })
 })
@@ -1,19 +1,15 @@
 import default_settings from './settings'
-import type { Dignity, Settings } from './settings'
+import type { Dignity, EssentialDignity, Settings } from './settings'
 import { radiansToDegree } from './utils'
-// Zodiac
-const SIGNS_ARIES = 1
-const SIGNS_TAURUS = 2
-const SIGNS_GEMINI = 3
-const SIGNS_CANCER = 4
-const SIGNS_LEO = 5
-const SIGNS_VIRGO = 6
-const SIGNS_LIBRA = 7
-const SIGNS_SCORPIO = 8
-const SIGNS_SAGITTARIUS = 9
-const SIGNS_CAPRICORN = 10
-const SIGNS_AQUARIUS = 11
-const SIGNS_PISCES = 12
+export interface EssentialDignities {
+  // dignities and debilities of the planet, 'peregrine' without any dignity
+  dignities: EssentialDignity[]
+  score: number
+  isPeregrine: boolean
+  // rulers of the term and face of the position
+  termRuler: string
+  faceRuler: string
+}
 
 /**
    * Zodiac
@@ -116,180 +112,149 @@ class Zodiac {
 
     const position = planet.position % radiansToDegree(2 * Math.PI)
 
-    switch (planet.name) {
-      case this.settings.SYMBOL_SUN:
-
-        if (sign === SIGNS_LEO) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_AQUARIUS) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_ARIES) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_VIRGO) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_MOON:
-
-        if (sign === SIGNS_CANCER) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_CAPRICORN) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_TAURUS) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_SCORPIO) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_MERCURY:
-
-        if (sign === SIGNS_GEMINI) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_SAGITTARIUS) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_VIRGO) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_PISCES) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_VENUS:
-
-        if (sign === SIGNS_TAURUS || sign === SIGNS_LIBRA) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_ARIES || sign === SIGNS_SCORPIO) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_PISCES) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_VIRGO) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_MARS:
-
-        if (sign === SIGNS_ARIES || sign === SIGNS_SCORPIO) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_TAURUS || sign === SIGNS_LIBRA) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_CAPRICORN) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_CANCER) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_JUPITER:
-
-        if (sign === SIGNS_SAGITTARIUS || sign === SIGNS_PISCES) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_GEMINI || sign === SIGNS_VIRGO) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_CANCER) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_CAPRICORN) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_SATURN:
-
-        if (sign === SIGNS_CAPRICORN || sign === SIGNS_AQUARIUS) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_CANCER || sign === SIGNS_LEO) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
-
-        if (sign === SIGNS_LIBRA) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_ARIES) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-
-        break
-
-      case this.settings.SYMBOL_URANUS:
+    if (this.isRuler(planet.name, sign)) {
+      result.push(this.settings.DIGNITIES_RULERSHIP)
+    } else if (this.isInDetriment(planet.name, sign)) {
+      result.push(this.settings.DIGNITIES_DETRIMENT)
+    }
 
-        if (sign === SIGNS_AQUARIUS) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_LEO) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
+    const signs = this.settings.DIGNITIES_SIGNS[planet.name]
+    if (signs != null) {
+      if (signs.exaltation.includes(sign)) {
+        result.push(this.settings.DIGNITIES_EXALTATION)
+      } else if (signs.fall.includes(sign)) {
+        result.push(this.settings.DIGNITIES_FALL)
+      }
+    }
 
-        if (sign === SIGNS_SCORPIO) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_TAURUS) {
-          result.push(this.settings.DIGNITIES_FALL)
+    if (exactExaltation != null && Array.isArray(exactExaltation)) {
+      for (let i = 0, ln = exactExaltation.length; i < ln; i++) {
+        if (planet.name === exactExaltation[i].name) {
+          if (this.hasConjunction(position, exactExaltation[i].position, exactExaltation[i].orbit)) {
+            result.push(this.settings.DIGNITIES_EXACT_EXALTATION)
+          }
         }
+      }
+    }
 
-        break
+    return result
+  }
 
-      case this.settings.SYMBOL_NEPTUNE:
+  /**
+   * Rulers of the sign by the selected scheme, the main ruler first
+   * @see settings.RULERSHIP_SCHEME
+   *
+   * @param {int} sign - 1 - 12
+   * @return {Array<String>}
+   */
+  getRulers (sign: number): string[] {
+    const scheme = this.settings.RULERSHIP_SCHEMES[this.settings.RULERSHIP_SCHEME]
+    if (scheme == null) {
+      throw new Error('Unknown rulership scheme \'' + this.settings.RULERSHIP_SCHEME + '\'.')
+    }
 
-        if (sign === SIGNS_PISCES) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_VIRGO) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
+    return scheme[sign - 1]
+  }
 
-        if (sign === SIGNS_LEO || sign === SIGNS_SAGITTARIUS) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_AQUARIUS || sign === SIGNS_GEMINI) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
+  /**
+   * Dispositor of the point, main ruler of its sign
+   *
+   * @param {double} point - angle of point in circle
+   * @return {String}
+   */
+  getDispositor (point: number): string {
+    return this.getRulers(this.getSign(((point % 360) + 360) % 360))[0]
+  }
 
-        break
+  /**
+   * Ruler of the house, main ruler of the sign on its cusp
+   *
+   * @param {int} house - 1 - 12
+   * @return {String}
+   */
+  getHouseRuler (house: number): string {
+    return this.getDispositor(this.cusps[house - 1])
+  }
 
-      case this.settings.SYMBOL_PLUTO:
+  /*
+   * Rulership of dignities, @see settings.DIGNITIES_RULERSHIP_SCHEMES
+   * @private
+   * @param {String} planet
+   * @param {int} sign - 1 - 12
+   */
+  isRuler (planet: string, sign: number): boolean {
+    const scheme = this.settings.DIGNITIES_RULERSHIP_SCHEMES[this.settings.RULERSHIP_SCHEME]
+    return (scheme != null ? scheme[sign - 1] : this.getRulers(sign)).includes(planet)
+  }
 
-        if (sign === SIGNS_SCORPIO) {
-          result.push(this.settings.DIGNITIES_RULERSHIP)
-        } else if (sign === SIGNS_TAURUS) {
-          result.push(this.settings.DIGNITIES_DETRIMENT)
-        }
+  /*
+   * Planet is in detriment in the sign opposite to its rulership
+   * @private
+   * @param {String} planet
+   * @param {int} sign - 1 - 12
+   */
+  isInDetriment (planet: string, sign: number): boolean {
+    return this.isRuler(planet, ((sign + 5) % 12) + 1)
+  }
 
-        if (sign === SIGNS_ARIES) {
-          result.push(this.settings.DIGNITIES_EXALTATION)
-        } else if (sign === SIGNS_LIBRA) {
-          result.push(this.settings.DIGNITIES_FALL)
-        }
-        break
-      default:
+  /**
+   * Essential dignities of planet with its score
+   *
+   * Triplicity belongs to the ruler of the sect, @see settings.DIGNITIES_TRIPLICITIES
+   * Points of dignities and debilities, @see settings.DIGNITIES_SCORES
+   *
+   * @param {Object} planet, { name:"Sun", position:60.2 }
+   * @param {boolean} isDayChart - Sun above the horizon
+   * @return {Object} {"dignities":["rulership","face"], "score":6, "isPeregrine":false, "termRuler":"Saturn", "faceRuler":"Sun"}
+   */
+  getEssentialDignities (planet: { name: string; position: number }, isDayChart: boolean = true): EssentialDignities {
+    const position = ((planet.position % 360) + 360) % 360
+    const sign = Math.floor(position / 30) + 1
+    const degree = position - (sign - 1) * 30
+
+    const triplicity = this.settings.DIGNITIES_TRIPLICITIES[(sign - 1) % 4]
+    const terms = this.settings.DIGNITIES_TERMS[sign - 1]
+    let termRuler = terms[terms.length - 1][0]
+    for (let i = 0, ln = terms.length; i < ln; i++) {
+      if (degree < terms[i][1]) {
+        termRuler = terms[i][0]
         break
-    }
-
-    if (exactExaltation != null && Array.isArray(exactExaltation)) {
-      for (let i = 0, ln = exactExaltation.length; i < ln; i++) {
-        if (planet.name === exactExaltation[i].name) {
-          if (this.hasConjunction(position, exactExaltation[i].position, exactExaltation[i].orbit)) {
-            result.push(this.settings.DIGNITIES_EXACT_EXALTATION)
-          }
-        }
       }
     }
+    const faceRuler = this.settings.DIGNITIES_FACES[sign - 1][Math.min(Math.floor(degree / 10), 2)]
+
+    const dignities: EssentialDignity[] = []
+    const signs = this.settings.DIGNITIES_SIGNS[planet.name]
+    if (this.isRuler(planet.name, sign)) dignities.push('rulership')
+    if (signs?.exaltation.includes(sign)) dignities.push('exaltation')
+    if ((isDayChart ? triplicity.day : triplicity.night) === planet.name) dignities.push('triplicity')
+    if (triplicity.participating === planet.name) dignities.push('participating')
+    if (termRuler === planet.name) dignities.push('term')
+    if (faceRuler === planet.name) dignities.push('face')
+
+    const scores = this.settings.DIGNITIES_SCORES
+    const isPeregrine = !dignities.some(dignity => scores[dignity] > 0)
+
+    if (this.isInDetriment(planet.name, sign)) dignities.push('detriment')
+    if (signs?.fall.includes(sign)) dignities.push('fall')
+    if (isPeregrine) dignities.push('peregrine')
+
+    let score = 0
+    for (let i = 0, ln = dignities.length; i < ln; i++) {
+      score += scores[dignities[i]]
+    }
 
-    return result
+    return { dignities, score, isPeregrine, termRuler, faceRuler }
+  }
+
+  /**
+   * Is the Sun above the horizon, in the houses 7 - 12
+   *
+   * @param {double} sun - angle of the Sun
+   * @return {boolean}
+   */
+  isDayChart (sun: number): boolean {
+    return this.getHouseNumber(sun) >= 7
   }
 
   /*